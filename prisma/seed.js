@@ -0,0 +1,222 @@
+/**
+ * Seeds the portfolio catalog with the projects, artworks, experiences and screen playlist shown on the live site
+ * Run with: pnpm db:seed
+ */
+import { PrismaClient } from "@prisma/client";
+
+const db = new PrismaClient();
+
+/** @type {Array<{ slug: string; section: "SOFTWARE" | "ARTS"; title: string; description: string; images: Array<{ src: string; alt: string; caption?: string }>; technologies: string[]; links: Array<{ url: string; label: string }> }>} */
+const projects = [
+  {
+    slug: "portfolio-website",
+    section: "SOFTWARE",
+    title: "Personal Portfolio Website",
+    description:
+      "You're looking at it! - a three.js website powered by React Three Fiber and T3 stack, featuring a retro low-poly 3D environment I modeled myself. This interactive portfolio showcases all my work across software development, game design, and 3D art.",
+    images: [
+      { src: "/images/projects/portfolio_website.webp", alt: "Personal Portfolio Website" },
+    ],
+    technologies: ["NextJS", "React Three Fiber", "T3", "GSAP"],
+    links: [{ url: "https://github.com/pwazta/vincentxian.com", label: "GitHub" }],
+  },
+  {
+    slug: "whisker-isles",
+    section: "SOFTWARE",
+    title: "Whisker Isles",
+    description:
+      "A task-oriented life simulator where you play as a cat on a tropical island, completing tasks by farming, fishing, and foraging to gather resources for your family cafe's grand opening. Features a dynamic economy with markets and quest systems, progressively challenging daily objectives, and NPC animals you can befriend through dialogue.",
+    images: [
+      { src: "/images/projects/whisker_isles_farming.webp", alt: "Whisker Isles Farming" },
+      { src: "/images/projects/whisker_isles_trading_and_quests.webp", alt: "Whisker Isles Trading and Quests" },
+      { src: "/images/projects/whisker_isles_fishing.webp", alt: "Whisker Isles Fishing" },
+    ],
+    technologies: ["Unreal Engine", "Blueprints"],
+    links: [],
+  },
+  {
+    slug: "east-of-loving",
+    section: "SOFTWARE",
+    title: '"East of Loving" — Strategy Game',
+    description:
+      "A comedy-driven topdown game built in Unity using C# featuring turn-based PVE combat, smart inventory and dynamic item / enemy logic. Features fully handmade 2D graphics, VFX and UI with bone animations modelled in Unity.",
+    images: [
+      { src: "/images/projects/EoL_1.webp", alt: "East of Loving Strategy Game Image 1" },
+      { src: "/images/projects/EoL_2.webp", alt: "East of Loving Strategy Game Image 2" },
+    ],
+    technologies: ["C#", "Unity", "Photoshop"],
+    links: [],
+  },
+  {
+    slug: "endless-wave-survival",
+    section: "SOFTWARE",
+    title: "Endless Wave Survival Game",
+    description:
+      "A proof of concept for an endless survival PVE game developed in C# Godot with extensive upgrade systems, economy and equipment progression. This ongoing passion project explores complex enemy AI with unique pathfinding and state-based behaviours including tracking, circling, patrolling and flock behaviour. Visuals and UI are hand-drawn and animated in Photoshop.",
+    images: [],
+    technologies: ["C#", "Godot", "Photoshop"],
+    links: [],
+  },
+  {
+    slug: "steampunk-cityscape",
+    section: "ARTS",
+    title: "Steampunk Cityscape Environment",
+    description:
+      "A steampunk cityscape environment combining Victorian-era aesthetics with retro-futuristic steam-powered technology. The playable Unreal Engine map features a central winding street through a multi-story city with overhanging bridges and mechanical infrastructure, set at night with soft amber lighting guiding players toward a memorial plaza.",
+    images: [
+      {
+        src: "/images/projects/steampunk_city_plaza.webp",
+        caption: "Plaza with animated globe showcasing the central memorial area",
+        alt: "Steampunk Cityscape Plaza",
+      },
+      {
+        src: "/images/projects/steampunk_city_streets.webp",
+        caption: "Winding streets through the multi-story steampunk city",
+        alt: "Steampunk Cityscape Streets",
+      },
+      {
+        src: "/images/projects/steampunk_city_factory.webp",
+        caption: "Factory district with mechanical infrastructure and steam-powered technology",
+        alt: "Steampunk Cityscape Factory",
+      },
+    ],
+    technologies: ["Maya", "Substance Painter", "Unreal Engine"],
+    links: [],
+  },
+  {
+    slug: "antique-library",
+    section: "ARTS",
+    title: "Antique Library Environment",
+    description:
+      "A fully custom-modeled 3D environment of an antique library room inspired by Gothic Revival and traditional European architecture. Set in a warm forest climate of 1800s Europe, the scene captures a quiet sunset with books and materials strewn across tables, emphasizing rich wooden textures and yellow-hued lighting to evoke peaceful, warm solitude.",
+    images: [
+      { src: "/images/projects/3DVis_Library_1.webp", alt: "Antique Library Environment Render 1" },
+      { src: "/images/projects/3DVis_Library_2.webp", alt: "Antique Library Environment Render 2" },
+      { src: "/images/projects/3DVis_Library_Wireframe_1.webp", alt: "Antique Library Environment Wireframe 1" },
+      { src: "/images/projects/3DVis_Library_Wireframe_2.webp", alt: "Antique Library Environment Wireframe 2" },
+    ],
+    technologies: ["Maya", "Photoshop"],
+    links: [],
+  },
+];
+
+/** @type {Array<{ kind: "WORK" | "ACTIVITY"; title: string; role: string; dates?: string; description: string; image: string; imageAlt: string }>} */
+const experiences = [
+  {
+    kind: "WORK",
+    image: "/images/experience/logo_lyra.webp",
+    imageAlt: "Lyra Logo",
+    title: "Lyra",
+    role: "Forward Deployed Engineer",
+    dates: "Sep 2025 - Present",
+    description:
+      "Lyra is a top-tier digital product studio partnering with startups and fast-growing companies to design, develop, and launch exceptional digital experiences. We collaborate with innovative teams from companies like Soma Capital, 88Rising, Paraform, and various YC-backed startups to craft products that are intuitive, visually striking, and built with care.",
+  },
+  {
+    kind: "WORK",
+    image: "/images/experience/logo_mykaion.webp",
+    imageAlt: "MyKaion Logo",
+    title: "MyKaion",
+    role: "Software Engineer (Contract)",
+    dates: "Sep 2025 - Dec 2025",
+    description:
+      "MyKaion is an IVF patient-centric platform that connects families, clinics, lawyers, and specialists, guiding parties through legal and medical workflows throughout their fertility journeys. Solo delivered the full 0→1 platform, designing the system architecture and implementing full-stack features.",
+  },
+  {
+    kind: "ACTIVITY",
+    image: "/images/experience/logo_cgsoc.webp",
+    imageAlt: "Computer Graphics Society Logo",
+    title: "Computer Graphics Society (CGSoc)",
+    role: "Game Development Committee",
+    dates: "Mar 2025 - Dec 2025",
+    description:
+      "The UNSW Computer Graphics Society exists to unite students passionate about the creative and technical potential of computer graphics and interactive techniques. Fostering a collaborative and supportive environment where students in relevant programs and beyond can refine their skills, connect with peers, exhibit their work, and prepare for industry success.",
+  },
+  {
+    kind: "ACTIVITY",
+    image: "/images/experience/logo_cadets.webp",
+    imageAlt: "Australian Army Cadets Logo",
+    title: "Australian Army Cadets (AAC)",
+    role: "Cadet Under Officer (CUO)",
+    dates: "5 years",
+    description:
+      "The Australian Army Cadets is a youth military organisation partnered with the Australian Defence Force, fostering discipline and teamwork through field exercises, instructional activities, and ceremonial events. Attained the highest rank of Cadet Under Officer, directly overseeing training and safety for a unit of over 150 cadets.",
+  },
+];
+
+/** @type {Array<{ kind: "VIDEO" | "IMAGE"; src: string; artist?: string; artistUrl?: string; license?: string; durationSeconds?: number }>} */
+const screenItems = [
+  { kind: "VIDEO", src: "/Sad Get Well GIF.mp4" },
+  { kind: "VIDEO", src: "/Coffee Break.mp4", artist: "PixelJeff", artistUrl: "https://www.deviantart.com/pixeljeff" },
+  { kind: "VIDEO", src: "/Citypunk 2011 and Love Punch.mp4", artist: "PixelJeff", artistUrl: "https://www.deviantart.com/pixeljeff" },
+  { kind: "VIDEO", src: "/Almost There.mp4", artist: "PixelJeff", artistUrl: "https://www.deviantart.com/pixeljeff" },
+];
+
+/** Re-creates child rows on every run so the seed stays idempotent */
+async function seedProjects() {
+  const orderBySection = { SOFTWARE: 0, ARTS: 0 };
+
+  for (const { slug, section, title, description, images, technologies, links } of projects) {
+    const order = orderBySection[section]++;
+    const children = {
+      images: { create: images.map((image, index) => ({ ...image, order: index })) },
+      technologies: { create: technologies.map((name, index) => ({ name, order: index })) },
+      links: { create: links.map((link, index) => ({ ...link, order: index })) },
+    };
+
+    await db.project.upsert({
+      where: { slug },
+      create: { slug, section, title, description, order, ...children },
+      update: {
+        section,
+        title,
+        description,
+        order,
+        images: { deleteMany: {}, ...children.images },
+        technologies: { deleteMany: {}, ...children.technologies },
+        links: { deleteMany: {}, ...children.links },
+      },
+    });
+  }
+}
+
+/** Matches existing rows by kind and title so re-running the seed doesn't duplicate cards */
+async function seedExperiences() {
+  const orderByKind = { WORK: 0, ACTIVITY: 0 };
+
+  for (const experience of experiences) {
+    const order = orderByKind[experience.kind]++;
+    const existing = await db.experience.findFirst({
+      where: { kind: experience.kind, title: experience.title },
+    });
+
+    if (existing) {
+      await db.experience.update({ where: { id: existing.id }, data: { ...experience, order } });
+    } else {
+      await db.experience.create({ data: { ...experience, order } });
+    }
+  }
+}
+
+/** Matches existing rows by source so re-running the seed doesn't duplicate playlist items */
+async function seedScreenItems() {
+  for (const [order, item] of screenItems.entries()) {
+    const existing = await db.screenItem.findFirst({ where: { src: item.src } });
+
+    if (existing) {
+      await db.screenItem.update({ where: { id: existing.id }, data: { ...item, order } });
+    } else {
+      await db.screenItem.create({ data: { ...item, order } });
+    }
+  }
+}
+
+seedProjects()
+  .then(seedExperiences)
+  .then(seedScreenItems)
+  .then(() => console.log(`Seeded ${projects.length} projects, ${experiences.length} experiences and ${screenItems.length} screen items`))
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => void db.$disconnect());
@@ -0,0 +1,64 @@
+/**
+ * Home Page - 3D Portfolio Entry Point
+ * Used in: Next.js routing for / and every modal deep link (/software, /arts/<slug>, /about, /contact)
+ */
+import { notFound } from "next/navigation";
+import { PortfolioHome } from "~/app/(home)/_components/PortfolioHome";
+import { SoftwareContent } from "~/app/(home)/_components/SoftwareContent";
+import { ArtsContent } from "~/app/(home)/_components/ArtsContent";
+import { AboutContent } from "~/app/(home)/_components/AboutContent";
+import { parsePortfolioRoute } from "~/features/home/utils/portfolioRoutes";
+import { Await } from "~/features/shared/components/Await";
+import { LoadingSpinner } from "~/features/shared/components/LoadingSpinner";
+import { SectionErrorBoundary } from "~/features/shared/components/SectionErrorBoundary";
+import { HydrateClient, prefetch, trpc } from "~/trpc/server";
+
+type HomeProps = {
+  params: Promise<{ section?: string[] }>;
+};
+
+export default async function Home({ params }: HomeProps) {
+  const { section = [] } = await params;
+  // Modal state itself is read from the URL on the client; the server only rejects paths that aren't portfolio routes
+  if (!parsePortfolioRoute(section)) notFound();
+
+  // The computer screen's playlist streams in with the page so the monitor isn't blank until a client fetch
+  prefetch(trpc.screen.playlist.queryOptions());
+
+  return (
+    <HydrateClient>
+      <PortfolioHome
+        softwareContent={
+          <Await
+            fallback={<LoadingSpinner />}
+            prefetch={[trpc.project.bySection.queryOptions({ section: "SOFTWARE" })]}
+            ErrorBoundaryComponent={SectionErrorBoundary}
+          >
+            <SoftwareContent />
+          </Await>
+        }
+        artsContent={
+          <Await
+            fallback={<LoadingSpinner />}
+            prefetch={[trpc.project.bySection.queryOptions({ section: "ARTS" })]}
+            ErrorBoundaryComponent={SectionErrorBoundary}
+          >
+            <ArtsContent />
+          </Await>
+        }
+        aboutContent={
+          <Await
+            fallback={<LoadingSpinner />}
+            prefetch={[
+              trpc.experience.byKind.queryOptions({ kind: "WORK" }),
+              trpc.experience.byKind.queryOptions({ kind: "ACTIVITY" }),
+            ]}
+            ErrorBoundaryComponent={SectionErrorBoundary}
+          >
+            <AboutContent />
+          </Await>
+        }
+      />
+    </HydrateClient>
+  );
+}
@@ -9,13 +9,22 @@
 
 import * as React from "react";
 import { motion } from "framer-motion";
+import { usePortfolioRoute } from "~/features/home/hooks/usePortfolioRoute";
+import { ABOUT_TABS, type AboutTab } from "~/features/home/utils/portfolioRoutes";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "~/features/shared/components/ui/tabs";
 import { AboutMeContent } from "./aboutPageContents/AboutMeContent";
 import { ExperienceContent } from "./aboutPageContents/ExperienceContent";
 import { ActivitiesContent } from "./aboutPageContents/ActivitiesContent";
 
 export function AboutContent() {
-  const [activeTab, setActiveTab] = React.useState("about");
+  const { route, navigate } = usePortfolioRoute();
+  // The active tab lives in ?tab= so it can be linked to; switching tabs doesn't add history entries
+  const activeTab: AboutTab = route.tab ?? "about";
+
+  const setActiveTab = (value: string) => {
+    const tab = ABOUT_TABS.find((candidate) => candidate === value);
+    if (tab) navigate({ section: "about", tab }, "replace");
+  };
 
   return (
     <Tabs defaultValue="about" value={activeTab} onValueChange={setActiveTab} className="w-full">
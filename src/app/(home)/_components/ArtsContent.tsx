@@ -2,70 +2,28 @@
  * Arts section content component
  * Used in: Portfolio modal for Arts section
  */
+"use client";
+
 import * as React from "react";
+import { useSuspenseQuery } from "@tanstack/react-query";
 import { Palette } from "lucide-react";
+import { usePortfolioRoute } from "~/features/home/hooks/usePortfolioRoute";
 import { ProjectCard } from "~/features/shared/components/ProjectCard";
 import { ScrollArea } from "~/features/shared/components/ui/scroll-area";
-import steampunkCityPlazaImage from "~/assets/images/projects/steampunk_city_plaza.webp";
-import steampunkCityStreetsImage from "~/assets/images/projects/steampunk_city_streets.webp";
-import steampunkCityFactoryImage from "~/assets/images/projects/steampunk_city_factory.webp";
-import library1Image from "~/assets/images/projects/3DVis_Library_1.webp";
-import library2Image from "~/assets/images/projects/3DVis_Library_2.webp";
-import libraryWireframe1Image from "~/assets/images/projects/3DVis_Library_Wireframe_1.webp";
-import libraryWireframe2Image from "~/assets/images/projects/3DVis_Library_Wireframe_2.webp";
+import { useTRPC } from "~/trpc/react";
 
 export function ArtsContent() {
-  const artworks = [
-    {
-      title: "Steampunk Cityscape Environment",
-      description:
-        "A steampunk cityscape environment combining Victorian-era aesthetics with retro-futuristic steam-powered technology. The playable Unreal Engine map features a central winding street through a multi-story city with overhanging bridges and mechanical infrastructure, set at night with soft amber lighting guiding players toward a memorial plaza.",
-      images: [
-        {
-          src: steampunkCityPlazaImage,
-          caption: "Plaza with animated globe showcasing the central memorial area",
-          alt: "Steampunk Cityscape Plaza",
-        },
-        {
-          src: steampunkCityStreetsImage,
-          caption: "Winding streets through the multi-story steampunk city",
-          alt: "Steampunk Cityscape Streets",
-        },
-        {
-          src: steampunkCityFactoryImage,
-          caption: "Factory district with mechanical infrastructure and steam-powered technology",
-          alt: "Steampunk Cityscape Factory",
-        },
-      ],
-      technologies: ["Maya", "Substance Painter", "Unreal Engine"],
-      links: [],
-    },
-    {
-      title: "Antique Library Environment",
-      description:
-        "A fully custom-modeled 3D environment of an antique library room inspired by Gothic Revival and traditional European architecture. Set in a warm forest climate of 1800s Europe, the scene captures a quiet sunset with books and materials strewn across tables, emphasizing rich wooden textures and yellow-hued lighting to evoke peaceful, warm solitude.",
-      images: [
-        {
-          src: library1Image,
-          alt: "Antique Library Environment Render 1",
-        },
-        {
-          src: library2Image,
-          alt: "Antique Library Environment Render 2",
-        },
-        {
-          src: libraryWireframe1Image,
-          alt: "Antique Library Environment Wireframe 1",
-        },
-        {
-          src: libraryWireframe2Image,
-          alt: "Antique Library Environment Wireframe 2",
-        },
-      ],
-      technologies: ["Maya", "Photoshop"],
-      links: [],
-    },
-  ];
+  const trpc = useTRPC();
+  const { data: artworks } = useSuspenseQuery(
+    trpc.project.bySection.queryOptions({ section: "ARTS" })
+  );
+  const { route, navigate } = usePortfolioRoute();
+
+  /** Opening the gallery adds a history entry; moving between images and closing replace it, so Back doesn't reopen it */
+  const handleGalleryChange = (slug: string, index: number | null) => {
+    const isOpening = index !== null && (route.slug !== slug || route.image === undefined);
+    navigate({ section: "arts", slug, image: index ?? undefined }, isOpening ? "push" : "replace");
+  };
 
   return (
     <div className="space-y-6">
@@ -89,7 +47,13 @@ export function ArtsContent() {
       <ScrollArea className="h-[60vh] md:h-[500px] w-full">
         <div className="space-y-2 pr-4">
           {artworks.map((artwork) => (
-            <ProjectCard key={artwork.title} {...artwork} />
+            <ProjectCard
+              key={artwork.id}
+              {...artwork}
+              isHighlighted={route.slug === artwork.slug}
+              galleryIndex={route.slug === artwork.slug ? (route.image ?? null) : null}
+              onGalleryChange={(index) => handleGalleryChange(artwork.slug, index)}
+            />
           ))}
         </div>
       </ScrollArea>
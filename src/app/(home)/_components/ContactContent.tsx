@@ -5,95 +5,141 @@
 "use client";
 
 import * as React from "react";
-import { Mail, Loader2 } from "lucide-react";
-import { toast } from "sonner";
-import emailjs from "@emailjs/browser";
+import { Mail, Loader2, Mic, PenLine } from "lucide-react";
 import { Input } from "~/features/shared/components/ui/input";
 import { Textarea } from "~/features/shared/components/ui/textarea";
 import { Button } from "~/features/shared/components/ui/button";
 import { SocialLinks } from "~/features/shared/components/SocialLinks";
+import { useMutationWithToast } from "~/features/shared/hooks/use-mutation-with-toast";
+import { useTRPC } from "~/trpc/react";
+import {
+  ContactMessageInputSchema,
+  VoiceContactMessageInputSchema,
+  type ContactMessageInput,
+  type ContactRejectionReason,
+} from "~/types/contact";
+import { VoiceNoteRecorder, type RecordedVoiceNote } from "./VoiceNoteRecorder";
 
-interface FormErrors {
-  name?: string;
-  email?: string;
-  message?: string;
+/** Whether the visitor is writing a message or leaving a voice note */
+type ContactMode = "write" | "voice";
+
+/** `form` holds errors that aren't about a single field, like rate limits */
+type FormErrors = Partial<Record<keyof ContactMessageInput | "form", string>>;
+
+/** Where each server-side rejection is shown; anything unlisted goes above the submit button */
+const REJECTION_FIELDS: Partial<Record<ContactRejectionReason, keyof ContactMessageInput>> = {
+  RATE_LIMITED_EMAIL: "email",
+  LINK_HEAVY: "message",
+  DUPLICATE: "message",
+};
+
+/** Keeps the first message per field from a flattened Zod error */
+function toFormErrors(fieldErrors: Partial<Record<string, string[]>>): FormErrors {
+  return Object.fromEntries(
+    Object.entries(fieldErrors).map(([field, messages]) => [field, messages?.[0]])
+  ) as FormErrors;
+}
+
+/** Base64 body of a blob, without the data URL prefix */
+function toBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(typeof reader.result === "string" ? (reader.result.split(",")[1] ?? "") : "");
+    reader.onerror = () => reject(reader.error ?? new Error("Couldn't read the recording"));
+    reader.readAsDataURL(blob);
+  });
 }
 
 export function ContactContent() {
+  const trpc = useTRPC();
   const [name, setName] = React.useState("");
   const [email, setEmail] = React.useState("");
   const [message, setMessage] = React.useState("");
+  const [website, setWebsite] = React.useState("");
+  const [mode, setMode] = React.useState<ContactMode>("write");
+  const [voiceNote, setVoiceNote] = React.useState<RecordedVoiceNote | null>(null);
   const [errors, setErrors] = React.useState<FormErrors>({});
-  const [isSubmitting, setIsSubmitting] = React.useState(false);
-
-  const validateEmail = (email: string): boolean => {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(email);
-  };
+  // When the visitor started on the form, to catch bots that submit instantly
+  const startedAtRef = React.useRef(0);
 
-  const validateForm = (): boolean => {
-    const newErrors: FormErrors = {};
+  React.useEffect(() => {
+    startedAtRef.current = Date.now();
+  }, []);
 
-    if (!name.trim()) {
-      newErrors.name = "Name is required";
-    }
-
-    if (!email.trim()) {
-      newErrors.email = "Email is required";
-    } else if (!validateEmail(email)) {
-      newErrors.email = "Please enter a valid email address";
-    }
-
-    if (!message.trim()) {
-      newErrors.message = "Message is required";
-    } else if (message.trim().length < 10) {
-      newErrors.message = "Message must be at least 10 characters";
-    }
+  const submitMutation = useMutationWithToast({
+    ...trpc.contact.submit.mutationOptions(),
+    successMessage: "Message sent successfully! I'll get back to you soon.",
+    errorMessage: (error) =>
+      error.data?.contactRejection
+        ? "Message not sent"
+        : "Failed to send message. Please try again later.",
+    onSuccess: () => {
+      setName("");
+      setEmail("");
+      setMessage("");
+      setVoiceNote(null);
+      setErrors({});
+      startedAtRef.current = Date.now();
+    },
+    onError: (error) => {
+      const rejection = error.data?.contactRejection;
+      if (rejection) {
+        setErrors({ [REJECTION_FIELDS[rejection] ?? "form"]: error.message });
+        return;
+      }
 
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
-  };
+      // Server validation mirrors the form schema, so surface its messages inline too
+      const fieldErrors = error.data?.zodError?.fieldErrors;
+      if (fieldErrors) setErrors(toFormErrors(fieldErrors));
+    },
+  });
+  // Encoding a voice note takes a moment before the mutation starts, so the form counts as submitting from there
+  const [isEncoding, setIsEncoding] = React.useState(false);
+  const isSubmitting = submitMutation.isPending || isEncoding;
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
+    if (isSubmitting) return;
 
-    if (!validateForm()) {
+    const isVoice = mode === "voice";
+    const schema = isVoice ? VoiceContactMessageInputSchema : ContactMessageInputSchema;
+    const result = schema.safeParse({ name, email, message });
+    if (!result.success) {
+      setErrors(toFormErrors(result.error.flatten().fieldErrors));
+      return;
+    }
+    if (isVoice && !voiceNote) {
+      setErrors({ form: "Record a voice note first, or switch back to writing." });
       return;
     }
 
-    setIsSubmitting(true);
-
-    try {
-      const serviceId = process.env.NEXT_PUBLIC_EMAILJS_SERVICE_ID;
-      const templateId = process.env.NEXT_PUBLIC_EMAILJS_TEMPLATE_ID;
-      const publicKey = process.env.NEXT_PUBLIC_EMAILJS_PUBLIC_KEY;
-
-      if (!serviceId || !templateId || !publicKey) {
-        throw new Error("EmailJS configuration is missing");
+    setErrors({});
+    let voiceNoteData: string | undefined;
+    if (isVoice && voiceNote) {
+      setIsEncoding(true);
+      try {
+        voiceNoteData = await toBase64(voiceNote.blob);
+      } catch {
+        setErrors({ form: "Your recording couldn't be read. Please record it again." });
+        return;
+      } finally {
+        setIsEncoding(false);
       }
-
-      await emailjs.send(
-        serviceId,
-        templateId,
-        {
-          name: name.trim(),
-          email: email.trim(),
-          message: message.trim(),
-        },
-        publicKey
-      );
-
-      toast.success("Message sent successfully! I'll get back to you soon.");
-      setName("");
-      setEmail("");
-      setMessage("");
-      setErrors({});
-    } catch (error) {
-      console.error("EmailJS error:", error);
-      toast.error("Failed to send message. Please try again later.");
-    } finally {
-      setIsSubmitting(false);
     }
+
+    submitMutation.mutate({
+      ...result.data,
+      website,
+      elapsedMs: Date.now() - startedAtRef.current,
+      voiceNote:
+        voiceNote && voiceNoteData !== undefined
+          ? {
+              mimeType: voiceNote.blob.type || "audio/webm",
+              durationMs: Math.max(1, Math.round(voiceNote.durationMs)),
+              data: voiceNoteData,
+            }
+          : undefined,
+    });
   };
 
   return (
@@ -120,7 +166,7 @@ export function ContactContent() {
       </p>
 
       {/* Contact Form */}
-      <form onSubmit={handleSubmit} className="space-y-4">
+      <form onSubmit={(e) => void handleSubmit(e)} className="space-y-4">
         {/* Name Field */}
         <div className="space-y-1">
           <label htmlFor="name" className="text-sm font-medium text-foreground">
@@ -175,10 +221,46 @@ export function ContactContent() {
           )}
         </div>
 
+        {/* Write or record */}
+        <div className="flex gap-1" role="group" aria-label="How to get in touch">
+          <Button
+            type="button"
+            size="sm"
+            variant={mode === "write" ? "default" : "ghost"}
+            onClick={() => setMode("write")}
+            aria-pressed={mode === "write"}
+            disabled={isSubmitting}
+            className="cursor-pointer"
+          >
+            <PenLine /> Write a message
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant={mode === "voice" ? "default" : "ghost"}
+            onClick={() => setMode("voice")}
+            aria-pressed={mode === "voice"}
+            disabled={isSubmitting}
+            className="cursor-pointer"
+          >
+            <Mic /> Leave a voice note
+          </Button>
+        </div>
+
+        {mode === "voice" && (
+          <VoiceNoteRecorder value={voiceNote} onChange={setVoiceNote} disabled={isSubmitting} />
+        )}
+
         {/* Message Field */}
         <div className="space-y-1">
           <label htmlFor="message" className="text-sm font-medium text-foreground">
-            Message <span className="text-destructive">*</span>
+            {mode === "voice" ? (
+              "Anything to add? (optional)"
+            ) : (
+              <>
+                Message <span className="text-destructive">*</span>
+              </>
+            )}
           </label>
           <Textarea
             id="message"
@@ -193,7 +275,7 @@ export function ContactContent() {
             aria-describedby={errors.message ? "message-error" : undefined}
             disabled={isSubmitting}
             placeholder="Type your message here"
-            rows={7}
+            rows={mode === "voice" ? 3 : 7}
             className="resize-y min-h-[100px]"
           />
           {errors.message && (
@@ -203,6 +285,26 @@ export function ContactContent() {
           )}
         </div>
 
+        {/* Honeypot - hidden from people, left for bots to fill in */}
+        <div aria-hidden="true" className="absolute -left-[9999px] h-0 w-0 overflow-hidden">
+          <label htmlFor="website">Website</label>
+          <input
+            id="website"
+            name="website"
+            type="text"
+            tabIndex={-1}
+            autoComplete="off"
+            value={website}
+            onChange={(e) => setWebsite(e.target.value)}
+          />
+        </div>
+
+        {errors.form && (
+          <p id="form-error" role="alert" className="text-sm text-destructive">
+            {errors.form}
+          </p>
+        )}
+
         {/* Submit Button */}
         <div className="flex justify-start">
           <Button
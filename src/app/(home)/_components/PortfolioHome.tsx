@@ -0,0 +1,127 @@
+/**
+ * Client shell for the 3D portfolio - derives modal state from the URL and wires the scene, navbar and modals
+ * Falls back to the 2D layout with the same section contents when WebGL isn't usable
+ * Used in: Home page, with server-streamed section contents passed in as props
+ */
+"use client";
+
+import * as React from "react";
+import { Navbar } from "~/features/home/components/Navbar";
+import { Portfolio2D } from "~/features/home/components/Portfolio2D";
+import { PortfolioScene } from "~/features/home/components/PortfolioScene";
+import { SceneLoader } from "~/features/home/components/SceneLoader";
+import { useCameraDirector } from "~/features/home/hooks/useCameraDirector";
+import { useDaylightThemeSync } from "~/features/home/hooks/useDaylightThemeSync";
+import { usePortfolioRoute } from "~/features/home/hooks/usePortfolioRoute";
+import { useWebGLMode } from "~/features/home/hooks/useWebGLMode";
+import { SECTION_VIEWPOINTS } from "~/features/home/utils/cameraDirector";
+import { type PortfolioSection } from "~/features/home/utils/portfolioRoutes";
+import { ModalFrame } from "~/features/shared/components/ModalFrame";
+import { playSound } from "~/lib/sounds";
+import { ContactContent } from "~/app/(home)/_components/ContactContent";
+
+type PortfolioHomeProps = {
+  softwareContent: React.ReactNode;
+  artsContent: React.ReactNode;
+  aboutContent: React.ReactNode;
+};
+
+export function PortfolioHome({ softwareContent, artsContent, aboutContent }: PortfolioHomeProps) {
+  const { route, navigate } = usePortfolioRoute();
+  // Visitors landing on a modal URL skip the Enter step; captured once so later navigation doesn't change it
+  const [isDeepLink] = React.useState(() => route.section !== null);
+
+  const { mode, failureReason, sceneKey, reportFailure, retry } = useWebGLMode();
+  useDaylightThemeSync();
+
+  const isAnyDialogOpen = route.section !== null;
+
+  const { flyToSections, flyTo, stopTour } = useCameraDirector();
+  // Only the latest open request navigates; flights it replaced still resolve but are stale
+  const openRequestRef = React.useRef(0);
+
+  /** Optionally flies the camera to the section's object first; in 2D there's no camera and it opens straight away */
+  const openSection = React.useCallback((section: PortfolioSection, slug?: string) => {
+    stopTour();
+    const request = ++openRequestRef.current;
+    if (!flyToSections) {
+      navigate({ section, slug });
+      return;
+    }
+    void flyTo(SECTION_VIEWPOINTS[section]).then(() => {
+      if (request === openRequestRef.current) navigate({ section, slug });
+    });
+  }, [navigate, flyToSections, flyTo, stopTour]);
+  const closeSectionHandler = (section: PortfolioSection) => (open: boolean) => {
+    if (!open && route.section === section) navigate({ section: null });
+  };
+
+  return (
+    <div className="relative h-screen w-screen overflow-hidden bg-background">
+      <Navbar
+        onSoftwareClick={() => { playSound("click"); openSection("software"); }}
+        onArtsClick={() => { playSound("click"); openSection("arts"); }}
+        onAboutClick={() => { playSound("click"); openSection("about"); }}
+        onContactClick={() => { playSound("click"); openSection("contact"); }}
+      />
+      {/* Shows the scene's loading screen until WebGL detection picks a mode, so first paint isn't blank */}
+      {mode === "checking" && <SceneLoader />}
+      {mode === "2d" && (
+        <Portfolio2D
+          sections={{ software: softwareContent, arts: artsContent, about: aboutContent, contact: <ContactContent /> }}
+          activeSection={route.section}
+          failureReason={failureReason}
+          onRetry={retry}
+        />
+      )}
+      {mode === "3d" && (
+        <div className="h-full w-full">
+          <PortfolioScene
+            key={sceneKey}
+            onSoftwareClick={() => openSection("software")}
+            onArtsClick={() => openSection("arts")}
+            onAboutClick={() => openSection("about")}
+            onContactClick={() => openSection("contact")}
+            onProjectOpen={openSection}
+            isDialogOpen={isAnyDialogOpen}
+            skipIntro={isDeepLink || sceneKey > 0}
+            onWebGLFailure={reportFailure}
+          />
+        </div>
+      )}
+
+      {mode === "3d" && (
+        <>
+          <ModalFrame
+            open={route.section === "software"}
+            onOpenChange={closeSectionHandler("software")}
+            title="Software"
+          >
+            {softwareContent}
+          </ModalFrame>
+
+          <ModalFrame open={route.section === "arts"} onOpenChange={closeSectionHandler("arts")} title="Arts">
+            {artsContent}
+          </ModalFrame>
+
+          <ModalFrame
+            open={route.section === "about"}
+            onOpenChange={closeSectionHandler("about")}
+            title="About"
+          >
+            {aboutContent}
+          </ModalFrame>
+
+          <ModalFrame
+            open={route.section === "contact"}
+            onOpenChange={closeSectionHandler("contact")}
+            title="Contact"
+            className="max-w-[680px]"
+          >
+            <ContactContent />
+          </ModalFrame>
+        </>
+      )}
+    </div>
+  );
+}
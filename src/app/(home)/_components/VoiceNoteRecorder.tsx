@@ -0,0 +1,149 @@
+/**
+ * Records a short voice note with the microphone for the contact form
+ * Used in: ContactContent when the visitor chooses to leave a voice note
+ */
+"use client";
+
+import * as React from "react";
+import { Mic, Square, Trash2 } from "lucide-react";
+import { Button } from "~/features/shared/components/ui/button";
+import { VOICE_NOTE_MAX_BYTES, VOICE_NOTE_MAX_SECONDS } from "~/types/contact";
+
+export type RecordedVoiceNote = {
+  blob: Blob;
+  durationMs: number;
+};
+
+type VoiceNoteRecorderProps = {
+  value: RecordedVoiceNote | null;
+  onChange: (voiceNote: RecordedVoiceNote | null) => void;
+  disabled?: boolean;
+};
+
+/** Keeps a minute of speech well under the upload limit */
+const AUDIO_BITS_PER_SECOND = 64_000;
+/** First format the browser can record; Safari only does mp4 */
+const PREFERRED_TYPES = ["audio/webm;codecs=opus", "audio/ogg;codecs=opus", "audio/mp4"];
+
+function formatSeconds(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+function canRecord(): boolean {
+  return typeof window !== "undefined" && typeof MediaRecorder !== "undefined" && !!navigator.mediaDevices?.getUserMedia;
+}
+
+export function VoiceNoteRecorder({ value, onChange, disabled = false }: VoiceNoteRecorderProps) {
+  const [isSupported, setIsSupported] = React.useState(true);
+  const [isRecording, setIsRecording] = React.useState(false);
+  const [elapsedMs, setElapsedMs] = React.useState(0);
+  const [error, setError] = React.useState<string | null>(null);
+  const recorderRef = React.useRef<MediaRecorder | null>(null);
+  const previewUrl = React.useMemo(() => (value ? URL.createObjectURL(value.blob) : null), [value]);
+
+  React.useEffect(() => setIsSupported(canRecord()), []);
+
+  React.useEffect(() => {
+    if (!previewUrl) return;
+    return () => URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
+
+  // Stop the microphone if the form goes away mid-recording
+  React.useEffect(() => () => recorderRef.current?.stop(), []);
+
+  // Tick the timer and stop at the length limit
+  React.useEffect(() => {
+    if (!isRecording) return;
+    const startedAt = Date.now();
+    const interval = setInterval(() => {
+      const elapsed = Date.now() - startedAt;
+      setElapsedMs(elapsed);
+      if (elapsed >= VOICE_NOTE_MAX_SECONDS * 1000) recorderRef.current?.stop();
+    }, 200);
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  const startRecording = async () => {
+    setError(null);
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      setError("Microphone access was blocked. You can still write a message instead.");
+      return;
+    }
+
+    const mimeType = PREFERRED_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, { mimeType, audioBitsPerSecond: AUDIO_BITS_PER_SECOND });
+    const chunks: Blob[] = [];
+    const startedAt = Date.now();
+
+    recorder.ondataavailable = (e) => chunks.push(e.data);
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop());
+      recorderRef.current = null;
+      setIsRecording(false);
+
+      const blob = new Blob(chunks, { type: recorder.mimeType });
+      if (blob.size === 0) return;
+      if (blob.size > VOICE_NOTE_MAX_BYTES) {
+        setError("That recording is too large. Please try a shorter one.");
+        return;
+      }
+      onChange({ blob, durationMs: Math.min(Date.now() - startedAt, VOICE_NOTE_MAX_SECONDS * 1000) });
+    };
+
+    recorderRef.current = recorder;
+    recorder.start();
+    setElapsedMs(0);
+    setIsRecording(true);
+  };
+
+  if (!isSupported) {
+    return <p className="text-sm text-foreground/70">This browser can&apos;t record audio. Please write a message instead.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {value && previewUrl ? (
+        <div className="flex items-center gap-2">
+          <audio controls src={previewUrl} className="h-9 flex-1" aria-label="Your voice note" />
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            onClick={() => onChange(null)}
+            disabled={disabled}
+            aria-label="Delete voice note"
+            className="cursor-pointer"
+          >
+            <Trash2 />
+          </Button>
+        </div>
+      ) : (
+        <div className="flex items-center gap-3">
+          {isRecording ? (
+            <Button type="button" variant="destructive" onClick={() => recorderRef.current?.stop()} className="cursor-pointer">
+              <Square /> Stop
+            </Button>
+          ) : (
+            <Button type="button" variant="outline" onClick={() => void startRecording()} disabled={disabled} className="cursor-pointer">
+              <Mic /> Record
+            </Button>
+          )}
+          <span className="text-sm tabular-nums text-foreground/70">
+            {isRecording
+              ? `Recording ${formatSeconds(elapsedMs)} / ${formatSeconds(VOICE_NOTE_MAX_SECONDS * 1000)}`
+              : `Up to ${VOICE_NOTE_MAX_SECONDS} seconds`}
+          </span>
+        </div>
+      )}
+      {error && (
+        <p role="alert" className="text-sm text-destructive">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -2,33 +2,19 @@
  * Activities section content component for About modal tab
  * Displays extracurricular/volunteer activity cards
  */
+"use client";
+
 import * as React from "react";
+import { useSuspenseQuery } from "@tanstack/react-query";
 import { Users } from "lucide-react";
 import { ExperienceCard } from "~/features/shared/components/ExperienceCard";
-import logoCgsoc from "~/assets/images/experience/logo_cgsoc.webp";
-import logoCadets from "~/assets/images/experience/logo_cadets.webp";
+import { useTRPC } from "~/trpc/react";
 
 export function ActivitiesContent() {
-  const activities = [
-    {
-      image: logoCgsoc,
-      imageAlt: "Computer Graphics Society Logo",
-      title: "Computer Graphics Society (CGSoc)",
-      role: "Game Development Committee",
-      dates: "Mar 2025 - Dec 2025",
-      description:
-        "The UNSW Computer Graphics Society exists to unite students passionate about the creative and technical potential of computer graphics and interactive techniques. Fostering a collaborative and supportive environment where students in relevant programs and beyond can refine their skills, connect with peers, exhibit their work, and prepare for industry success.",
-    },
-    {
-      image: logoCadets,
-      imageAlt: "Australian Army Cadets Logo",
-      title: "Australian Army Cadets (AAC)",
-      role: "Cadet Under Officer (CUO)",
-      dates: "5 years",
-      description:
-        "The Australian Army Cadets is a youth military organisation partnered with the Australian Defence Force, fostering discipline and teamwork through field exercises, instructional activities, and ceremonial events. Attained the highest rank of Cadet Under Officer, directly overseeing training and safety for a unit of over 150 cadets.",
-    },
-  ];
+  const trpc = useTRPC();
+  const { data: activities } = useSuspenseQuery(
+    trpc.experience.byKind.queryOptions({ kind: "ACTIVITY" })
+  );
 
   return (
     <div className="space-y-4">
@@ -61,7 +47,7 @@ export function ActivitiesContent() {
       {/* Activity Cards */}
       <div className="space-y-2">
         {activities.map((activity) => (
-          <ExperienceCard key={activity.title} {...activity} />
+          <ExperienceCard key={activity.id} {...activity} />
         ))}
       </div>
     </div>
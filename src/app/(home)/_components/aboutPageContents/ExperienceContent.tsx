@@ -2,33 +2,19 @@
  * Experience section content component for About modal tab
  * Displays work experience cards
  */
+"use client";
+
 import * as React from "react";
+import { useSuspenseQuery } from "@tanstack/react-query";
 import { Briefcase } from "lucide-react";
 import { ExperienceCard } from "~/features/shared/components/ExperienceCard";
-import logoLyra from "~/assets/images/experience/logo_lyra.webp";
-import logoMykaion from "~/assets/images/experience/logo_mykaion.webp";
+import { useTRPC } from "~/trpc/react";
 
 export function ExperienceContent() {
-  const experiences = [
-    {
-      image: logoLyra,
-      imageAlt: "Lyra Logo",
-      title: "Lyra",
-      role: "Forward Deployed Engineer",
-      dates: "Sep 2025 - Present",
-      description:
-        "Lyra is a top-tier digital product studio partnering with startups and fast-growing companies to design, develop, and launch exceptional digital experiences. We collaborate with innovative teams from companies like Soma Capital, 88Rising, Paraform, and various YC-backed startups to craft products that are intuitive, visually striking, and built with care.",
-    },
-    {
-      image: logoMykaion,
-      imageAlt: "MyKaion Logo",
-      title: "MyKaion",
-      role: "Software Engineer (Contract)",
-      dates: "Sep 2025 - Dec 2025",
-      description:
-        "MyKaion is an IVF patient-centric platform that connects families, clinics, lawyers, and specialists, guiding parties through legal and medical workflows throughout their fertility journeys. Solo delivered the full 0→1 platform, designing the system architecture and implementing full-stack features.",
-    },
-  ];
+  const trpc = useTRPC();
+  const { data: experiences } = useSuspenseQuery(
+    trpc.experience.byKind.queryOptions({ kind: "WORK" })
+  );
 
   return (
     <div className="space-y-4">
@@ -61,7 +47,7 @@ export function ExperienceContent() {
       {/* Experience Cards */}
       <div className="space-y-2">
         {experiences.map((exp) => (
-          <ExperienceCard key={exp.title} {...exp} />
+          <ExperienceCard key={exp.id} {...exp} />
         ))}
       </div>
     </div>
@@ -1,8 +1,22 @@
+import Link from "next/link";
+import { SITE_BASE_PATH } from "~/features/site/utils/siteSections";
+
 export const metadata = {
   title: "vx.dev",
   description: "Vincent's 3D portfolio site 🍀",
 };
 
 export default function HomeLayout({ children }: { children: React.ReactNode }) {
-  return <main className="h-screen w-screen">{children}</main>;
+  return (
+    <main className="h-screen w-screen">
+      {/* Crawlers and screen readers get a plain route to the same content */}
+      <Link
+        href={SITE_BASE_PATH}
+        className="sr-only focus:not-sr-only focus:fixed focus:left-4 focus:top-4 focus:z-50 focus:bg-background focus:px-3 focus:py-2 focus:text-foreground"
+      >
+        Skip the 3D scene and view the text-only portfolio
+      </Link>
+      {children}
+    </main>
+  );
 }
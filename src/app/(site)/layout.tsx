@@ -0,0 +1,24 @@
+/**
+ * Layout for the server-rendered portfolio - plain pages for crawlers and visitors without WebGL
+ * Used in: Next.js routing for /portfolio
+ */
+import { type Metadata } from "next";
+import { SocialLinks } from "~/features/shared/components/SocialLinks";
+import { SiteHeader } from "~/features/site/components/SiteHeader";
+import { SITE_NAME } from "~/features/site/utils/structuredData";
+
+export const metadata: Metadata = {
+  title: { default: `Portfolio | ${SITE_NAME}`, template: `%s | ${SITE_NAME}` },
+};
+
+export default function SiteLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <SiteHeader />
+      <main className="mx-auto max-w-4xl px-6 py-10">{children}</main>
+      <footer className="border-t border-accent/20 py-6">
+        <SocialLinks />
+      </footer>
+    </div>
+  );
+}
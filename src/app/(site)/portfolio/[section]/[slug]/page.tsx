@@ -0,0 +1,85 @@
+/**
+ * Server-rendered page for a single software project or artwork
+ * Used in: Next.js routing for /portfolio/software/<slug> and /portfolio/arts/<slug>
+ */
+import { type Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ProjectCard } from "~/features/shared/components/ProjectCard";
+import { JsonLd } from "~/features/site/components/JsonLd";
+import { View3DLink } from "~/features/site/components/View3DLink";
+import { getProjectBySlug } from "~/features/site/utils/siteQueries";
+import { isProjectPageKey, PROJECT_PAGES, SITE_BASE_PATH, toSitePath } from "~/features/site/utils/siteSections";
+import { breadcrumbJsonLd, buildPageMetadata, projectJsonLd } from "~/features/site/utils/structuredData";
+
+type ProjectPageProps = {
+  params: Promise<{ section: string; slug: string }>;
+};
+
+export async function generateMetadata({ params }: ProjectPageProps): Promise<Metadata> {
+  const { section, slug } = await params;
+  if (!isProjectPageKey(section)) return {};
+
+  const project = await getProjectBySlug(section, slug);
+  if (!project) return {};
+
+  return buildPageMetadata({
+    title: project.title,
+    description: project.description,
+    path: toSitePath(section, project.slug),
+    image: project.images[0]?.src,
+  });
+}
+
+export default async function ProjectPage({ params }: ProjectPageProps) {
+  const { section, slug } = await params;
+  if (!isProjectPageKey(section)) notFound();
+
+  const project = await getProjectBySlug(section, slug);
+  if (!project) notFound();
+
+  const path = toSitePath(section, project.slug);
+  const { title: sectionTitle } = PROJECT_PAGES[section];
+
+  return (
+    <article className="space-y-6">
+      <JsonLd data={{ "@context": "https://schema.org", ...projectJsonLd(project, path) }} />
+      <JsonLd
+        data={breadcrumbJsonLd([
+          { name: "Portfolio", path: SITE_BASE_PATH },
+          { name: sectionTitle, path: toSitePath(section) },
+          { name: project.title, path },
+        ])}
+      />
+
+      <nav aria-label="Breadcrumb" className="text-sm text-foreground/60">
+        <Link href={toSitePath(section)} className="hover:text-primary">
+          {sectionTitle}
+        </Link>{" "}
+        / <span aria-current="page">{project.title}</span>
+      </nav>
+
+      <header className="space-y-2">
+        <h1 className="text-3xl font-semibold text-foreground">{project.title}</h1>
+        <View3DLink route={{ section, slug: project.slug }} />
+      </header>
+
+      <ProjectCard {...project} />
+
+      {project.links.length > 0 && (
+        <section className="space-y-2">
+          <h2 className="text-lg font-semibold text-foreground">Links</h2>
+          <ul className="list-disc pl-5 text-sm">
+            {project.links.map((link) => (
+              <li key={link.url}>
+                <a href={link.url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                  {link.label}
+                </a>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </article>
+  );
+}
@@ -0,0 +1,66 @@
+/**
+ * Server-rendered list of software projects or artworks
+ * Used in: Next.js routing for /portfolio/software and /portfolio/arts
+ */
+import { type Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ProjectCard } from "~/features/shared/components/ProjectCard";
+import { JsonLd } from "~/features/site/components/JsonLd";
+import { SiteHeading } from "~/features/site/components/SiteHeading";
+import { View3DLink } from "~/features/site/components/View3DLink";
+import { getSectionProjects } from "~/features/site/utils/siteQueries";
+import { isProjectPageKey, PROJECT_PAGES, toSitePath } from "~/features/site/utils/siteSections";
+import { buildPageMetadata, collectionJsonLd } from "~/features/site/utils/structuredData";
+
+type ProjectSectionPageProps = {
+  params: Promise<{ section: string }>;
+};
+
+export async function generateMetadata({ params }: ProjectSectionPageProps): Promise<Metadata> {
+  const { section } = await params;
+  if (!isProjectPageKey(section)) return {};
+
+  const { title, description } = PROJECT_PAGES[section];
+  const [first] = await getSectionProjects(section);
+  return buildPageMetadata({ title, description, path: toSitePath(section), image: first?.images[0]?.src });
+}
+
+export default async function ProjectSectionPage({ params }: ProjectSectionPageProps) {
+  const { section } = await params;
+  if (!isProjectPageKey(section)) notFound();
+
+  const { title, heading, description } = PROJECT_PAGES[section];
+  const projects = await getSectionProjects(section);
+
+  return (
+    <article className="space-y-6">
+      <JsonLd
+        data={collectionJsonLd({
+          name: title,
+          description,
+          path: toSitePath(section),
+          projects: projects.map((project) => ({ project, path: toSitePath(section, project.slug) })),
+        })}
+      />
+      <header className="space-y-2">
+        <SiteHeading>{heading}</SiteHeading>
+        <p className="text-foreground/90">{description}</p>
+        <View3DLink route={{ section }} />
+      </header>
+
+      {projects.length === 0 && <p className="text-sm text-foreground/60">Nothing here yet.</p>}
+
+      <ul className="space-y-4">
+        {projects.map((project) => (
+          <li key={project.id} className="space-y-1">
+            <ProjectCard {...project} />
+            <Link href={toSitePath(section, project.slug)} className="px-3 md:px-4 text-sm text-primary hover:underline">
+              More about {project.title}
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </article>
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * Server-rendered About page - bio, work experience and activities
+ * Used in: Next.js routing for /portfolio/about
+ */
+import { AboutMeContent } from "~/app/(home)/_components/aboutPageContents/AboutMeContent";
+import { ExperienceCard } from "~/features/shared/components/ExperienceCard";
+import { JsonLd } from "~/features/site/components/JsonLd";
+import { View3DLink } from "~/features/site/components/View3DLink";
+import { getExperiences } from "~/features/site/utils/siteQueries";
+import { toSitePath } from "~/features/site/utils/siteSections";
+import { buildPageMetadata, profileJsonLd } from "~/features/site/utils/structuredData";
+
+const PATH = toSitePath("about");
+
+export const metadata = buildPageMetadata({
+  title: "About",
+  description: "Vincent Xian's background, tech stack, work experience and extracurricular activities.",
+  path: PATH,
+});
+
+export default async function AboutPage() {
+  const [experiences, activities] = await Promise.all([getExperiences("WORK"), getExperiences("ACTIVITY")]);
+
+  return (
+    <article className="space-y-10">
+      <JsonLd data={profileJsonLd(PATH, experiences)} />
+      <h1 className="sr-only">About Vincent Xian</h1>
+
+      <section aria-label="Introduction" className="space-y-2">
+        <AboutMeContent />
+        <View3DLink route={{ section: "about" }} />
+      </section>
+
+      <section aria-labelledby="experience-heading" className="space-y-2">
+        <h2 id="experience-heading" className="text-2xl font-semibold text-foreground" style={{ fontFamily: "var(--font-mono)" }}>
+          experience
+        </h2>
+        <ul className="space-y-2">
+          {experiences.map((experience) => (
+            <li key={experience.id}>
+              <ExperienceCard {...experience} />
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      <section aria-labelledby="activities-heading" className="space-y-2">
+        <h2 id="activities-heading" className="text-2xl font-semibold text-foreground" style={{ fontFamily: "var(--font-mono)" }}>
+          activities
+        </h2>
+        <ul className="space-y-2">
+          {activities.map((activity) => (
+            <li key={activity.id}>
+              <ExperienceCard {...activity} />
+            </li>
+          ))}
+        </ul>
+      </section>
+    </article>
+  );
+}
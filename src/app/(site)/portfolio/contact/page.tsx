@@ -0,0 +1,28 @@
+/**
+ * Server-rendered Contact page wrapping the same form as the Contact modal
+ * Used in: Next.js routing for /portfolio/contact
+ */
+import { ContactContent } from "~/app/(home)/_components/ContactContent";
+import { JsonLd } from "~/features/site/components/JsonLd";
+import { View3DLink } from "~/features/site/components/View3DLink";
+import { toSitePath } from "~/features/site/utils/siteSections";
+import { buildPageMetadata, contactPageJsonLd } from "~/features/site/utils/structuredData";
+
+const PATH = toSitePath("contact");
+
+export const metadata = buildPageMetadata({
+  title: "Contact",
+  description: "Get in touch with Vincent Xian about work, collaborations or anything else.",
+  path: PATH,
+});
+
+export default function ContactPage() {
+  return (
+    <article className="mx-auto max-w-[680px] space-y-4">
+      <JsonLd data={contactPageJsonLd(PATH)} />
+      <h1 className="sr-only">Contact Vincent Xian</h1>
+      <ContactContent />
+      <View3DLink route={{ section: "contact" }} />
+    </article>
+  );
+}
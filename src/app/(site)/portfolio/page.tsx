@@ -0,0 +1,45 @@
+/**
+ * Portfolio index - introduction and links to every section
+ * Used in: Next.js routing for /portfolio
+ */
+import Link from "next/link";
+import { JsonLd } from "~/features/site/components/JsonLd";
+import { SiteHeading } from "~/features/site/components/SiteHeading";
+import { View3DLink } from "~/features/site/components/View3DLink";
+import { PROJECT_PAGES, SITE_BASE_PATH, toSitePath } from "~/features/site/utils/siteSections";
+import { buildPageMetadata, websiteJsonLd } from "~/features/site/utils/structuredData";
+
+const DESCRIPTION = "Vincent Xian is a software engineer, game developer and 3D artist based in Sydney.";
+
+export const metadata = buildPageMetadata({ title: "Portfolio", description: DESCRIPTION, path: SITE_BASE_PATH });
+
+const SECTIONS = [
+  { href: toSitePath("software"), title: PROJECT_PAGES.software.title, description: PROJECT_PAGES.software.description },
+  { href: toSitePath("arts"), title: PROJECT_PAGES.arts.title, description: PROJECT_PAGES.arts.description },
+  { href: toSitePath("about"), title: "About", description: "Background, tech stack, work experience and activities." },
+  { href: toSitePath("contact"), title: "Contact", description: "Send a message about work, collaborations or anything else." },
+];
+
+export default function PortfolioIndexPage() {
+  return (
+    <article className="space-y-8">
+      <JsonLd data={websiteJsonLd()} />
+      <header className="space-y-2">
+        <SiteHeading>vincent xian</SiteHeading>
+        <p className="text-foreground/90">{DESCRIPTION}</p>
+        <View3DLink route={{ section: null }} label="Explore the 3D portfolio" />
+      </header>
+
+      <ul className="grid gap-4 md:grid-cols-2">
+        {SECTIONS.map((section) => (
+          <li key={section.href}>
+            <Link href={section.href} className="block h-full rounded border border-accent/20 p-4 transition-colors hover:bg-muted">
+              <h2 className="font-semibold text-foreground">{section.title}</h2>
+              <p className="text-sm text-foreground/70">{section.description}</p>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </article>
+  );
+}
@@ -0,0 +1,11 @@
+"use server";
+
+import { signIn, signOut } from "~/server/auth";
+
+export async function signInToAdmin() {
+  await signIn("google", { redirectTo: "/admin" });
+}
+
+export async function signOutOfAdmin() {
+  await signOut({ redirectTo: "/" });
+}
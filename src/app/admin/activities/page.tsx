@@ -0,0 +1,17 @@
+import { ExperienceManager } from "~/features/admin/components/ExperienceManager";
+import { Await } from "~/features/shared/components/Await";
+import { LoadingSpinner } from "~/features/shared/components/LoadingSpinner";
+import { SectionErrorBoundary } from "~/features/shared/components/SectionErrorBoundary";
+import { trpc } from "~/trpc/server";
+
+export default function AdminActivitiesPage() {
+  return (
+    <Await
+      fallback={<LoadingSpinner />}
+      prefetch={[trpc.experience.byKind.queryOptions({ kind: "ACTIVITY" })]}
+      ErrorBoundaryComponent={SectionErrorBoundary}
+    >
+      <ExperienceManager kind="ACTIVITY" title="Activities" />
+    </Await>
+  );
+}
@@ -0,0 +1,17 @@
+import { ProjectManager } from "~/features/admin/components/ProjectManager";
+import { Await } from "~/features/shared/components/Await";
+import { LoadingSpinner } from "~/features/shared/components/LoadingSpinner";
+import { SectionErrorBoundary } from "~/features/shared/components/SectionErrorBoundary";
+import { trpc } from "~/trpc/server";
+
+export default function AdminArtworksPage() {
+  return (
+    <Await
+      fallback={<LoadingSpinner />}
+      prefetch={[trpc.project.bySection.queryOptions({ section: "ARTS" })]}
+      ErrorBoundaryComponent={SectionErrorBoundary}
+    >
+      <ProjectManager section="ARTS" title="Artworks" />
+    </Await>
+  );
+}
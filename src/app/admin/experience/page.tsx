@@ -0,0 +1,17 @@
+import { ExperienceManager } from "~/features/admin/components/ExperienceManager";
+import { Await } from "~/features/shared/components/Await";
+import { LoadingSpinner } from "~/features/shared/components/LoadingSpinner";
+import { SectionErrorBoundary } from "~/features/shared/components/SectionErrorBoundary";
+import { trpc } from "~/trpc/server";
+
+export default function AdminExperiencePage() {
+  return (
+    <Await
+      fallback={<LoadingSpinner />}
+      prefetch={[trpc.experience.byKind.queryOptions({ kind: "WORK" })]}
+      ErrorBoundaryComponent={SectionErrorBoundary}
+    >
+      <ExperienceManager kind="WORK" title="Experience" />
+    </Await>
+  );
+}
@@ -0,0 +1,27 @@
+import { notFound } from "next/navigation";
+import { InboxManager } from "~/features/admin/components/InboxManager";
+import { Await } from "~/features/shared/components/Await";
+import { LoadingSpinner } from "~/features/shared/components/LoadingSpinner";
+import { SectionErrorBoundary } from "~/features/shared/components/SectionErrorBoundary";
+import { auth } from "~/server/auth";
+import { trpc } from "~/trpc/server";
+import { hasRole } from "~/types/user";
+
+export default async function AdminInboxPage() {
+  const session = await auth();
+
+  // Contact messages are private to the owner; editors don't get to see the page exists
+  if (!session?.user || !hasRole(session.user.role, "OWNER")) {
+    notFound();
+  }
+
+  return (
+    <Await
+      fallback={<LoadingSpinner />}
+      prefetch={[trpc.contact.list.queryOptions({ view: "INBOX", page: 1 })]}
+      ErrorBoundaryComponent={SectionErrorBoundary}
+    >
+      <InboxManager />
+    </Await>
+  );
+}
@@ -0,0 +1,35 @@
+import { AdminNoAccess } from "~/features/admin/components/AdminNoAccess";
+import { AdminSidebar } from "~/features/admin/components/AdminSidebar";
+import { AdminSignIn } from "~/features/admin/components/AdminSignIn";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "~/features/shared/components/ui/sidebar";
+import { auth } from "~/server/auth";
+import { hasRole } from "~/types/user";
+
+export const metadata = {
+  title: "vx.dev admin",
+  description: "Manage portfolio content",
+};
+
+export default async function AdminLayout({ children }: { children: React.ReactNode }) {
+  const session = await auth();
+
+  if (!session?.user) {
+    return <AdminSignIn />;
+  }
+
+  if (!hasRole(session.user.role, "EDITOR")) {
+    return <AdminNoAccess email={session.user.email} />;
+  }
+
+  return (
+    <SidebarProvider>
+      <AdminSidebar userName={session.user.name} role={session.user.role} />
+      <SidebarInset>
+        <header className="flex h-14 items-center gap-2 border-b border-accent/20 px-4">
+          <SidebarTrigger className="cursor-pointer" />
+        </header>
+        <div className="flex-1 p-4 md:p-6">{children}</div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+}
@@ -0,0 +1,17 @@
+import { ScreenManager } from "~/features/admin/components/ScreenManager";
+import { Await } from "~/features/shared/components/Await";
+import { LoadingSpinner } from "~/features/shared/components/LoadingSpinner";
+import { SectionErrorBoundary } from "~/features/shared/components/SectionErrorBoundary";
+import { trpc } from "~/trpc/server";
+
+export default function AdminScreenPage() {
+  return (
+    <Await
+      fallback={<LoadingSpinner />}
+      prefetch={[trpc.screen.playlist.queryOptions()]}
+      ErrorBoundaryComponent={SectionErrorBoundary}
+    >
+      <ScreenManager />
+    </Await>
+  );
+}
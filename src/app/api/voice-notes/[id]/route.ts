@@ -0,0 +1,68 @@
+import { injectProtectedServices } from "~/server/api/inject";
+import { auth } from "~/server/auth";
+import { hasRole } from "~/types/user";
+
+/** Parses a single `bytes=start-end` range, including open-ended and suffix forms; `null` when it can't be satisfied */
+function parseRange(header: string, size: number): { start: number; end: number } | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) return null;
+
+  // `bytes=-500` is the last 500 bytes
+  if (!match[1]) {
+    const length = Number(match[2]);
+    if (length === 0) return null;
+    return { start: Math.max(0, size - length), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  return start <= end ? { start, end } : null;
+}
+
+/**
+ * Streams a contact voice note's audio to the owner inbox's audio player.
+ * A plain route rather than tRPC so the browser can fetch it straight into an `<audio>` element.
+ * Answers byte-range requests, which Safari requires before it will play audio at all.
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+
+  // Private to the owner like the rest of the inbox; everyone else gets the same 404 as a missing note
+  if (!session?.user || !hasRole(session.user.role, "OWNER")) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const { id } = await params;
+  const { contactAdminService } = injectProtectedServices();
+  const voiceNote = await contactAdminService.voiceNoteAudio(id);
+  if (!voiceNote) return new Response("Not found", { status: 404 });
+
+  const { data, mimeType, size } = voiceNote;
+  const headers = {
+    // The type was supplied by the visitor's browser, so don't let anything sniff past it
+    "Content-Type": mimeType,
+    "X-Content-Type-Options": "nosniff",
+    "Accept-Ranges": "bytes",
+    "Cache-Control": "private, no-store",
+  };
+
+  const rangeHeader = req.headers.get("range");
+  if (!rangeHeader) {
+    return new Response(data, { headers: { ...headers, "Content-Length": String(size) } });
+  }
+
+  const range = parseRange(rangeHeader, size);
+  if (!range) {
+    return new Response(null, { status: 416, headers: { ...headers, "Content-Range": `bytes */${size}` } });
+  }
+
+  const { start, end } = range;
+  return new Response(data.subarray(start, end + 1), {
+    status: 206,
+    headers: {
+      ...headers,
+      "Content-Length": String(end - start + 1),
+      "Content-Range": `bytes ${start}-${end}/${size}`,
+    },
+  });
+}
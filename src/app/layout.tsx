@@ -5,9 +5,11 @@ import { Albert_Sans, Aleo, JetBrains_Mono } from "next/font/google";
 import { Toaster } from "sonner";
 import { ThemeProvider } from "next-themes";
 
+import { env } from "~/env";
 import { TRPCReactProvider } from "~/trpc/react";
 
 export const metadata: Metadata = {
+  metadataBase: new URL(env.SITE_URL),
   title: "vx.dev",
   description: "Vincent's 3D portfolio site 🍀",
   icons: [{ rel: "icon", url: "/logo.svg" }],
@@ -0,0 +1,13 @@
+/**
+ * Crawler rules - everything but the admin and API is public
+ * Used in: Next.js metadata routes (/robots.txt)
+ */
+import { type MetadataRoute } from "next";
+import { absoluteUrl } from "~/features/site/utils/structuredData";
+
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: { userAgent: "*", disallow: ["/admin", "/api"] },
+    sitemap: absoluteUrl("/sitemap.xml"),
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * Sitemap for the 3D site and the server-rendered portfolio pages
+ * Used in: Next.js metadata routes (/sitemap.xml)
+ */
+import { type MetadataRoute } from "next";
+import { PROJECT_PAGES, SITE_BASE_PATH, toSitePath, type ProjectPageKey } from "~/features/site/utils/siteSections";
+import { absoluteUrl } from "~/features/site/utils/structuredData";
+import { injectPublicServices } from "~/server/api/inject";
+
+// Projects are edited from the admin, so build the list per request rather than at build time
+export const dynamic = "force-dynamic";
+
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const { projectService } = injectPublicServices();
+  const projects = await projectService.list();
+  const pageKeys = Object.keys(PROJECT_PAGES) as ProjectPageKey[];
+
+  const projectEntries = projects.flatMap((project) => {
+    const page = pageKeys.find((key) => PROJECT_PAGES[key].section === project.section);
+    return page ? [{ url: absoluteUrl(toSitePath(page, project.slug)) }] : [];
+  });
+
+  return [
+    { url: absoluteUrl("/"), priority: 1 },
+    { url: absoluteUrl(SITE_BASE_PATH), priority: 0.9 },
+    ...pageKeys.map((page) => ({ url: absoluteUrl(toSitePath(page)), priority: 0.8 })),
+    { url: absoluteUrl(toSitePath("about")), priority: 0.8 },
+    { url: absoluteUrl(toSitePath("contact")), priority: 0.5 },
+    ...projectEntries,
+  ];
+}
@@ -15,6 +15,35 @@ export const env = createEnv({
     NODE_ENV: z
       .enum(["development", "test", "production"])
       .default("development"),
+    // Public origin used for canonical URLs, JSON-LD and the sitemap
+    SITE_URL: z.string().url().default("https://vincentxian.com"),
+    // Comma separated emails promoted to OWNER when they sign in
+    OWNER_EMAILS: z
+      .string()
+      .optional()
+      .transform((value) =>
+        (value ?? "")
+          .split(",")
+          .map((email) => email.trim().toLowerCase())
+          .filter(Boolean),
+      ),
+    // Header the proxy in front of the app sets to the caller IP, e.g. x-real-ip on Vercel
+    TRUSTED_IP_HEADER: z
+      .string()
+      .optional()
+      .transform((value) => value?.trim().toLowerCase()),
+    // Contact form delivery, see src/server/mail
+    MAIL_TRANSPORT: z
+      .enum(["smtp", "emailjs", "file", "console"])
+      .default("console"),
+    MAIL_TO: z.string().email().optional(),
+    MAIL_FROM: z.string().optional(),
+    MAIL_FILE_DIR: z.string().default(".mail"),
+    SMTP_URL: z.string().url().optional(),
+    EMAILJS_SERVICE_ID: z.string().optional(),
+    EMAILJS_TEMPLATE_ID: z.string().optional(),
+    EMAILJS_PUBLIC_KEY: z.string().optional(),
+    EMAILJS_PRIVATE_KEY: z.string().optional(),
   },
 
   /**
@@ -22,11 +51,7 @@ export const env = createEnv({
    * isn't built with invalid env vars. To expose them to the client, prefix them with
    * `NEXT_PUBLIC_`.
    */
-  client: {
-    NEXT_PUBLIC_EMAILJS_SERVICE_ID: z.string(),
-    NEXT_PUBLIC_EMAILJS_TEMPLATE_ID: z.string(),
-    NEXT_PUBLIC_EMAILJS_PUBLIC_KEY: z.string(),
-  },
+  client: {},
 
   /**
    * You can't destruct `process.env` as a regular object in the Next.js edge runtimes (e.g.
@@ -36,9 +61,18 @@ export const env = createEnv({
     // AUTH_SECRET: process.env.AUTH_SECRET,
     // DATABASE_URL: process.env.DATABASE_URL,
     NODE_ENV: process.env.NODE_ENV,
-    NEXT_PUBLIC_EMAILJS_SERVICE_ID: process.env.NEXT_PUBLIC_EMAILJS_SERVICE_ID,
-    NEXT_PUBLIC_EMAILJS_TEMPLATE_ID: process.env.NEXT_PUBLIC_EMAILJS_TEMPLATE_ID,
-    NEXT_PUBLIC_EMAILJS_PUBLIC_KEY: process.env.NEXT_PUBLIC_EMAILJS_PUBLIC_KEY,
+    SITE_URL: process.env.SITE_URL,
+    OWNER_EMAILS: process.env.OWNER_EMAILS,
+    TRUSTED_IP_HEADER: process.env.TRUSTED_IP_HEADER,
+    MAIL_TRANSPORT: process.env.MAIL_TRANSPORT,
+    MAIL_TO: process.env.MAIL_TO,
+    MAIL_FROM: process.env.MAIL_FROM,
+    MAIL_FILE_DIR: process.env.MAIL_FILE_DIR,
+    SMTP_URL: process.env.SMTP_URL,
+    EMAILJS_SERVICE_ID: process.env.EMAILJS_SERVICE_ID,
+    EMAILJS_TEMPLATE_ID: process.env.EMAILJS_TEMPLATE_ID,
+    EMAILJS_PUBLIC_KEY: process.env.EMAILJS_PUBLIC_KEY,
+    EMAILJS_PRIVATE_KEY: process.env.EMAILJS_PRIVATE_KEY,
   },
   /**
    * Run `build` or `dev` with `SKIP_ENV_VALIDATION` to skip env validation. This is especially
@@ -0,0 +1,39 @@
+/**
+ * Shown to signed-in users whose role doesn't allow editing portfolio content
+ * Used in: Admin layout
+ */
+import { ShieldX } from "lucide-react";
+import { Button } from "~/features/shared/components/ui/button";
+import { signOutOfAdmin } from "~/app/admin/actions";
+
+type AdminNoAccessProps = {
+  email?: string | null;
+};
+
+export function AdminNoAccess({ email }: AdminNoAccessProps) {
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center gap-4 bg-background">
+      <ShieldX className="size-8 text-destructive" />
+      <h1
+        className="text-2xl font-semibold"
+        style={{
+          color: "var(--foreground)",
+          fontFamily: "var(--font-mono)",
+          textShadow:
+            "2px 2px 0px color-mix(in srgb, var(--primary) 50%, transparent)",
+        }}
+      >
+        no access
+      </h1>
+      <p className="text-sm text-foreground/70 text-center max-w-sm">
+        {email ? `${email} doesn't` : "This account doesn't"} have editor access. Ask the site owner to
+        grant it, or sign in with a different account.
+      </p>
+      <form action={signOutOfAdmin}>
+        <Button type="submit" variant="outline" className="cursor-pointer">
+          Sign out
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+/**
+ * Reorder, edit and delete controls for a row in an admin content list
+ * Used in: ProjectManager and ExperienceManager
+ */
+"use client";
+
+import { ArrowDown, ArrowUp, Pencil, Trash2 } from "lucide-react";
+import { Button } from "~/features/shared/components/ui/button";
+
+type AdminRowActionsProps = {
+  label: string;
+  isFirst: boolean;
+  isLast: boolean;
+  disabled?: boolean;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+};
+
+export function AdminRowActions({ label, isFirst, isLast, disabled = false, onMoveUp, onMoveDown, onEdit, onDelete }: AdminRowActionsProps) {
+  return (
+    <div className="flex items-center gap-1 flex-shrink-0">
+      <Button variant="ghost" size="icon" onClick={onMoveUp} disabled={disabled || isFirst} className="cursor-pointer" aria-label={`Move ${label} up`}>
+        <ArrowUp />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={onMoveDown} disabled={disabled || isLast} className="cursor-pointer" aria-label={`Move ${label} down`}>
+        <ArrowDown />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={onEdit} disabled={disabled} className="cursor-pointer" aria-label={`Edit ${label}`}>
+        <Pencil />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={onDelete} disabled={disabled} className="cursor-pointer text-destructive" aria-label={`Delete ${label}`}>
+        <Trash2 />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+/**
+ * Navigation sidebar for the admin dashboard
+ * Used in: Admin layout
+ */
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { Briefcase, Code, House, Inbox, LogOut, Monitor, Palette, Users } from "lucide-react";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarRail,
+} from "~/features/shared/components/ui/sidebar";
+import { signOutOfAdmin } from "~/app/admin/actions";
+import { hasRole, type Role } from "~/types/user";
+
+/** Content sections managed from the dashboard */
+export const ADMIN_SECTIONS = [
+  { href: "/admin/projects", label: "Projects", icon: Code },
+  { href: "/admin/artworks", label: "Artworks", icon: Palette },
+  { href: "/admin/experience", label: "Experience", icon: Briefcase },
+  { href: "/admin/activities", label: "Activities", icon: Users },
+  { href: "/admin/screen", label: "Screen", icon: Monitor },
+] as const;
+
+/** Private sections only the site owner can open */
+export const OWNER_SECTIONS = [
+  { href: "/admin/inbox", label: "Inbox", icon: Inbox },
+] as const;
+
+type AdminSidebarProps = {
+  userName?: string | null;
+  role: Role;
+};
+
+export function AdminSidebar({ userName, role }: AdminSidebarProps) {
+  const pathname = usePathname();
+
+  return (
+    <Sidebar collapsible="icon">
+      <SidebarHeader>
+        <div className="px-2 py-1 text-xl font-semibold text-foreground group-data-[collapsible=icon]:hidden">
+          vx admin
+        </div>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Content</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {ADMIN_SECTIONS.map(({ href, label, icon: Icon }) => (
+                <SidebarMenuItem key={href}>
+                  <SidebarMenuButton asChild isActive={pathname.startsWith(href)} tooltip={label}>
+                    <Link href={href}>
+                      <Icon />
+                      <span>{label}</span>
+                    </Link>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+        {hasRole(role, "OWNER") && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Owner</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {OWNER_SECTIONS.map(({ href, label, icon: Icon }) => (
+                  <SidebarMenuItem key={href}>
+                    <SidebarMenuButton asChild isActive={pathname.startsWith(href)} tooltip={label}>
+                      <Link href={href}>
+                        <Icon />
+                        <span>{label}</span>
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+      </SidebarContent>
+      <SidebarFooter>
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <SidebarMenuButton asChild tooltip="Back to site">
+              <Link href="/">
+                <House />
+                <span>Back to site</span>
+              </Link>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+          <SidebarMenuItem>
+            <form action={signOutOfAdmin}>
+              <SidebarMenuButton type="submit" tooltip="Sign out" className="cursor-pointer">
+                <LogOut />
+                <span className="truncate">Sign out{userName ? ` (${userName})` : ""}</span>
+              </SidebarMenuButton>
+            </form>
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarFooter>
+      <SidebarRail />
+    </Sidebar>
+  );
+}
@@ -0,0 +1,32 @@
+/**
+ * Sign-in prompt shown when visiting the admin dashboard without a session
+ * Used in: Admin layout
+ */
+import { LockKeyhole } from "lucide-react";
+import { Button } from "~/features/shared/components/ui/button";
+import { signInToAdmin } from "~/app/admin/actions";
+
+export function AdminSignIn() {
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center gap-4 bg-background">
+      <LockKeyhole className="size-8 text-primary" />
+      <h1
+        className="text-2xl font-semibold"
+        style={{
+          color: "var(--foreground)",
+          fontFamily: "var(--font-mono)",
+          textShadow:
+            "2px 2px 0px color-mix(in srgb, var(--primary) 50%, transparent)",
+        }}
+      >
+        admin
+      </h1>
+      <p className="text-sm text-foreground/70">Sign in to manage portfolio content.</p>
+      <form action={signInToAdmin}>
+        <Button type="submit" className="cursor-pointer">
+          Sign in with Google
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+/**
+ * Create/edit form for an experience or activity card
+ * Used in: ExperienceManager
+ */
+"use client";
+
+import * as React from "react";
+import { Loader2 } from "lucide-react";
+import { Input } from "~/features/shared/components/ui/input";
+import { Textarea } from "~/features/shared/components/ui/textarea";
+import { Button } from "~/features/shared/components/ui/button";
+import { useMutationWithToast } from "~/features/shared/hooks/use-mutation-with-toast";
+import { useTRPC } from "~/trpc/react";
+import { ExperienceInputSchema, type Experience, type ExperienceInput, type ExperienceKind } from "~/types/experience";
+
+type FormErrors = Partial<Record<keyof ExperienceInput, string>>;
+
+type ExperienceFormProps = {
+  kind: ExperienceKind;
+  experience?: Experience;
+  onSaved: () => void;
+  onCancel: () => void;
+};
+
+/** Text fields rendered as simple labelled inputs */
+const TEXT_FIELDS = [
+  { name: "title", label: "Title", required: true },
+  { name: "role", label: "Role", required: true },
+  { name: "dates", label: "Dates", required: false },
+  { name: "image", label: "Logo path", required: true },
+  { name: "imageAlt", label: "Logo alt text", required: true },
+] as const;
+
+type TextFieldName = (typeof TEXT_FIELDS)[number]["name"];
+
+export function ExperienceForm({ kind, experience, onSaved, onCancel }: ExperienceFormProps) {
+  const trpc = useTRPC();
+  const [values, setValues] = React.useState<Record<TextFieldName | "description", string>>({
+    title: experience?.title ?? "",
+    role: experience?.role ?? "",
+    dates: experience?.dates ?? "",
+    image: experience?.image ?? "",
+    imageAlt: experience?.imageAlt ?? "",
+    description: experience?.description ?? "",
+  });
+  const [errors, setErrors] = React.useState<FormErrors>({});
+
+  const createMutation = useMutationWithToast({
+    ...trpc.experience.create.mutationOptions(),
+    successMessage: (created) => `Created "${created.title}"`,
+    errorMessage: (error) => error.message,
+    onSuccess: onSaved,
+  });
+  const updateMutation = useMutationWithToast({
+    ...trpc.experience.update.mutationOptions(),
+    successMessage: (updated) => `Saved "${updated.title}"`,
+    errorMessage: (error) => error.message,
+    onSuccess: onSaved,
+  });
+  const isSubmitting = createMutation.isPending || updateMutation.isPending;
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const result = ExperienceInputSchema.safeParse({
+      ...values,
+      kind,
+      dates: values.dates.trim() ? values.dates.trim() : undefined,
+    });
+
+    if (!result.success) {
+      const fieldErrors = result.error.flatten().fieldErrors;
+      setErrors(
+        Object.fromEntries(
+          Object.entries(fieldErrors).map(([field, messages]) => [field, messages?.[0]])
+        ) as FormErrors
+      );
+      return;
+    }
+
+    setErrors({});
+    if (experience) {
+      updateMutation.mutate({ id: experience.id, data: result.data });
+    } else {
+      createMutation.mutate(result.data);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 rounded border border-accent/30 p-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        {TEXT_FIELDS.map(({ name, label, required }) => (
+          <div key={name} className="space-y-1">
+            <label htmlFor={`experience-${name}`} className="text-sm font-medium text-foreground">
+              {label} {required && <span className="text-destructive">*</span>}
+            </label>
+            <Input
+              id={`experience-${name}`}
+              value={values[name]}
+              onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+              aria-invalid={errors[name] ? "true" : "false"}
+              disabled={isSubmitting}
+            />
+            {errors[name] && <p className="text-sm text-destructive">{errors[name]}</p>}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <label htmlFor="experience-description" className="text-sm font-medium text-foreground">
+          Description <span className="text-destructive">*</span>
+        </label>
+        <Textarea
+          id="experience-description"
+          value={values.description}
+          onChange={(e) => setValues({ ...values, description: e.target.value })}
+          aria-invalid={errors.description ? "true" : "false"}
+          disabled={isSubmitting}
+          rows={5}
+          className="resize-y min-h-[100px]"
+        />
+        {errors.description && <p className="text-sm text-destructive">{errors.description}</p>}
+      </div>
+
+      <div className="flex gap-2">
+        <Button type="submit" disabled={isSubmitting} className="cursor-pointer">
+          {isSubmitting ? (
+            <>
+              <Loader2 className="size-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            "Save"
+          )}
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting} className="cursor-pointer">
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * Admin list for experience or activity cards with create, edit, reorder and delete
+ * Used in: Admin experience and activities pages
+ */
+"use client";
+
+import * as React from "react";
+import Image from "next/image";
+import { useQueryClient, useSuspenseQuery } from "@tanstack/react-query";
+import { Plus } from "lucide-react";
+import { Button } from "~/features/shared/components/ui/button";
+import { useMutationWithToast } from "~/features/shared/hooks/use-mutation-with-toast";
+import { useTRPC } from "~/trpc/react";
+import { type ExperienceKind } from "~/types/experience";
+import { AdminRowActions } from "./AdminRowActions";
+import { ExperienceForm } from "./ExperienceForm";
+
+type ExperienceManagerProps = {
+  kind: ExperienceKind;
+  title: string;
+};
+
+export function ExperienceManager({ kind, title }: ExperienceManagerProps) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const { data: experiences } = useSuspenseQuery(trpc.experience.byKind.queryOptions({ kind }));
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [isCreating, setIsCreating] = React.useState(false);
+
+  const invalidate = React.useCallback(() => {
+    void queryClient.invalidateQueries({ queryKey: trpc.experience.byKind.queryKey({ kind }) });
+  }, [queryClient, trpc, kind]);
+
+  const deleteMutation = useMutationWithToast({
+    ...trpc.experience.delete.mutationOptions(),
+    successMessage: "Deleted",
+    errorMessage: (error) => error.message,
+    onSuccess: invalidate,
+  });
+  const reorderMutation = useMutationWithToast({
+    ...trpc.experience.reorder.mutationOptions(),
+    successMessage: "Order saved",
+    errorMessage: (error) => error.message,
+    onSuccess: invalidate,
+  });
+  const isBusy = deleteMutation.isPending || reorderMutation.isPending;
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const ids = experiences.map((experience) => experience.id);
+    const [moved] = ids.splice(index, 1);
+    if (!moved) return;
+    ids.splice(index + direction, 0, moved);
+    reorderMutation.mutate({ kind, ids });
+  };
+
+  const handleSaved = () => {
+    setEditingId(null);
+    setIsCreating(false);
+    invalidate();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold text-foreground">{title}</h1>
+        <Button onClick={() => setIsCreating(true)} disabled={isCreating} className="cursor-pointer">
+          <Plus /> New
+        </Button>
+      </div>
+
+      {isCreating && (
+        <ExperienceForm kind={kind} onSaved={handleSaved} onCancel={() => setIsCreating(false)} />
+      )}
+
+      {experiences.length === 0 && !isCreating && (
+        <p className="text-sm text-foreground/60">Nothing here yet.</p>
+      )}
+
+      <ul className="space-y-2">
+        {experiences.map((experience, index) => (
+          <li key={experience.id}>
+            {editingId === experience.id ? (
+              <ExperienceForm kind={kind} experience={experience} onSaved={handleSaved} onCancel={() => setEditingId(null)} />
+            ) : (
+              <div className="flex items-center gap-3 rounded p-3 transition-colors hover:bg-muted">
+                <Image
+                  src={experience.image}
+                  alt={experience.imageAlt}
+                  width={48}
+                  height={48}
+                  className="object-cover rounded w-12 h-12 flex-shrink-0"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold text-foreground truncate">{experience.title}</p>
+                  <p className="text-sm text-foreground/70 truncate">
+                    {experience.role}
+                    {experience.dates && <span className="text-foreground/50"> · {experience.dates}</span>}
+                  </p>
+                </div>
+                <AdminRowActions
+                  label={experience.title}
+                  isFirst={index === 0}
+                  isLast={index === experiences.length - 1}
+                  disabled={isBusy}
+                  onMoveUp={() => handleMove(index, -1)}
+                  onMoveDown={() => handleMove(index, 1)}
+                  onEdit={() => setEditingId(experience.id)}
+                  onDelete={() => {
+                    if (window.confirm(`Delete "${experience.title}"? This can't be undone.`)) {
+                      deleteMutation.mutate({ id: experience.id });
+                    }
+                  }}
+                />
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
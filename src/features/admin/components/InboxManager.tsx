@@ -0,0 +1,262 @@
+/**
+ * Owner inbox for stored contact messages with filtering, search, paging and CSV export
+ * Used in: Admin inbox page
+ */
+"use client";
+
+import * as React from "react";
+import { keepPreviousData, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Archive, ArchiveRestore, Download, Loader2, Mail, MailOpen, Mic, Reply, Search } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "~/features/shared/components/ui/badge";
+import { Button } from "~/features/shared/components/ui/button";
+import { Input } from "~/features/shared/components/ui/input";
+import { useMutationWithToast } from "~/features/shared/hooks/use-mutation-with-toast";
+import { cn } from "~/lib/utils";
+import { useTRPC } from "~/trpc/react";
+import { type ContactInboxView, type ContactMessage } from "~/types/contact";
+
+const VIEWS: { value: ContactInboxView; label: string }[] = [
+  { value: "INBOX", label: "Inbox" },
+  { value: "UNREAD", label: "Unread" },
+  { value: "ARCHIVED", label: "Archived" },
+];
+
+const dateFormat = new Intl.DateTimeFormat("en-AU", { dateStyle: "medium", timeStyle: "short" });
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+/** Opens the visitor's message in the owner's mail client with the original quoted */
+function toMailtoHref({ name, email, message }: ContactMessage): string {
+  const quoted = message
+    .slice(0, 1000)
+    .split("\n")
+    .map((line) => `> ${line}`)
+    .join("\n");
+  const subject = encodeURIComponent("Re: your message on vincentxian.com");
+  const body = encodeURIComponent(`Hi ${name},\n\n\n\n${quoted}`);
+  return `mailto:${email}?subject=${subject}&body=${body}`;
+}
+
+function downloadCsv(csv: string) {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `contact-messages-${new Date().toISOString().slice(0, 10)}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function InboxManager() {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const [view, setView] = React.useState<ContactInboxView>("INBOX");
+  const [searchInput, setSearchInput] = React.useState("");
+  const [search, setSearch] = React.useState<string>();
+  const [page, setPage] = React.useState(1);
+  const [expandedId, setExpandedId] = React.useState<string | null>(null);
+  const [isExporting, setIsExporting] = React.useState(false);
+
+  const { data, isFetching, isError } = useQuery({
+    ...trpc.contact.list.queryOptions({ view, page, search }),
+    placeholderData: keepPreviousData,
+  });
+
+  const statusMutation = useMutationWithToast({
+    ...trpc.contact.setStatus.mutationOptions(),
+    successMessage: (updated) =>
+      updated.status === "ARCHIVED" ? "Archived" : `Marked as ${updated.status.toLowerCase()}`,
+    errorMessage: (error) => error.message,
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: trpc.contact.list.pathKey() });
+    },
+  });
+
+  const changeView = (next: ContactInboxView) => {
+    setView(next);
+    setPage(1);
+    setExpandedId(null);
+  };
+
+  const handleSearch = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSearch(searchInput.trim() || undefined);
+    setPage(1);
+  };
+
+  const handleExpand = (message: ContactMessage) => {
+    const isOpening = expandedId !== message.id;
+    setExpandedId(isOpening ? message.id : null);
+    // Opening an unread message marks it read, like any mail client
+    if (isOpening && message.status === "UNREAD") {
+      statusMutation.mutate({ id: message.id, status: "READ" });
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const csv = await queryClient.fetchQuery(trpc.contact.exportCsv.queryOptions({ view, search }));
+      downloadCsv(csv);
+    } catch (error) {
+      console.error("CSV export error:", error);
+      toast.error("Couldn't export messages");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h1 className="text-2xl font-semibold text-foreground">
+          Inbox
+          {data && data.unread > 0 && <Badge className="ml-2 align-middle">{data.unread} unread</Badge>}
+        </h1>
+        <Button variant="outline" onClick={handleExport} disabled={isExporting} className="cursor-pointer">
+          {isExporting ? <Loader2 className="animate-spin" /> : <Download />} Export CSV
+        </Button>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-center gap-2">
+        <div className="flex gap-1" role="group" aria-label="Filter messages">
+          {VIEWS.map(({ value, label }) => (
+            <Button
+              key={value}
+              size="sm"
+              variant={view === value ? "default" : "ghost"}
+              onClick={() => changeView(value)}
+              aria-pressed={view === value}
+              className="cursor-pointer"
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+        <form onSubmit={handleSearch} className="flex flex-1 gap-2">
+          <Input
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search name, email or message"
+            aria-label="Search messages"
+          />
+          <Button type="submit" variant="outline" size="icon" className="cursor-pointer" aria-label="Search">
+            <Search />
+          </Button>
+        </form>
+      </div>
+
+      {isError && <p className="text-sm text-destructive">Couldn&apos;t load messages right now.</p>}
+
+      {data?.messages.length === 0 && (
+        <p className="text-sm text-foreground/60">{search ? "No messages match your search." : "Nothing here yet."}</p>
+      )}
+
+      <ul className={cn("space-y-2 transition-opacity", isFetching && "opacity-60")}>
+        {data?.messages.map((message) => {
+          const isExpanded = expandedId === message.id;
+          const isUnread = message.status === "UNREAD";
+          const isArchived = message.status === "ARCHIVED";
+
+          return (
+            <li key={message.id} className="rounded border border-accent/20">
+              <button
+                type="button"
+                onClick={() => handleExpand(message)}
+                aria-expanded={isExpanded}
+                className="flex w-full items-start gap-3 p-3 text-left transition-colors hover:bg-muted cursor-pointer"
+              >
+                {isUnread ? <Mail className="mt-0.5 size-4 text-primary flex-shrink-0" /> : <MailOpen className="mt-0.5 size-4 text-foreground/50 flex-shrink-0" />}
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-baseline gap-x-2">
+                    <span className={cn("text-foreground truncate", isUnread && "font-semibold")}>{message.name}</span>
+                    <span className="text-xs text-foreground/60 truncate">{message.email}</span>
+                    {message.voiceNote && <Mic className="size-3.5 self-center text-foreground/60" aria-label="Has a voice note" />}
+                  </div>
+                  {!isExpanded && (
+                    <p className="text-sm text-foreground/70 truncate">
+                      {message.message || (message.voiceNote && `Voice note, ${formatDuration(message.voiceNote.durationMs)}`)}
+                    </p>
+                  )}
+                </div>
+                <time
+                  dateTime={message.createdAt.toISOString()}
+                  className="text-xs text-foreground/60 flex-shrink-0"
+                  suppressHydrationWarning
+                >
+                  {dateFormat.format(message.createdAt)}
+                </time>
+              </button>
+
+              {isExpanded && (
+                <div className="space-y-3 border-t border-accent/20 p-3">
+                  {message.message && <p className="whitespace-pre-wrap text-sm text-foreground">{message.message}</p>}
+                  {message.voiceNote && (
+                    <div className="flex items-center gap-2">
+                      {/* Streamed from an owner-only route; nothing downloads until play is pressed */}
+                      <audio
+                        controls
+                        preload="none"
+                        src={`/api/voice-notes/${message.voiceNote.id}`}
+                        className="h-9 w-full max-w-md"
+                        aria-label={`Voice note from ${message.name}`}
+                      />
+                      <span className="text-xs tabular-nums text-foreground/60">{formatDuration(message.voiceNote.durationMs)}</span>
+                    </div>
+                  )}
+                  {!message.deliveredAt && (
+                    <p className="text-xs text-foreground/60">Email forwarding failed for this message; it was only stored here.</p>
+                  )}
+                  <div className="flex flex-wrap gap-2">
+                    <Button asChild size="sm" className="cursor-pointer">
+                      <a href={toMailtoHref(message)}>
+                        <Reply /> Reply
+                      </a>
+                    </Button>
+                    {!isArchived && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => statusMutation.mutate({ id: message.id, status: isUnread ? "READ" : "UNREAD" })}
+                        disabled={statusMutation.isPending}
+                        className="cursor-pointer"
+                      >
+                        {isUnread ? <MailOpen /> : <Mail />} Mark {isUnread ? "read" : "unread"}
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => statusMutation.mutate({ id: message.id, status: isArchived ? "READ" : "ARCHIVED" })}
+                      disabled={statusMutation.isPending}
+                      className="cursor-pointer"
+                    >
+                      {isArchived ? <ArchiveRestore /> : <Archive />} {isArchived ? "Move to inbox" : "Archive"}
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {data && data.pageCount > 1 && (
+        <div className="flex items-center justify-between">
+          <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1} className="cursor-pointer">
+            Previous
+          </Button>
+          <span className="text-sm text-foreground/70">
+            Page {data.page} of {data.pageCount} · {data.total} messages
+          </span>
+          <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= data.pageCount} className="cursor-pointer">
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+/**
+ * Create/edit form for a portfolio project or artwork
+ * Used in: ProjectManager
+ */
+"use client";
+
+import * as React from "react";
+import { Loader2, Plus, X } from "lucide-react";
+import { Input } from "~/features/shared/components/ui/input";
+import { Textarea } from "~/features/shared/components/ui/textarea";
+import { Button } from "~/features/shared/components/ui/button";
+import { useMutationWithToast } from "~/features/shared/hooks/use-mutation-with-toast";
+import { useTRPC } from "~/trpc/react";
+import { ProjectInputSchema, type Project, type ProjectInput, type ProjectSection } from "~/types/project";
+
+type FormErrors = Partial<Record<keyof ProjectInput, string>>;
+
+type ProjectFormProps = {
+  section: ProjectSection;
+  project?: Project;
+  onSaved: () => void;
+  onCancel: () => void;
+};
+
+/** Derives a URL slug from a title, e.g. "Whisker Isles" -> "whisker-isles" */
+function slugify(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+export function ProjectForm({ section, project, onSaved, onCancel }: ProjectFormProps) {
+  const trpc = useTRPC();
+  const [title, setTitle] = React.useState(project?.title ?? "");
+  const [slug, setSlug] = React.useState(project?.slug ?? "");
+  const [slugEdited, setSlugEdited] = React.useState(Boolean(project));
+  const [description, setDescription] = React.useState(project?.description ?? "");
+  const [technologies, setTechnologies] = React.useState(project?.technologies.join(", ") ?? "");
+  const [images, setImages] = React.useState(project?.images ?? []);
+  const [links, setLinks] = React.useState(project?.links ?? []);
+  const [errors, setErrors] = React.useState<FormErrors>({});
+
+  const createMutation = useMutationWithToast({
+    ...trpc.project.create.mutationOptions(),
+    successMessage: (created) => `Created "${created.title}"`,
+    errorMessage: (error) => error.message,
+    onSuccess: onSaved,
+  });
+  const updateMutation = useMutationWithToast({
+    ...trpc.project.update.mutationOptions(),
+    successMessage: (updated) => `Saved "${updated.title}"`,
+    errorMessage: (error) => error.message,
+    onSuccess: onSaved,
+  });
+  const isSubmitting = createMutation.isPending || updateMutation.isPending;
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const result = ProjectInputSchema.safeParse({
+      section,
+      slug,
+      title,
+      description,
+      technologies: technologies.split(",").map((tech) => tech.trim()).filter(Boolean),
+      images: images.map((image) => ({ ...image, caption: image.caption?.trim() ? image.caption : undefined })),
+      links,
+    });
+
+    if (!result.success) {
+      const fieldErrors = result.error.flatten().fieldErrors;
+      setErrors(
+        Object.fromEntries(
+          Object.entries(fieldErrors).map(([field, messages]) => [field, messages?.[0]])
+        ) as FormErrors
+      );
+      return;
+    }
+
+    setErrors({});
+    if (project) {
+      updateMutation.mutate({ id: project.id, data: result.data });
+    } else {
+      createMutation.mutate(result.data);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 rounded border border-accent/30 p-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-1">
+          <label htmlFor="project-title" className="text-sm font-medium text-foreground">
+            Title <span className="text-destructive">*</span>
+          </label>
+          <Input
+            id="project-title"
+            value={title}
+            onChange={(e) => {
+              setTitle(e.target.value);
+              if (!slugEdited) setSlug(slugify(e.target.value));
+            }}
+            aria-invalid={errors.title ? "true" : "false"}
+            disabled={isSubmitting}
+          />
+          {errors.title && <p className="text-sm text-destructive">{errors.title}</p>}
+        </div>
+
+        <div className="space-y-1">
+          <label htmlFor="project-slug" className="text-sm font-medium text-foreground">
+            Slug <span className="text-destructive">*</span>
+          </label>
+          <Input
+            id="project-slug"
+            value={slug}
+            onChange={(e) => {
+              setSlug(e.target.value);
+              setSlugEdited(true);
+            }}
+            aria-invalid={errors.slug ? "true" : "false"}
+            disabled={isSubmitting}
+            className="font-mono"
+          />
+          {errors.slug && <p className="text-sm text-destructive">{errors.slug}</p>}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <label htmlFor="project-description" className="text-sm font-medium text-foreground">
+          Description <span className="text-destructive">*</span>
+        </label>
+        <Textarea
+          id="project-description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          aria-invalid={errors.description ? "true" : "false"}
+          disabled={isSubmitting}
+          rows={5}
+          className="resize-y min-h-[100px]"
+        />
+        {errors.description && <p className="text-sm text-destructive">{errors.description}</p>}
+      </div>
+
+      <div className="space-y-1">
+        <label htmlFor="project-technologies" className="text-sm font-medium text-foreground">
+          Technologies (comma separated)
+        </label>
+        <Input
+          id="project-technologies"
+          value={technologies}
+          onChange={(e) => setTechnologies(e.target.value)}
+          disabled={isSubmitting}
+          placeholder="Unity, C#, Photoshop"
+        />
+      </div>
+
+      {/* Images */}
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium text-foreground">Images</legend>
+        {images.map((image, index) => (
+          <div key={index} className="flex flex-col md:flex-row gap-2">
+            <Input
+              value={image.src}
+              onChange={(e) => setImages(images.map((img, i) => (i === index ? { ...img, src: e.target.value } : img)))}
+              disabled={isSubmitting}
+              placeholder="/images/projects/example.webp"
+              aria-label={`Image ${index + 1} path`}
+            />
+            <Input
+              value={image.alt}
+              onChange={(e) => setImages(images.map((img, i) => (i === index ? { ...img, alt: e.target.value } : img)))}
+              disabled={isSubmitting}
+              placeholder="Alt text"
+              aria-label={`Image ${index + 1} alt text`}
+            />
+            <Input
+              value={image.caption ?? ""}
+              onChange={(e) => setImages(images.map((img, i) => (i === index ? { ...img, caption: e.target.value } : img)))}
+              disabled={isSubmitting}
+              placeholder="Caption (optional)"
+              aria-label={`Image ${index + 1} caption`}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => setImages(images.filter((_, i) => i !== index))}
+              disabled={isSubmitting}
+              className="cursor-pointer"
+              aria-label={`Remove image ${index + 1}`}
+            >
+              <X />
+            </Button>
+          </div>
+        ))}
+        {errors.images && <p className="text-sm text-destructive">Every image needs a path and alt text</p>}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setImages([...images, { src: "", alt: "" }])}
+          disabled={isSubmitting}
+          className="cursor-pointer"
+        >
+          <Plus /> Add image
+        </Button>
+      </fieldset>
+
+      {/* Links */}
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium text-foreground">Links</legend>
+        {links.map((link, index) => (
+          <div key={index} className="flex flex-col md:flex-row gap-2">
+            <Input
+              value={link.label}
+              onChange={(e) => setLinks(links.map((l, i) => (i === index ? { ...l, label: e.target.value } : l)))}
+              disabled={isSubmitting}
+              placeholder="Label"
+              aria-label={`Link ${index + 1} label`}
+            />
+            <Input
+              value={link.url}
+              onChange={(e) => setLinks(links.map((l, i) => (i === index ? { ...l, url: e.target.value } : l)))}
+              disabled={isSubmitting}
+              placeholder="https://"
+              aria-label={`Link ${index + 1} URL`}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => setLinks(links.filter((_, i) => i !== index))}
+              disabled={isSubmitting}
+              className="cursor-pointer"
+              aria-label={`Remove link ${index + 1}`}
+            >
+              <X />
+            </Button>
+          </div>
+        ))}
+        {errors.links && <p className="text-sm text-destructive">Every link needs a label and a valid URL</p>}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setLinks([...links, { label: "", url: "" }])}
+          disabled={isSubmitting}
+          className="cursor-pointer"
+        >
+          <Plus /> Add link
+        </Button>
+      </fieldset>
+
+      <div className="flex gap-2">
+        <Button type="submit" disabled={isSubmitting} className="cursor-pointer">
+          {isSubmitting ? (
+            <>
+              <Loader2 className="size-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            "Save"
+          )}
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting} className="cursor-pointer">
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
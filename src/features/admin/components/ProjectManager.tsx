@@ -0,0 +1,116 @@
+/**
+ * Admin list for one project section with create, edit, reorder and delete
+ * Used in: Admin projects and artworks pages
+ */
+"use client";
+
+import * as React from "react";
+import { useQueryClient, useSuspenseQuery } from "@tanstack/react-query";
+import { Plus } from "lucide-react";
+import { Badge } from "~/features/shared/components/ui/badge";
+import { Button } from "~/features/shared/components/ui/button";
+import { useMutationWithToast } from "~/features/shared/hooks/use-mutation-with-toast";
+import { useTRPC } from "~/trpc/react";
+import { type ProjectSection } from "~/types/project";
+import { AdminRowActions } from "./AdminRowActions";
+import { ProjectForm } from "./ProjectForm";
+
+type ProjectManagerProps = {
+  section: ProjectSection;
+  title: string;
+};
+
+export function ProjectManager({ section, title }: ProjectManagerProps) {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const { data: projects } = useSuspenseQuery(trpc.project.bySection.queryOptions({ section }));
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [isCreating, setIsCreating] = React.useState(false);
+
+  const invalidate = React.useCallback(() => {
+    void queryClient.invalidateQueries({ queryKey: trpc.project.bySection.queryKey({ section }) });
+  }, [queryClient, trpc, section]);
+
+  const deleteMutation = useMutationWithToast({
+    ...trpc.project.delete.mutationOptions(),
+    successMessage: "Deleted",
+    errorMessage: (error) => error.message,
+    onSuccess: invalidate,
+  });
+  const reorderMutation = useMutationWithToast({
+    ...trpc.project.reorder.mutationOptions(),
+    successMessage: "Order saved",
+    errorMessage: (error) => error.message,
+    onSuccess: invalidate,
+  });
+  const isBusy = deleteMutation.isPending || reorderMutation.isPending;
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const ids = projects.map((project) => project.id);
+    const [moved] = ids.splice(index, 1);
+    if (!moved) return;
+    ids.splice(index + direction, 0, moved);
+    reorderMutation.mutate({ section, ids });
+  };
+
+  const handleSaved = () => {
+    setEditingId(null);
+    setIsCreating(false);
+    invalidate();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold text-foreground">{title}</h1>
+        <Button onClick={() => setIsCreating(true)} disabled={isCreating} className="cursor-pointer">
+          <Plus /> New
+        </Button>
+      </div>
+
+      {isCreating && (
+        <ProjectForm section={section} onSaved={handleSaved} onCancel={() => setIsCreating(false)} />
+      )}
+
+      {projects.length === 0 && !isCreating && (
+        <p className="text-sm text-foreground/60">Nothing here yet.</p>
+      )}
+
+      <ul className="space-y-2">
+        {projects.map((project, index) => (
+          <li key={project.id}>
+            {editingId === project.id ? (
+              <ProjectForm section={section} project={project} onSaved={handleSaved} onCancel={() => setEditingId(null)} />
+            ) : (
+              <div className="flex items-center gap-3 rounded p-3 transition-colors hover:bg-muted">
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold text-foreground truncate">{project.title}</p>
+                  <p className="text-xs text-foreground/60 font-mono">/{project.slug} · {project.images.length} images</p>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {project.technologies.map((tech) => (
+                      <Badge key={tech} className="text-xs">{tech}</Badge>
+                    ))}
+                  </div>
+                </div>
+                <AdminRowActions
+                  label={project.title}
+                  isFirst={index === 0}
+                  isLast={index === projects.length - 1}
+                  disabled={isBusy}
+                  onMoveUp={() => handleMove(index, -1)}
+                  onMoveDown={() => handleMove(index, 1)}
+                  onEdit={() => setEditingId(project.id)}
+                  onDelete={() => {
+                    if (window.confirm(`Delete "${project.title}"? This can't be undone.`)) {
+                      deleteMutation.mutate({ id: project.id });
+                    }
+                  }}
+                />
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+/**
+ * Create/edit form for an item in the computer screen playlist
+ * Used in: ScreenManager
+ */
+"use client";
+
+import * as React from "react";
+import { Loader2 } from "lucide-react";
+import { Input } from "~/features/shared/components/ui/input";
+import { Button } from "~/features/shared/components/ui/button";
+import { useMutationWithToast } from "~/features/shared/hooks/use-mutation-with-toast";
+import { cn } from "~/lib/utils";
+import { useTRPC } from "~/trpc/react";
+import { ScreenItemInputSchema, type ScreenItem, type ScreenItemInput, type ScreenMediaKind } from "~/types/screen";
+
+type FormErrors = Partial<Record<keyof ScreenItemInput, string>>;
+
+type ScreenFormProps = {
+  item?: ScreenItem;
+  onSaved: () => void;
+  onCancel: () => void;
+};
+
+const KIND_OPTIONS: { value: ScreenMediaKind; label: string; hint: string }[] = [
+  { value: "VIDEO", label: "Video", hint: "MP4 or WebM, muted and looped" },
+  { value: "IMAGE", label: "Image", hint: "PNG, JPEG or WebP; animated WebP and GIF play where supported" },
+];
+
+/** Text fields rendered as simple labelled inputs */
+const TEXT_FIELDS = [
+  { name: "src", label: "Media path", required: true },
+  { name: "artist", label: "Artist", required: false },
+  { name: "artistUrl", label: "Artist URL", required: false },
+  { name: "license", label: "License", required: false },
+  { name: "durationSeconds", label: "Rotate after (seconds)", required: false },
+] as const;
+
+type TextFieldName = (typeof TEXT_FIELDS)[number]["name"];
+
+/** Blank optional fields are omitted rather than sent as empty strings */
+function optional(value: string): string | undefined {
+  return value.trim() ? value.trim() : undefined;
+}
+
+export function ScreenForm({ item, onSaved, onCancel }: ScreenFormProps) {
+  const trpc = useTRPC();
+  const [kind, setKind] = React.useState<ScreenMediaKind>(item?.kind ?? "VIDEO");
+  const [values, setValues] = React.useState<Record<TextFieldName, string>>({
+    src: item?.src ?? "",
+    artist: item?.artist ?? "",
+    artistUrl: item?.artistUrl ?? "",
+    license: item?.license ?? "",
+    durationSeconds: item?.durationSeconds?.toString() ?? "",
+  });
+  const [errors, setErrors] = React.useState<FormErrors>({});
+
+  const createMutation = useMutationWithToast({
+    ...trpc.screen.create.mutationOptions(),
+    successMessage: "Added to the playlist",
+    errorMessage: (error) => error.message,
+    onSuccess: onSaved,
+  });
+  const updateMutation = useMutationWithToast({
+    ...trpc.screen.update.mutationOptions(),
+    successMessage: "Saved",
+    errorMessage: (error) => error.message,
+    onSuccess: onSaved,
+  });
+  const isSubmitting = createMutation.isPending || updateMutation.isPending;
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const duration = optional(values.durationSeconds);
+    const result = ScreenItemInputSchema.safeParse({
+      kind,
+      src: values.src,
+      artist: optional(values.artist),
+      artistUrl: optional(values.artistUrl),
+      license: optional(values.license),
+      durationSeconds: duration === undefined ? undefined : Number(duration),
+    });
+
+    if (!result.success) {
+      const fieldErrors = result.error.flatten().fieldErrors;
+      setErrors(
+        Object.fromEntries(
+          Object.entries(fieldErrors).map(([field, messages]) => [field, messages?.[0]])
+        ) as FormErrors
+      );
+      return;
+    }
+
+    setErrors({});
+    if (item) {
+      updateMutation.mutate({ id: item.id, data: result.data });
+    } else {
+      createMutation.mutate(result.data);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 rounded border border-accent/30 p-4">
+      <div role="radiogroup" aria-label="Media type" className="flex flex-wrap gap-2">
+        {KIND_OPTIONS.map(({ value, label, hint }) => (
+          <button
+            key={value}
+            type="button"
+            role="radio"
+            aria-checked={kind === value}
+            onClick={() => setKind(value)}
+            disabled={isSubmitting}
+            className={cn(
+              "flex flex-col rounded border px-3 py-2 text-left transition-colors cursor-pointer",
+              kind === value ? "border-primary bg-primary/10" : "border-accent/30 hover:bg-accent/10"
+            )}
+          >
+            <span className="text-sm font-medium text-foreground">{label}</span>
+            <span className="text-xs text-foreground/60">{hint}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {TEXT_FIELDS.map(({ name, label, required }) => (
+          <div key={name} className="space-y-1">
+            <label htmlFor={`screen-${name}`} className="text-sm font-medium text-foreground">
+              {label} {required && <span className="text-destructive">*</span>}
+            </label>
+            <Input
+              id={`screen-${name}`}
+              type={name === "durationSeconds" ? "number" : "text"}
+              inputMode={name === "durationSeconds" ? "numeric" : undefined}
+              placeholder={name === "durationSeconds" ? "Wait for a click" : undefined}
+              value={values[name]}
+              onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+              aria-invalid={errors[name] ? "true" : "false"}
+              disabled={isSubmitting}
+            />
+            {errors[name] && <p className="text-sm text-destructive">{errors[name]}</p>}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <Button type="submit" disabled={isSubmitting} className="cursor-pointer">
+          {isSubmitting ? (
+            <>
+              <Loader2 className="size-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            "Save"
+          )}
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting} className="cursor-pointer">
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,123 @@
+/**
+ * Admin list for the computer screen playlist with create, edit, reorder and delete
+ * Used in: Admin screen page
+ */
+"use client";
+
+import * as React from "react";
+import { useQueryClient, useSuspenseQuery } from "@tanstack/react-query";
+import { Film, Image as ImageIcon, Plus, Timer } from "lucide-react";
+import { Button } from "~/features/shared/components/ui/button";
+import { useMutationWithToast } from "~/features/shared/hooks/use-mutation-with-toast";
+import { useTRPC } from "~/trpc/react";
+import { AdminRowActions } from "./AdminRowActions";
+import { ScreenForm } from "./ScreenForm";
+
+/** The file name is the most recognisable label for a media path */
+function mediaName(src: string): string {
+  return decodeURIComponent(src.split("/").pop() ?? src);
+}
+
+export function ScreenManager() {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const { data: items } = useSuspenseQuery(trpc.screen.playlist.queryOptions());
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [isCreating, setIsCreating] = React.useState(false);
+
+  const invalidate = React.useCallback(() => {
+    void queryClient.invalidateQueries({ queryKey: trpc.screen.playlist.queryKey() });
+  }, [queryClient, trpc]);
+
+  const deleteMutation = useMutationWithToast({
+    ...trpc.screen.delete.mutationOptions(),
+    successMessage: "Deleted",
+    errorMessage: (error) => error.message,
+    onSuccess: invalidate,
+  });
+  const reorderMutation = useMutationWithToast({
+    ...trpc.screen.reorder.mutationOptions(),
+    successMessage: "Order saved",
+    errorMessage: (error) => error.message,
+    onSuccess: invalidate,
+  });
+  const isBusy = deleteMutation.isPending || reorderMutation.isPending;
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const ids = items.map((item) => item.id);
+    const [moved] = ids.splice(index, 1);
+    if (!moved) return;
+    ids.splice(index + direction, 0, moved);
+    reorderMutation.mutate({ ids });
+  };
+
+  const handleSaved = () => {
+    setEditingId(null);
+    setIsCreating(false);
+    invalidate();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-foreground">Screen</h1>
+          <p className="text-sm text-foreground/60">What plays on the computer in the 3D scene, in order. Visitors click the screen to skip ahead.</p>
+        </div>
+        <Button onClick={() => setIsCreating(true)} disabled={isCreating} className="cursor-pointer">
+          <Plus /> New
+        </Button>
+      </div>
+
+      {isCreating && <ScreenForm onSaved={handleSaved} onCancel={() => setIsCreating(false)} />}
+
+      {items.length === 0 && !isCreating && (
+        <p className="text-sm text-foreground/60">The screen is blank until you add something.</p>
+      )}
+
+      <ul className="space-y-2">
+        {items.map((item, index) => {
+          const name = mediaName(item.src);
+          const KindIcon = item.kind === "VIDEO" ? Film : ImageIcon;
+          return (
+            <li key={item.id}>
+              {editingId === item.id ? (
+                <ScreenForm item={item} onSaved={handleSaved} onCancel={() => setEditingId(null)} />
+              ) : (
+                <div className="flex items-center gap-3 rounded p-3 transition-colors hover:bg-muted">
+                  <KindIcon className="size-5 flex-shrink-0 text-foreground/60" aria-label={item.kind === "VIDEO" ? "Video" : "Image"} />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold text-foreground truncate">{name}</p>
+                    <p className="text-sm text-foreground/70 truncate">
+                      {item.artist ? `by ${item.artist}` : "No credit"}
+                      {item.license && <span className="text-foreground/50"> · {item.license}</span>}
+                    </p>
+                  </div>
+                  {item.durationSeconds !== undefined && (
+                    <span className="flex items-center gap-1 text-xs text-foreground/60">
+                      <Timer className="size-3" /> {item.durationSeconds}s
+                    </span>
+                  )}
+                  <AdminRowActions
+                    label={name}
+                    isFirst={index === 0}
+                    isLast={index === items.length - 1}
+                    disabled={isBusy}
+                    onMoveUp={() => handleMove(index, -1)}
+                    onMoveDown={() => handleMove(index, 1)}
+                    onEdit={() => setEditingId(item.id)}
+                    onDelete={() => {
+                      if (window.confirm(`Remove "${name}" from the screen? This can't be undone.`)) {
+                        deleteMutation.mutate({ id: item.id });
+                      }
+                    }}
+                  />
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+/**
+ * Tweens the camera and OrbitControls target between named viewpoints, and runs the intro zoom and guided tour
+ * Used in: PortfolioScene inside the Canvas
+ */
+"use client";
+
+import * as React from "react";
+import { useFrame, useThree } from "@react-three/fiber";
+import * as THREE from "three";
+import { useCameraDirector } from "../hooks/useCameraDirector";
+import {
+  CAMERA_VIEWPOINTS,
+  registerDirector,
+  takeFlightRequest,
+  TOUR_HOLD_MS,
+  TOUR_STOPS,
+  type Viewpoint,
+} from "../utils/cameraDirector";
+
+/** World units per second for viewpoint flights, clamped to the durations below */
+const FLIGHT_SPEED = 6;
+const MIN_FLIGHT_SECONDS = 0.8;
+const MAX_FLIGHT_SECONDS = 2.2;
+
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
+
+type Tween = {
+  to: Viewpoint;
+  /** Captured on the tween's first frame; capturing earlier makes the camera jitter */
+  from: { position: THREE.Vector3; target: THREE.Vector3 } | null;
+  /** Seconds; null works it out from the flight distance on the first frame */
+  duration: number | null;
+  progress: number;
+  ease: (t: number) => number;
+  /** The intro can't be cut short by dragging */
+  interruptible: boolean;
+  settle: (arrived: boolean) => void;
+};
+
+type CameraDirectorProps = {
+  /** Starts the intro zoom from the loader's far-away camera to the overview */
+  introStart: boolean;
+  introSpeed?: number;
+  onIntroComplete?: () => void;
+  /** Cut straight to each viewpoint instead of flying, for visitors who prefer reduced motion */
+  reducedMotion?: boolean;
+};
+
+export function CameraDirector({ introStart, introSpeed = 0.8, onIntroComplete, reducedMotion = false }: CameraDirectorProps) {
+  const { camera, controls, gl } = useThree();
+  const { tourStop, flyTo, stopTour, stepTour } = useCameraDirector();
+  const tweenRef = React.useRef<Tween | null>(null);
+  const introStartedRef = React.useRef(false);
+
+  React.useEffect(() => registerDirector(), []);
+
+  /** Dragging or zooming takes the camera back from any flight or tour */
+  React.useEffect(() => {
+    const canvas = gl.domElement;
+    const handleUserInput = () => {
+      const tween = tweenRef.current;
+      if (!tween?.interruptible) return;
+      tweenRef.current = null;
+      tween.settle(false);
+    };
+    canvas.addEventListener("pointerdown", handleUserInput);
+    canvas.addEventListener("wheel", handleUserInput, { passive: true });
+    return () => {
+      canvas.removeEventListener("pointerdown", handleUserInput);
+      canvas.removeEventListener("wheel", handleUserInput);
+    };
+  }, [gl]);
+
+  React.useEffect(() => {
+    if (!introStart || introStartedRef.current) return;
+    introStartedRef.current = true;
+    tweenRef.current = {
+      to: CAMERA_VIEWPOINTS.overview,
+      from: null,
+      duration: reducedMotion ? 0 : 1 / introSpeed,
+      progress: 0,
+      ease: easeOutCubic,
+      interruptible: false,
+      settle: () => onIntroComplete?.(),
+    };
+  }, [introStart, introSpeed, onIntroComplete, reducedMotion]);
+
+  /** Fly to each tour stop, rest there, then move on; an interrupted flight ends the tour */
+  React.useEffect(() => {
+    const stop = tourStop === null ? undefined : TOUR_STOPS[tourStop];
+    if (!stop) return;
+
+    let cancelled = false;
+    let holdTimer: ReturnType<typeof setTimeout> | null = null;
+    void flyTo(stop.viewpoint).then((arrived) => {
+      if (cancelled) return;
+      if (!arrived) {
+        stopTour();
+        return;
+      }
+      holdTimer = setTimeout(() => stepTour(1), TOUR_HOLD_MS);
+    });
+
+    return () => {
+      cancelled = true;
+      if (holdTimer) clearTimeout(holdTimer);
+    };
+  }, [tourStop, flyTo, stopTour, stepTour]);
+
+  useFrame((_, delta) => {
+    const request = takeFlightRequest();
+    if (request) {
+      // The intro always finishes first; a flight queued during it waits
+      if (tweenRef.current && !tweenRef.current.interruptible) {
+        request.settle(false);
+      } else {
+        tweenRef.current?.settle(false);
+        tweenRef.current = {
+          to: CAMERA_VIEWPOINTS[request.viewpoint],
+          from: null,
+          duration: reducedMotion ? 0 : null,
+          progress: 0,
+          ease: easeInOutCubic,
+          interruptible: true,
+          settle: request.settle,
+        };
+      }
+    }
+
+    const tween = tweenRef.current;
+    if (!tween) return;
+
+    const target = controls && "target" in controls ? (controls as { target: THREE.Vector3 }).target : null;
+    const toPosition = new THREE.Vector3(...tween.to.position);
+    const toTarget = new THREE.Vector3(...tween.to.target);
+
+    tween.from ??= { position: camera.position.clone(), target: target?.clone() ?? toTarget.clone() };
+    tween.duration ??= THREE.MathUtils.clamp(
+      Math.max(tween.from.position.distanceTo(toPosition), tween.from.target.distanceTo(toTarget)) / FLIGHT_SPEED,
+      MIN_FLIGHT_SECONDS,
+      MAX_FLIGHT_SECONDS
+    );
+
+    tween.progress = tween.duration > 0 ? Math.min(1, tween.progress + delta / tween.duration) : 1;
+    const t = tween.ease(tween.progress);
+    camera.position.lerpVectors(tween.from.position, toPosition, t);
+    target?.lerpVectors(tween.from.target, toTarget, t);
+
+    if (tween.progress >= 1) {
+      tweenRef.current = null;
+      tween.settle(true);
+    }
+  });
+
+  return null;
+}
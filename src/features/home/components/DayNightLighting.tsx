@@ -0,0 +1,60 @@
+/**
+ * Sun/moon, fill and ambient lights plus background and fog for the current time of day
+ * Used in: PortfolioScene's SceneContent
+ */
+"use client";
+
+import * as React from "react";
+import { useThree } from "@react-three/fiber";
+import * as THREE from "three";
+import { type SkySample } from "../utils/timeOfDay";
+
+type DayNightLightingProps = {
+  sky: SkySample;
+  castShadows: boolean;
+  shadowMapSize: number;
+  fog: boolean;
+};
+
+/** Half-width of the key light's shadow camera; the sun moves, so it covers the whole island from any angle */
+const SHADOW_EXTENT = 12;
+
+export function DayNightLighting({ sky, castShadows, shadowMapSize, fog }: DayNightLightingProps) {
+  const { scene } = useThree();
+
+  /** Blend background and fog in place so scrubbing doesn't allocate a new fog every frame */
+  React.useEffect(() => {
+    scene.background = sky.background;
+    if (!fog) {
+      scene.fog = null;
+    } else if (scene.fog instanceof THREE.FogExp2) {
+      scene.fog.color.copy(sky.background);
+      scene.fog.density = sky.fogDensity;
+    } else {
+      scene.fog = new THREE.FogExp2(sky.background.getHex(), sky.fogDensity);
+    }
+  }, [scene, sky, fog]);
+
+  return (
+    <>
+      <ambientLight intensity={sky.ambientIntensity} />
+      {/* Sun by day, moon by night */}
+      <directionalLight
+        position={sky.keyLightPosition}
+        color={sky.keyLightColor}
+        intensity={sky.keyLightIntensity}
+        castShadow={castShadows}
+        shadow-mapSize-width={shadowMapSize}
+        shadow-mapSize-height={shadowMapSize}
+        shadow-camera-far={40}
+        shadow-camera-left={-SHADOW_EXTENT}
+        shadow-camera-right={SHADOW_EXTENT}
+        shadow-camera-top={SHADOW_EXTENT}
+        shadow-camera-bottom={-SHADOW_EXTENT}
+        shadow-bias={-0.001}
+        shadow-normalBias={0.03}
+      />
+      <directionalLight position={[2, 5, -5]} color={sky.keyLightColor} intensity={sky.fillLightIntensity} castShadow={false} />
+    </>
+  );
+}
@@ -0,0 +1,241 @@
+/**
+ * Floating project cards over an open cabinet drawer
+ * Used in: PortfolioScene's SceneContent while the software or arts drawer is open
+ *
+ * The cards are ordinary interactive meshes with hitbox metadata, so hover, click, keyboard focus, touch
+ * previews and the screen reader mirror all treat them like any other object in the scene.
+ */
+"use client";
+
+import * as React from "react";
+import * as THREE from "three";
+import gsap from "gsap";
+import { storeOriginalColors } from "../utils/materialUtils";
+import { createPreviewCard, PREVIEW_CARD_ASPECT, type PreviewCard } from "../utils/previewCards";
+import {
+  DEFAULT_SOUNDS,
+  type HitboxMetadata,
+  type InteractionEntry,
+  type PortfolioSection,
+} from "../utils/sceneInteractions";
+import { getTerminalState } from "../utils/terminal";
+import { type Project } from "~/types/project";
+
+const MAX_PREVIEWS = 6;
+const MAX_COLUMNS = 4;
+const CARD_WIDTH = 0.5;
+const CARD_HEIGHT = CARD_WIDTH / PREVIEW_CARD_ASPECT;
+const CARD_GAP = 0.08;
+/** World units above the open drawer and out past its middle that the bottom row floats at */
+const FLOAT_HEIGHT = 0.35;
+const FLOAT_OUT = 0.5;
+const OPEN_SECONDS = 0.35;
+const CLOSE_SECONDS = 0.25;
+
+type DrawerPreviewsProps = {
+  /** The open drawer, or null when every drawer is shut */
+  drawer: THREE.Mesh | null;
+  section: PortfolioSection | null;
+  /** The section's projects, in catalog order */
+  projects: Project[];
+  /** Where the projects query is; cards stand in for the list until it succeeds */
+  projectsStatus: "pending" | "error" | "success";
+  /** Whether Escape may close the drawer; off while a modal has the keyboard */
+  interactive: boolean;
+  reducedMotion: boolean;
+  onMeshesChange: (meshes: THREE.Mesh[]) => void;
+  onAnnounce: (message: string) => void;
+  onClose: () => void;
+};
+
+type CardSpec = {
+  key: string;
+  title: string;
+  imageSrc?: string;
+  entry: InteractionEntry;
+};
+
+function getMetadata(mesh: THREE.Object3D): HitboxMetadata | undefined {
+  return mesh.userData.metadata as HitboxMetadata | undefined;
+}
+
+/** Position of the drawer's slide-out, or its resting position if it doesn't slide */
+function openPosition(metadata: HitboxMetadata): THREE.Vector3 {
+  const { hover } = metadata.entry;
+  const open = metadata.initialPosition.clone();
+  return hover.type === "slide" ? open.add(new THREE.Vector3(...hover.offset)) : open;
+}
+
+function isEditable(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+}
+
+/** A card that only shows a message, for when there are no projects to preview */
+function noticeCard(key: string, title: string): CardSpec {
+  return { key, title, entry: { label: title, hover: { type: "pop" }, sounds: { hover: null, click: null }, accent: false } };
+}
+
+/** Cards standing in for the project list while it can't be shown */
+const STATUS_CARDS: Record<"pending" | "error" | "empty", CardSpec> = {
+  pending: noticeCard("loading", "Loading projects…"),
+  error: noticeCard("error", "Couldn't load projects"),
+  empty: noticeCard("empty", "No projects yet"),
+};
+
+/**
+ * One card per project up to the limit, or a notice while they can't be shown, then a card that opens the
+ * whole section. The section card is always there so the modal stays reachable from the drawer.
+ */
+function toCardSpecs(section: PortfolioSection, projects: Project[], status: DrawerPreviewsProps["projectsStatus"]): CardSpec[] {
+  const cards: CardSpec[] = projects.slice(0, MAX_PREVIEWS).map((project) => ({
+    key: project.slug,
+    title: project.title,
+    imageSrc: project.images[0]?.src,
+    entry: {
+      label: project.title,
+      hover: { type: "pop" },
+      click: { type: "openProject", section, slug: project.slug },
+      sounds: DEFAULT_SOUNDS,
+      accent: false,
+    },
+  }));
+
+  if (status !== "success") cards.push(STATUS_CARDS[status]);
+  else if (projects.length === 0) cards.push(STATUS_CARDS.empty);
+
+  cards.push({
+    key: "all",
+    title: projects.length > 0 ? `View all ${projects.length} →` : "View all →",
+    entry: {
+      label: `All ${section} projects`,
+      hover: { type: "pop" },
+      click: { type: "openSection", section },
+      sounds: DEFAULT_SOUNDS,
+      accent: false,
+    },
+  });
+  return cards;
+}
+
+/** Places the card grid above the open drawer, facing out the way the drawer slides */
+function placeGrid(grid: THREE.Group, drawer: THREE.Mesh, metadata: HitboxMetadata) {
+  const toWorld = (local: THREE.Vector3) => (drawer.parent ? drawer.parent.localToWorld(local.clone()) : local.clone());
+  const open = toWorld(openPosition(metadata));
+
+  // The drawer may be anywhere between shut and open right now, so shift its current bounds to the open position
+  const openBounds = new THREE.Box3().setFromObject(drawer).translate(open.clone().sub(toWorld(drawer.position)));
+  const outward = open.clone().sub(toWorld(metadata.initialPosition)).setY(0);
+  if (outward.lengthSq() === 0) outward.set(0, 0, 1);
+  outward.normalize();
+
+  grid.position.copy(openBounds.getCenter(new THREE.Vector3())).addScaledVector(outward, FLOAT_OUT);
+  grid.position.y = openBounds.max.y + FLOAT_HEIGHT;
+  grid.lookAt(grid.position.clone().add(outward));
+}
+
+export function DrawerPreviews({ drawer, section, projects, projectsStatus, interactive, reducedMotion, onMeshesChange, onAnnounce, onClose }: DrawerPreviewsProps) {
+  const [grid, setGrid] = React.useState<THREE.Group | null>(null);
+
+  /** Hold the drawer open while it's showing previews; the hover slide leaves it alone until then */
+  React.useEffect(() => {
+    const metadata = drawer && getMetadata(drawer);
+    if (!drawer || !metadata) return;
+
+    metadata.heldOpen = true;
+    const open = openPosition(metadata);
+    gsap.killTweensOf(drawer.position);
+    gsap.to(drawer.position, { x: open.x, y: open.y, z: open.z, duration: reducedMotion ? 0 : OPEN_SECONDS, ease: "power2.out" });
+
+    return () => {
+      metadata.heldOpen = false;
+      const { x, y, z } = metadata.initialPosition;
+      gsap.killTweensOf(drawer.position);
+      gsap.to(drawer.position, { x, y, z, duration: reducedMotion ? 0 : CLOSE_SECONDS, ease: "power2.out" });
+    };
+  }, [drawer, reducedMotion]);
+
+  /** Build the cards, rebuilding once the section's projects are in */
+  React.useEffect(() => {
+    const metadata = drawer && getMetadata(drawer);
+    if (!drawer || !metadata || !section) return;
+
+    const specs = toCardSpecs(section, projects, projectsStatus);
+    const columns = Math.min(MAX_COLUMNS, specs.length);
+    const nextGrid = new THREE.Group();
+    const geometry = new THREE.PlaneGeometry(CARD_WIDTH, CARD_HEIGHT);
+    const cards: PreviewCard[] = [];
+    const meshes: THREE.Mesh[] = [];
+    const wrappers: THREE.Group[] = [];
+
+    specs.forEach((spec, index) => {
+      const column = index % columns;
+      const row = Math.floor(index / columns);
+      const card = createPreviewCard(spec.title, spec.imageSrc);
+      const material = new THREE.MeshBasicMaterial({ map: card.texture, side: THREE.DoubleSide, toneMapped: false });
+      const mesh = new THREE.Mesh(geometry, material);
+      mesh.name = `drawer_preview_${spec.key}`;
+
+      // Cards are wrapped so the pop hover scales each one about its own center
+      const wrapper = new THREE.Group();
+      wrapper.position.set((column - (columns - 1) / 2) * (CARD_WIDTH + CARD_GAP), row * (CARD_HEIGHT + CARD_GAP), 0);
+      wrapper.add(mesh);
+      nextGrid.add(wrapper);
+
+      const cardMetadata: HitboxMetadata = {
+        originalObject: mesh,
+        interactionType: spec.entry.click ? "clickable" : "hoverable",
+        entry: spec.entry,
+        initialScale: mesh.scale.clone(),
+        initialPosition: mesh.position.clone(),
+      };
+      mesh.userData.metadata = cardMetadata;
+      storeOriginalColors(mesh);
+
+      cards.push(card);
+      meshes.push(mesh);
+      wrappers.push(wrapper);
+    });
+
+    placeGrid(nextGrid, drawer, metadata);
+    if (!reducedMotion) {
+      gsap.from(
+        wrappers.map((wrapper) => wrapper.scale),
+        { x: 0.001, y: 0.001, z: 0.001, duration: 0.3, stagger: 0.05, delay: OPEN_SECONDS / 2, ease: "back.out(1.7)" }
+      );
+    }
+
+    setGrid(nextGrid);
+    onMeshesChange(meshes);
+    const drawerLabel = metadata.entry.label ?? "Drawer";
+    const shown = Math.min(projects.length, MAX_PREVIEWS);
+    const contents = {
+      pending: "loading projects",
+      error: "projects unavailable",
+      success: `${shown} of ${projects.length} ${section} projects`,
+    }[projectsStatus];
+    onAnnounce(`${drawerLabel} open with ${contents}. Escape closes it.`);
+
+    return () => {
+      gsap.killTweensOf(wrappers.map((wrapper) => wrapper.scale));
+      meshes.forEach((mesh) => gsap.killTweensOf([mesh.scale, mesh.position]));
+      setGrid(null);
+      onMeshesChange([]);
+      cards.forEach((card) => card.dispose());
+      meshes.forEach((mesh) => (mesh.material as THREE.Material).dispose());
+      geometry.dispose();
+    };
+  }, [drawer, section, projects, projectsStatus, reducedMotion, onMeshesChange, onAnnounce]);
+
+  React.useEffect(() => {
+    if (!drawer || !interactive) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Escape in a form field or the terminal belongs to that input, not the drawer
+      if (e.key !== "Escape" || isEditable(e.target) || getTerminalState().focused) return;
+      onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [drawer, interactive, onClose]);
+
+  return grid ? <primitive object={grid} /> : null;
+}
@@ -0,0 +1,160 @@
+/**
+ * Navbar popover for choosing the graphics quality tier, the scene's time of day, weather and camera behaviour
+ * Used in: Navbar
+ */
+"use client";
+
+import * as React from "react";
+import { Settings } from "lucide-react";
+import { Button } from "~/features/shared/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "~/features/shared/components/ui/popover";
+import { cn } from "~/lib/utils";
+import { playSound } from "~/lib/sounds";
+import { useQualitySettings } from "../hooks/useQualitySettings";
+import { useCameraDirector } from "../hooks/useCameraDirector";
+import { useTimeOfDay } from "../hooks/useTimeOfDay";
+import { useWeather } from "../hooks/useWeather";
+import { QUALITY_LABELS, type QualitySetting } from "../utils/qualityTiers";
+import { formatHour } from "../utils/timeOfDay";
+import { WEATHER_LABELS, WEATHER_STATES, type WeatherSetting } from "../utils/weather";
+
+const WEATHER_OPTIONS: WeatherSetting[] = ["auto", ...WEATHER_STATES];
+
+const OPTIONS: { value: QualitySetting; hint: string }[] = [
+  { value: "auto", hint: "Adjusts to your device" },
+  { value: "low", hint: "No shadows, less grass" },
+  { value: "medium", hint: "Balanced" },
+  { value: "high", hint: "Full shadows and grass" },
+];
+
+export function GraphicsSettings() {
+  const { setting, tier, setSetting } = useQualitySettings();
+  const timeOfDay = useTimeOfDay();
+  const weather = useWeather();
+  const { flyToSections, setFlyToSections } = useCameraDirector();
+  const [mounted, setMounted] = React.useState(false);
+
+  // The saved tier is only known on the client
+  React.useEffect(() => setMounted(true), []);
+
+  if (!mounted) return <div className="w-9 h-9" />;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => playSound("click")}
+          className="hover:bg-accent/10 cursor-pointer"
+          aria-label="Graphics settings"
+        >
+          <Settings className="h-5 w-5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 space-y-3">
+        <div>
+          <p className="text-sm font-semibold text-foreground">Graphics quality</p>
+          {setting === "auto" && (
+            <p className="text-xs text-foreground/60">Currently running at {QUALITY_LABELS[tier]}</p>
+          )}
+        </div>
+        <div role="radiogroup" aria-label="Graphics quality" className="grid gap-1">
+          {OPTIONS.map(({ value, hint }) => (
+            <button
+              key={value}
+              type="button"
+              role="radio"
+              aria-checked={setting === value}
+              onClick={() => { playSound("click"); setSetting(value); }}
+              className={cn(
+                "flex items-baseline justify-between gap-2 rounded px-2 py-1.5 text-left text-sm transition-colors cursor-pointer",
+                setting === value ? "bg-primary/10 text-foreground" : "text-foreground/80 hover:bg-accent/10"
+              )}
+            >
+              <span className="font-medium">{QUALITY_LABELS[value]}</span>
+              <span className="text-xs text-foreground/60">{hint}</span>
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-foreground/50">Antialiasing changes apply after a reload.</p>
+
+        <div className="space-y-2 border-t border-accent/20 pt-3">
+          <div className="flex items-baseline justify-between">
+            <label htmlFor="time-of-day" className="text-sm font-semibold text-foreground">Time of day</label>
+            <span className="text-xs font-mono text-foreground/70">{formatHour(timeOfDay.hour)}</span>
+          </div>
+          <input
+            id="time-of-day"
+            type="range"
+            min={0}
+            max={24}
+            step={0.25}
+            value={timeOfDay.hour}
+            onChange={(e) => timeOfDay.setManualHour(Number(e.target.value))}
+            aria-valuetext={formatHour(timeOfDay.hour)}
+            className="w-full accent-primary cursor-pointer"
+          />
+          <label className="flex items-center gap-2 text-sm text-foreground/80 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={timeOfDay.mode === "live"}
+              onChange={(e) => timeOfDay.setMode(e.target.checked ? "live" : "manual")}
+              className="accent-primary"
+            />
+            Follow my clock
+          </label>
+          <label className="flex items-center gap-2 text-sm text-foreground/80 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={timeOfDay.syncTheme}
+              onChange={(e) => timeOfDay.setThemeSync(e.target.checked)}
+              className="accent-primary"
+            />
+            Switch theme at dawn and dusk
+          </label>
+        </div>
+
+        <div className="space-y-2 border-t border-accent/20 pt-3">
+          <div className="flex items-baseline justify-between">
+            <p className="text-sm font-semibold text-foreground">Weather</p>
+            {weather.isAvailable && weather.setting === "auto" && (
+              <span className="text-xs text-foreground/60">{WEATHER_LABELS[weather.weather]}</span>
+            )}
+          </div>
+          {weather.isAvailable ? (
+            <div role="radiogroup" aria-label="Weather" className="flex flex-wrap gap-1">
+              {WEATHER_OPTIONS.map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  role="radio"
+                  aria-checked={weather.setting === value}
+                  onClick={() => { playSound("click"); weather.setSetting(value); }}
+                  className={cn(
+                    "rounded px-2 py-1 text-xs transition-colors cursor-pointer",
+                    weather.setting === value ? "bg-primary/10 text-foreground" : "text-foreground/80 hover:bg-accent/10"
+                  )}
+                >
+                  {WEATHER_LABELS[value]}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-foreground/60">Weather is off at Low quality.</p>
+          )}
+        </div>
+
+        <label className="flex items-center gap-2 border-t border-accent/20 pt-3 text-sm text-foreground/80 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={flyToSections}
+            onChange={(e) => setFlyToSections(e.target.checked)}
+            className="accent-primary"
+          />
+          Fly to objects before opening sections
+        </label>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -2,6 +2,10 @@
  * Grass field component using instanced grass meshes on terrain surface
  * Used in: PortfolioScene for rendering animated grass field
  *
+ * Blades are bucketed into square chunks, each a THREE.LOD holding one InstancedMesh per grassLODs.glb level,
+ * so three.js swaps detail by camera distance and frustum-culls chunks that are off screen.
+ * Blades bend away from a short trail left by the pointer's terrain hit and the orbit target, springing back as it fades.
+ *
  * Adapted from "How to Make the Fluffiest Grass with Three.js" by Ebenezer
  * https://tympanus.net/codrops/2025/02/04/how-to-make-the-fluffiest-grass-with-three-js/
  * Original code: MIT License - Copyright (c) 2023 Ebenezer
@@ -13,7 +17,30 @@ import * as THREE from "three";
 import { useGLTF } from "@react-three/drei";
 import { useFrame } from "@react-three/fiber";
 import { MeshSurfaceSampler } from "three/addons/math/MeshSurfaceSampler.js";
-import { GrassMaterial } from "./grassMaterial";
+import { type GrassColors } from "../utils/grassColors";
+import { GrassTrail } from "../utils/grassTrail";
+import { GRASS_MAX_INTERACTION_POINTS, GrassMaterial } from "./grassMaterial";
+
+const GRASS_LOD_NAMES = ["LOD00", "LOD01", "LOD02"] as const;
+/** Camera distance at which each LOD takes over, matching GRASS_LOD_NAMES */
+const GRASS_LOD_DISTANCES = [0, 10, 20];
+/** Chunk edge length in world units; the scaled island is roughly 37 units across */
+const GRASS_CHUNK_SIZE = 8;
+/** Extra bounding radius covering the shader's height offset and wind sway */
+const GRASS_CULL_PADDING = 1.5;
+/** Sway amplitude at a wind strength of 1 */
+const BASE_WIND_AMPLITUDE = 0.1;
+/** How quickly wind eases towards a new strength or speed (THREE.MathUtils.damp lambda) */
+const WIND_EASING = 0.8;
+
+/** Finds a LOD mesh by name; three.js strips the "." from "Grass.LOD00" so match on the suffix */
+function findGrassLodMesh(root: THREE.Object3D, lodName: string): THREE.Mesh | null {
+	let found: THREE.Mesh | null = null;
+	root.traverse((child) => {
+		if (!found && child instanceof THREE.Mesh && child.name.includes(lodName)) found = child;
+	});
+	return found;
+}
 
 type GrassFieldProps = {
 	grassCount?: number;
@@ -22,12 +49,30 @@ type GrassFieldProps = {
 	grassScale?: number;
 	grassHeightScale?: number;
 	isDarkMode?: boolean;
+	/** Blade colors from the day/night cycle; without them the grass follows isDarkMode */
+	colors?: GrassColors;
+	/** Most detailed LOD used near the camera, 0 (LOD00) being the highest; farther chunks step down from it */
+	lodLevel?: 0 | 1 | 2;
+	/** Whether blades darken where the scene's shadow map falls on them */
+	shadows?: boolean;
+	/** Trail points that bend the grass, capped at GRASS_MAX_INTERACTION_POINTS; 0 disables interaction */
+	trailPoints?: number;
+	/** Wind sway multiplier, eased towards when it changes */
+	windStrength?: number;
+	/** Wind cycle speed multiplier, eased towards when it changes */
+	windSpeed?: number;
 };
 
-export function GrassField({ grassCount = 1000, terrainScale = 2, terrainHeightScale = 0.8, grassScale = 5, grassHeightScale = 0.4, isDarkMode = false }: GrassFieldProps) {
-	const [grassInstancedMesh, setGrassInstancedMesh] = React.useState<THREE.InstancedMesh | null>(null);
+export function GrassField({ grassCount = 1000, terrainScale = 2, terrainHeightScale = 0.8, grassScale = 5, grassHeightScale = 0.4, isDarkMode = false, colors, lodLevel = 0, shadows = true, trailPoints = GRASS_MAX_INTERACTION_POINTS, windStrength = 1, windSpeed = 1 }: GrassFieldProps) {
+	const [grassChunks, setGrassChunks] = React.useState<THREE.Group | null>(null);
 	const [grassMaterial, setGrassMaterial] = React.useState<GrassMaterial | null>(null);
 	const timeRef = React.useRef(0);
+	const windRef = React.useRef({ strength: windStrength, speed: windSpeed, phase: 0 });
+	const terrainMeshRef = React.useRef<THREE.Mesh | null>(null);
+	const trailCapacity = Math.min(trailPoints, GRASS_MAX_INTERACTION_POINTS);
+	const [trail] = React.useState(() => new GrassTrail(trailCapacity));
+	const raycaster = React.useMemo(() => new THREE.Raycaster(), []);
+	const lastPointerRef = React.useRef(new THREE.Vector2(Infinity, Infinity));
 	
 	// Use refs to track resources for proper cleanup order
 	const texturesRef = React.useRef<{ grassAlpha?: THREE.Texture; noise?: THREE.Texture }>({});
@@ -35,7 +80,7 @@ export function GrassField({ grassCount = 1000, terrainScale = 2, terrainHeightS
 	const isMountedRef = React.useRef(true);
 	
 	// Cache cloned geometries to avoid re-cloning on every render
-	const grassGeometryRef = React.useRef<THREE.BufferGeometry | null>(null);
+	const grassGeometriesRef = React.useRef<THREE.BufferGeometry[]>([]);
 	const terrainGeometryRef = React.useRef<THREE.BufferGeometry | null>(null);
 	const lastScaleParamsRef = React.useRef<{
 		terrainScale: number;
@@ -92,12 +137,22 @@ export function GrassField({ grassCount = 1000, terrainScale = 2, terrainHeightS
 		};
 	}, [grassAlphaTexture, noiseTexture]);
 
-	/** Update grass colors based on dark mode */
+	/** Toggle shadow sampling in the grass shader with the quality tier */
 	React.useEffect(() => {
-		if (grassMaterial) {
-			grassMaterial.setDarkMode(isDarkMode);
-		}
-	}, [grassMaterial, isDarkMode]);
+		grassMaterial?.updateGrassGraphicsChange(shadows);
+	}, [grassMaterial, shadows]);
+
+	/** Resize the trail with the quality tier */
+	React.useEffect(() => {
+		trail.setCapacity(trailCapacity);
+	}, [trail, trailCapacity]);
+
+	/** Update grass colors from the time of day, or dark mode when none is given */
+	React.useEffect(() => {
+		if (!grassMaterial) return;
+		if (colors) grassMaterial.setColors(colors);
+		else grassMaterial.setDarkMode(isDarkMode);
+	}, [grassMaterial, colors, isDarkMode]);
 
 	/** Cleanup all resources on unmount in correct order */
 	React.useEffect(() => {
@@ -109,7 +164,7 @@ export function GrassField({ grassCount = 1000, terrainScale = 2, terrainHeightS
 			const material = materialRef.current?.material ?? null;
 			const grassTexture = texturesRefSnapshot.grassAlpha;
 			const noiseTex = texturesRefSnapshot.noise;
-			const grassGeom = grassGeometryRef.current;
+			const grassGeoms = grassGeometriesRef.current;
 			const terrainGeom = terrainGeometryRef.current;
 
 			// Cleanup order: material first, then textures, then geometries
@@ -125,10 +180,8 @@ export function GrassField({ grassCount = 1000, terrainScale = 2, terrainHeightS
 				noiseTex.dispose();
 				texturesRefSnapshot.noise = undefined;
 			}
-			if (grassGeom) {
-				grassGeom.dispose();
-				grassGeometryRef.current = null;
-			}
+			for (const geometry of grassGeoms) geometry.dispose();
+			grassGeometriesRef.current = [];
 			if (terrainGeom) {
 				terrainGeom.dispose();
 				terrainGeometryRef.current = null;
@@ -191,33 +244,30 @@ export function GrassField({ grassCount = 1000, terrainScale = 2, terrainHeightS
 			return;
 		}
 
-		// Find grass geometry from LODs model and clone before scaling
-		let grassGeometry: THREE.BufferGeometry | null = null;
-		if (scaleParamsChanged || !grassGeometryRef.current) {
-			grassLODsModel.scene.traverse((child) => {
-				if (child instanceof THREE.Mesh && child.name.includes("LOD00") && child.geometry instanceof THREE.BufferGeometry) {
-					if (grassGeometryRef.current) grassGeometryRef.current.dispose();
-
-					grassGeometry = child.geometry.clone();
-					grassGeometry.scale(grassScale, grassScale * grassHeightScale, grassScale);
-					grassGeometryRef.current = grassGeometry;
-				}
+		// Find every grass LOD geometry (LOD00 most detailed) and clone before scaling
+		let grassGeometries = grassGeometriesRef.current;
+		if (scaleParamsChanged || grassGeometries.length === 0) {
+			for (const geometry of grassGeometries) geometry.dispose();
+			grassGeometries = GRASS_LOD_NAMES.flatMap((lodName) => {
+				const source = findGrassLodMesh(grassLODsModel.scene, lodName);
+				if (!source || !(source.geometry instanceof THREE.BufferGeometry)) return [];
+				const geometry = source.geometry.clone();
+				geometry.scale(grassScale, grassScale * grassHeightScale, grassScale);
+				return [geometry];
 			});
-		} else {
-			grassGeometry = grassGeometryRef.current;
+			grassGeometriesRef.current = grassGeometries;
 		}
 
-		if (!grassGeometry) {
-			console.warn("Grass geometry (LOD00) not found in grassLODs model");
+		if (grassGeometries.length !== GRASS_LOD_NAMES.length) {
+			console.warn(`Grass LOD geometries (${GRASS_LOD_NAMES.join(", ")}) not found in grassLODs model`);
 			return;
 		}
-		
+
 		// Update scale params cache
 		lastScaleParamsRef.current = currentScaleParams;
+		terrainMeshRef.current = terrainMesh;
 
 		const sampler = new MeshSurfaceSampler(terrainMesh).build();
-		const instancedMesh = new THREE.InstancedMesh(grassGeometry, grassMaterial.material, grassCount);
-		instancedMesh.receiveShadow = true;
 
 		const position = new THREE.Vector3();
 		const quaternion = new THREE.Quaternion();
@@ -225,32 +275,77 @@ export function GrassField({ grassCount = 1000, terrainScale = 2, terrainHeightS
 		const scale = new THREE.Vector3(thicknessMultiplier, grassHeightScale, thicknessMultiplier);
 		const normal = new THREE.Vector3();
 		const yAxis = new THREE.Vector3(0, 1, 0);
-		const matrix = new THREE.Matrix4();
+		const randomRotation = new THREE.Euler();
+		const randomQuaternion = new THREE.Quaternion();
 
-		// Sample randomly from the surface
+		// Sample randomly from the surface, bucketing blades by chunk
+		const chunkBlades = new Map<string, { positions: THREE.Vector3[]; quaternions: THREE.Quaternion[] }>();
 		for (let i = 0; i < grassCount; i++) {
 			sampler.sample(position, normal);
 
 			// Align the instance with the surface normal
 			quaternion.setFromUnitVectors(yAxis, normal);
-			// Create a random rotation around the y-axis
-			const randomRotation = new THREE.Euler(0, Math.random() * Math.PI * 2, 0);
-			const randomQuaternion = new THREE.Quaternion().setFromEuler(randomRotation);
+			// Combine the alignment with a random rotation around the y-axis
+			randomRotation.set(0, Math.random() * Math.PI * 2, 0);
+			quaternion.multiply(randomQuaternion.setFromEuler(randomRotation));
+
+			const key = `${Math.floor(position.x / GRASS_CHUNK_SIZE)},${Math.floor(position.z / GRASS_CHUNK_SIZE)}`;
+			let blades = chunkBlades.get(key);
+			if (!blades) {
+				blades = { positions: [], quaternions: [] };
+				chunkBlades.set(key, blades);
+			}
+			blades.positions.push(position.clone());
+			blades.quaternions.push(quaternion.clone());
+		}
+
+		// Levels below the quality tier's most detailed LOD are skipped entirely
+		const levels = GRASS_LOD_DISTANCES.map((distance, level) => ({ distance, level })).slice(lodLevel);
+		const chunks = new THREE.Group();
+		const instancedMeshes: THREE.InstancedMesh[] = [];
+		const matrix = new THREE.Matrix4();
+		const center = new THREE.Vector3();
+		const offset = new THREE.Vector3();
+
+		for (const blades of chunkBlades.values()) {
+			// Instances are stored relative to the chunk centre so THREE.LOD measures distance from the right place
+			center.set(0, 0, 0);
+			for (const bladePosition of blades.positions) center.add(bladePosition);
+			center.divideScalar(blades.positions.length);
+
+			const lod = new THREE.LOD();
+			lod.position.copy(center);
 
-			// Combine the alignment with the random rotation
-			quaternion.multiply(randomQuaternion);
+			levels.forEach(({ distance, level }, index) => {
+				const geometry = grassGeometries[level];
+				if (!geometry) return;
 
-			// Set the new scale in the matrix
-			matrix.compose(position, quaternion, scale);
-			instancedMesh.setMatrixAt(i, matrix);
+				const instancedMesh = new THREE.InstancedMesh(geometry, grassMaterial.material, blades.positions.length);
+				instancedMesh.receiveShadow = true;
+				blades.positions.forEach((bladePosition, i) => {
+					const quaternionAt = blades.quaternions[i];
+					if (!quaternionAt) return;
+					matrix.compose(offset.subVectors(bladePosition, center), quaternionAt, scale);
+					instancedMesh.setMatrixAt(i, matrix);
+				});
+				instancedMesh.instanceMatrix.needsUpdate = true;
+
+				// The shader lifts and sways blades beyond their geometry, so pad the culling sphere to match
+				instancedMesh.computeBoundingSphere();
+				if (instancedMesh.boundingSphere) instancedMesh.boundingSphere.radius += GRASS_CULL_PADDING;
+
+				lod.addLevel(instancedMesh, index === 0 ? 0 : distance);
+				instancedMeshes.push(instancedMesh);
+			});
+
+			chunks.add(lod);
 		}
 
-		instancedMesh.instanceMatrix.needsUpdate = true;
-		setGrassInstancedMesh(instancedMesh);
+		setGrassChunks(chunks);
 
 		return () => {
 			if (!isMountedRef.current) return;
-			instancedMesh.dispose();
+			for (const instancedMesh of instancedMeshes) instancedMesh.dispose();
 			if (terrainMaterial) {
 				terrainMaterial.dispose();
 			}
@@ -264,21 +359,43 @@ export function GrassField({ grassCount = 1000, terrainScale = 2, terrainHeightS
 		terrainHeightScale,
 		grassScale,
 		grassHeightScale,
+		lodLevel,
 		isDarkMode,
 	]);
 
-	/** Update grass animation */
+	/** Update grass animation and feed the interaction trail */
 	useFrame((state, delta) => {
-		if (grassMaterial) {
-			timeRef.current += delta;
-			grassMaterial.update(timeRef.current);
+		if (!grassMaterial) return;
+		timeRef.current += delta;
+		grassMaterial.update(timeRef.current);
+
+		const wind = windRef.current;
+		wind.strength = THREE.MathUtils.damp(wind.strength, windStrength, WIND_EASING, delta);
+		wind.speed = THREE.MathUtils.damp(wind.speed, windSpeed, WIND_EASING, delta);
+		wind.phase += delta * wind.speed;
+		grassMaterial.setWind(BASE_WIND_AMPLITUDE * wind.strength, wind.phase);
+
+		trail.update(delta);
+		if (trailCapacity > 0) {
+			// Only raycast the terrain when the pointer has actually moved
+			const terrainMesh = terrainMeshRef.current;
+			if (terrainMesh && !state.pointer.equals(lastPointerRef.current)) {
+				lastPointerRef.current.copy(state.pointer);
+				raycaster.setFromCamera(state.pointer, state.camera);
+				const hit = raycaster.intersectObject(terrainMesh, false)[0];
+				if (hit) trail.add("pointer", hit.point.x, hit.point.z);
+			}
+
+			const controls = state.controls as { target?: THREE.Vector3 } | null;
+			if (controls?.target) trail.add("orbit", controls.target.x, controls.target.z);
 		}
+		grassMaterial.setInteractionPoints(trail.activePoints);
 	});
 
 	return (
 		<>
 			{islandModel.scene && <primitive object={islandModel.scene} receiveShadow />}
-			{grassInstancedMesh && <primitive object={grassInstancedMesh} receiveShadow />}
+			{grassChunks && <primitive object={grassChunks} />}
 		</>
 	);
 }
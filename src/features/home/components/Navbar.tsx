@@ -10,6 +10,7 @@ import { motion, AnimatePresence } from "framer-motion";
 import { Button } from "~/features/shared/components/ui/button";
 import { ThemeToggle } from "~/features/shared/components/ThemeToggle";
 import { SoundToggle } from "~/features/shared/components/SoundToggle";
+import { GraphicsSettings } from "./GraphicsSettings";
 import { playSound } from "~/lib/sounds";
 
 type NavbarProps = {
@@ -123,6 +124,10 @@ export function Navbar({ onSoftwareClick, onArtsClick, onAboutClick, onContactCl
             <ThemeToggle />
           </motion.div>
 
+          <motion.div whileHover={{ scale: 1.15 }} whileTap={{ scale: 0.85 }}>
+            <GraphicsSettings />
+          </motion.div>
+
           <motion.div whileHover={{ scale: 1.15 }} whileTap={{ scale: 0.85 }}>
             <Button
               variant="ghost"
@@ -157,6 +162,10 @@ export function Navbar({ onSoftwareClick, onArtsClick, onAboutClick, onContactCl
             <ThemeToggle />
           </motion.div>
 
+          <motion.div whileHover={{ scale: 1.15 }} whileTap={{ scale: 0.85 }}>
+            <GraphicsSettings />
+          </motion.div>
+
           <motion.div whileHover={{ scale: 1.15 }} whileTap={{ scale: 0.85 }}>
             <Button
               variant="ghost"
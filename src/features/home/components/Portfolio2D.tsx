@@ -0,0 +1,61 @@
+/**
+ * 2D portfolio layout shown when the 3D scene can't run, with a banner explaining why and a retry
+ * Used in: PortfolioHome in place of PortfolioScene and the section modals
+ */
+"use client";
+
+import * as React from "react";
+import { RotateCcw, TriangleAlert } from "lucide-react";
+import { Button } from "~/features/shared/components/ui/button";
+import { type PortfolioSection } from "../utils/portfolioRoutes";
+import { WEBGL_FAILURE_MESSAGES, type WebGLFailureReason } from "../utils/webglSupport";
+
+type Portfolio2DProps = {
+  sections: Record<PortfolioSection, React.ReactNode>;
+  /** Section from the URL, scrolled into view so deep links and the navbar still work */
+  activeSection: PortfolioSection | null;
+  failureReason: WebGLFailureReason | null;
+  onRetry: () => void;
+};
+
+const SECTION_ORDER: { id: PortfolioSection; title: string }[] = [
+  { id: "about", title: "About" },
+  { id: "software", title: "Software" },
+  { id: "arts", title: "Arts" },
+  { id: "contact", title: "Contact" },
+];
+
+export function Portfolio2D({ sections, activeSection, failureReason, onRetry }: Portfolio2DProps) {
+  React.useEffect(() => {
+    if (!activeSection) return;
+    document.getElementById(`section-${activeSection}`)?.scrollIntoView({ behavior: "smooth", block: "start" });
+  }, [activeSection]);
+
+  return (
+    <div className="h-full w-full overflow-y-auto px-4 pt-18">
+      <div
+        role="status"
+        className="mx-auto flex max-w-[820px] flex-col md:flex-row md:items-center gap-3 rounded border border-accent/30 bg-muted/50 px-4 py-3"
+      >
+        <TriangleAlert className="size-5 text-primary flex-shrink-0" aria-hidden="true" />
+        <p className="flex-1 text-sm text-foreground/90">
+          {failureReason ? WEBGL_FAILURE_MESSAGES[failureReason] : "You're viewing the 2D version of the portfolio."}
+        </p>
+        <Button variant="outline" size="sm" onClick={onRetry} className="border-accent/30 hover:bg-accent/10 cursor-pointer">
+          <RotateCcw /> Try 3D again
+        </Button>
+      </div>
+
+      <div className="mx-auto max-w-[820px] space-y-12 py-8">
+        {SECTION_ORDER.map(({ id, title }) => (
+          <section key={id} id={`section-${id}`} aria-labelledby={`section-${id}-title`} className="scroll-mt-20 space-y-4">
+            <h2 id={`section-${id}-title`} className="text-2xl font-semibold text-foreground border-b border-accent/20 pb-2">
+              {title}
+            </h2>
+            {sections[id]}
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
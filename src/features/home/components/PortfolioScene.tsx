@@ -6,36 +6,97 @@
 
 import * as React from "react";
 import { Canvas, useThree, useFrame } from "@react-three/fiber";
-import { OrbitControls, useGLTF, Grid } from "@react-three/drei";
+import { skipToken, useQuery } from "@tanstack/react-query";
+import { ErrorBoundary } from "react-error-boundary";
+import { OrbitControls, useGLTF, Grid, Html } from "@react-three/drei";
 import * as THREE from "three";
 import { GrassField } from "./GrassField";
 import { SceneLoader } from "./SceneLoader";
+import { SceneHint } from "./SceneHint";
+import { DrawerPreviews } from "./DrawerPreviews";
 import { setupInteractiveObjects } from "../utils/sceneObjectSetup";
 import { useSceneRaycaster } from "../hooks/useSceneRaycaster";
-import { useObjectInteractions } from "../hooks/useObjectInteractions";
+import { activateInteraction, useObjectInteractions } from "../hooks/useObjectInteractions";
+import { useKeyboardSceneNavigation } from "../hooks/useKeyboardSceneNavigation";
+import { useTouchSceneInteractions } from "../hooks/useTouchSceneInteractions";
+import { usePlayableKeyboard } from "../hooks/usePlayableKeyboard";
+import { useTouchMode } from "../hooks/useTouchMode";
 import { useThemeSync } from "../hooks/useThemeSync";
+import { useTimeOfDay } from "../hooks/useTimeOfDay";
+import { sampleSky } from "../utils/timeOfDay";
+import { DayNightLighting } from "./DayNightLighting";
+import { CameraDirector } from "./CameraDirector";
+import { TourOverlay } from "./TourOverlay";
+import { useWeather } from "../hooks/useWeather";
+import { WEATHER_PRESETS } from "../utils/weather";
+import { WeatherSystem } from "./WeatherSystem";
 import { storeOriginalColors } from "../utils/materialUtils";
-import { VideoScreen, VIDEO_COUNT, getVideoCredit } from "./VideoScreen";
-import type { ClickActions } from "../utils/sceneInteractions";
+import { VideoScreen } from "./VideoScreen";
+import { labelEntry, type ClickActions, type HitboxMetadata, type PortfolioSection } from "../utils/sceneInteractions";
+import type { WebGLFailureReason } from "../utils/webglSupport";
+import { useQualitySettings } from "../hooks/useQualitySettings";
+import { ApplyQualityPreset, AutoQualityMonitor } from "./SceneQuality";
+import { SceneAccessibilityMirror } from "./SceneAccessibilityMirror";
+import { TerminalInput } from "./TerminalInput";
+import { getTerminalState, openTerminal } from "../utils/terminal";
+import { KEYBOARD_EASTER_EGGS } from "../utils/keyboardEasterEggs";
+import { playPhoneSequence } from "../utils/phoneSequence";
+import { usePrefersReducedMotion } from "~/features/shared/hooks/use-reduced-motion";
+import { useTRPC } from "~/trpc/react";
+import { type Project, type ProjectSection } from "~/types/project";
+import { type ScreenItem } from "~/types/screen";
+
+/** Stable fallback while the screen playlist loads, so the scene doesn't re-render on every pass */
+const EMPTY_PLAYLIST: ScreenItem[] = [];
+const EMPTY_PROJECTS: Project[] = [];
+
+/** Drawers that open to previews, and the catalog section each one shows */
+const DRAWER_CATALOG_SECTIONS: Partial<Record<PortfolioSection, ProjectSection>> = {
+  software: "SOFTWARE",
+  arts: "ARTS",
+};
+
+/** Losses within this window count towards giving up on WebGL */
+const CONTEXT_LOSS_WINDOW_MS = 60_000;
+const MAX_CONTEXT_LOSSES = 3;
+/** How long to wait for `webglcontextrestored` before treating a loss as permanent */
+const CONTEXT_RESTORE_TIMEOUT_MS = 5_000;
 
-/** Configures renderer settings for grass shadows and rendering */
-function RendererConfig() {
+/** Configures renderer settings for grass shadows and rendering, and reports context loss the scene can't recover from */
+function RendererConfig({ onContextFailure }: { onContextFailure: (reason: WebGLFailureReason) => void }) {
 	const { gl } = useThree();
 
 	React.useEffect(() => {
-		gl.shadowMap.enabled = true;
+		// shadowMap.enabled follows the Canvas `shadows` prop, which the quality tier controls
 		gl.shadowMap.type = THREE.PCFSoftShadowMap;
 		gl.outputColorSpace = THREE.SRGBColorSpace;
 		gl.toneMapping = THREE.ACESFilmicToneMapping;
 
 		const canvas = gl.domElement;
+		const lossTimes: number[] = [];
+		let restoreTimer: ReturnType<typeof setTimeout> | null = null;
+
 		const handleContextLost = (event: Event) => {
+			// preventDefault tells the browser we'll handle restoration, otherwise it never fires
 			event.preventDefault();
+
+			const now = performance.now();
+			lossTimes.push(now);
+			while (lossTimes[0] !== undefined && now - lossTimes[0] > CONTEXT_LOSS_WINDOW_MS) lossTimes.shift();
+
+			if (lossTimes.length >= MAX_CONTEXT_LOSSES) {
+				onContextFailure("context-lost");
+				return;
+			}
+			if (restoreTimer) clearTimeout(restoreTimer);
+			restoreTimer = setTimeout(() => onContextFailure("context-lost"), CONTEXT_RESTORE_TIMEOUT_MS);
 		};
 
 		const handleContextRestored = () => {
+			if (restoreTimer) clearTimeout(restoreTimer);
+			restoreTimer = null;
+
 			// Reinitialize renderer settings after context restoration
-			gl.shadowMap.enabled = true;
 			gl.shadowMap.type = THREE.PCFSoftShadowMap;
 			gl.outputColorSpace = THREE.SRGBColorSpace;
 			gl.toneMapping = THREE.ACESFilmicToneMapping;
@@ -45,51 +106,19 @@ function RendererConfig() {
 		canvas.addEventListener("webglcontextrestored", handleContextRestored);
 
 		return () => {
+			if (restoreTimer) clearTimeout(restoreTimer);
 			canvas.removeEventListener("webglcontextlost", handleContextLost);
 			canvas.removeEventListener("webglcontextrestored", handleContextRestored);
 		};
-	}, [gl]);
+	}, [gl, onContextFailure]);
 	return null;
 }
 
-/** Animates camera movement to a target position */
-function CameraMove({ start, to, speed = 0.8, onComplete }: { 
-  start: boolean; to: [number, number, number]; speed?: number; onComplete?: () => void 
-}) {
-	const { camera } = useThree();
-	const hasAnimated = React.useRef(false);
-	const animationProgress = React.useRef(0);
-	const startPosition = React.useRef<THREE.Vector3 | null>(null);
-	const targetPosition = React.useMemo(() => new THREE.Vector3(...to), [to]);
-
-	useFrame((_, delta) => {
-		if (start && !hasAnimated.current) {
-			// Capture current camera position on first frame of animation
-			// NOTE: Do not remove this eslint-disable - using ??= here causes camera animation jitter
-			// eslint-disable-next-line @typescript-eslint/prefer-nullish-coalescing
-			if (!startPosition.current) {
-				startPosition.current = camera.position.clone();
-			}
-
-			animationProgress.current += delta * speed;
-			const t = Math.min(animationProgress.current, 1);
-			// Smooth easing (ease-out cubic)
-			const eased = 1 - Math.pow(1 - t, 3);
-
-			camera.position.lerpVectors(startPosition.current, targetPosition, eased);
-
-			if (t >= 1) {
-				hasAnimated.current = true;
-				onComplete?.();
-			}
-		}
-	});
-
-	return null;
-}
+/** Gentler gestures and a tighter pan box on phones, where a small screen makes every swipe travel further */
+const TOUCH_ORBIT = { rotateSpeed: 0.6, zoomSpeed: 0.8, panSpeed: 0.5, minDistance: 3, maxDistance: 10, targetY: [2, 4.5], targetZ: [-3, 3] } as const;
 
 /** OrbitControls with pan limits - clamps target instead of camera to prevent rotation issues */
-function LimitedOrbitControls({ limitMaxDistance }: { limitMaxDistance: boolean }) {
+function LimitedOrbitControls({ limitMaxDistance, touchMode }: { limitMaxDistance: boolean; touchMode: boolean }) {
 	const { controls, camera } = useThree();
 	const ISLAND_FLOOR_Y = 1.5; // Hard limit - no camera below this
 	const targetInitialized = React.useRef(false);
@@ -104,15 +133,35 @@ function LimitedOrbitControls({ limitMaxDistance }: { limitMaxDistance: boolean
 			targetInitialized.current = true;
 		}
 
-		target.x = Math.max(-5, Math.min(8, target.x));
-		target.y = Math.max(ISLAND_FLOOR_Y, Math.min(5, target.y));
-		target.z = Math.max(-5, Math.min(5, target.z));
+		// Wide enough in x for the cabinet and phone viewpoints
+		target.x = Math.max(-8, Math.min(9, target.x));
+		if (touchMode) {
+			target.y = Math.max(TOUCH_ORBIT.targetY[0], Math.min(TOUCH_ORBIT.targetY[1], target.y));
+			target.z = Math.max(TOUCH_ORBIT.targetZ[0], Math.min(TOUCH_ORBIT.targetZ[1], target.z));
+		} else {
+			target.y = Math.max(ISLAND_FLOOR_Y, Math.min(5, target.y));
+			target.z = Math.max(-5, Math.min(5, target.z));
+		}
 		camera.position.y = Math.max(ISLAND_FLOOR_Y, camera.position.y);
 	});
 
 	// Disable distance limits during intro animation
-	const maxDist = limitMaxDistance ? 12 : 100;
-	return <OrbitControls makeDefault enablePan={true} enableZoom={true} enableRotate={true} minDistance={2} maxDistance={maxDist} />;
+	const maxDist = limitMaxDistance ? (touchMode ? TOUCH_ORBIT.maxDistance : 12) : 100;
+	return (
+		<OrbitControls
+			makeDefault
+			enablePan={true}
+			enableZoom={true}
+			enableRotate={true}
+			minDistance={touchMode ? TOUCH_ORBIT.minDistance : 2}
+			maxDistance={maxDist}
+			rotateSpeed={touchMode ? TOUCH_ORBIT.rotateSpeed : 1}
+			zoomSpeed={touchMode ? TOUCH_ORBIT.zoomSpeed : 1}
+			panSpeed={touchMode ? TOUCH_ORBIT.panSpeed : 1}
+			// One finger orbits, two fingers pinch-zoom and pan together
+			touches={{ ONE: THREE.TOUCH.ROTATE, TWO: THREE.TOUCH.DOLLY_PAN }}
+		/>
+	);
 }
 
 type PortfolioSceneProps = {
@@ -120,30 +169,68 @@ type PortfolioSceneProps = {
   onArtsClick: () => void;
   onAboutClick: () => void;
   onContactClick: () => void;
+  /** Opens a section with one project expanded, for the computer terminal's `open <project>` */
+  onProjectOpen: (section: PortfolioSection, slug: string) => void;
   isDialogOpen: boolean;
+  /** Enter automatically with a quicker camera zoom, for visitors arriving on a deep link */
+  skipIntro?: boolean;
+  /** Called when the renderer can't start or keeps losing its context, so the page can switch to 2D */
+  onWebGLFailure: (reason: WebGLFailureReason) => void;
 };
 
-type SceneContentProps = PortfolioSceneProps & {
+type SceneContentProps = Pick<PortfolioSceneProps, "isDialogOpen"> & {
   isLoaderActive: boolean;
+  clickActions: ClickActions;
   onScreenHoverChange: (isHovered: boolean) => void;
-  currentVideoIndex: number;
-  onVideoIndexChange: () => void;
+  playlist: ScreenItem[];
+  currentScreenIndex: number;
+  /** Receives keyboard focus announcements for the ARIA live region */
+  onAnnounce: (message: string) => void;
+  /** Reports the interactive meshes once set up, for the screen reader mirror */
+  onInteractiveMeshesChange: (meshes: THREE.Mesh[]) => void;
+  /** Stills the grass and drops hover overshoot */
+  reducedMotion: boolean;
+  /** Taps preview objects and a second tap activates them */
+  touchMode: boolean;
+  /** The drawer held open with project previews floating over it */
+  openDrawer: PortfolioSection | null;
+  drawerProjects: Project[];
+  drawerProjectsStatus: "pending" | "error" | "success";
+  onDrawerClose: () => void;
 };
 
+/** On-screen name tag above the keyboard-focused or tap-previewed object */
+function FocusLabel({ mesh, activateHint }: { mesh: THREE.Mesh; activateHint: string }) {
+  const metadata = mesh.userData.metadata as HitboxMetadata | undefined;
+  const position = React.useMemo(() => {
+    const box = new THREE.Box3().setFromObject(mesh);
+    return new THREE.Vector3((box.min.x + box.max.x) / 2, box.max.y + 0.3, (box.min.z + box.max.z) / 2);
+  }, [mesh]);
+  if (!metadata) return null;
+
+  return (
+    <Html position={position} center style={{ pointerEvents: "none" }}>
+      <div className="whitespace-nowrap border border-foreground bg-background px-2 py-0.5 text-xs font-mono text-foreground" aria-hidden="true">
+        {labelEntry(metadata.entry)}
+        {metadata.entry.click && <span className="text-foreground/60"> · {activateHint}</span>}
+      </div>
+    </Html>
+  );
+}
+
 /** Inner scene component - renders all 3D content inside Canvas (lights, models, grass) */
-function SceneContent({ onSoftwareClick, onArtsClick, onAboutClick, onContactClick, isDialogOpen, isLoaderActive, onScreenHoverChange, currentVideoIndex, onVideoIndexChange }: SceneContentProps) {
+function SceneContent({ isDialogOpen, isLoaderActive, clickActions, onScreenHoverChange, playlist, currentScreenIndex, onAnnounce, onInteractiveMeshesChange, reducedMotion, touchMode, openDrawer, drawerProjects, drawerProjectsStatus, onDrawerClose }: SceneContentProps) {
   const { scene } = useThree();
-  const [interactiveMeshes, setInteractiveMeshes] = React.useState<THREE.Mesh[]>([]);
+  const [modelMeshes, setModelMeshes] = React.useState<THREE.Mesh[]>([]);
+  const [previewMeshes, setPreviewMeshes] = React.useState<THREE.Mesh[]>([]);
   const [resourcesReady, setResourcesReady] = React.useState(false);
 
   const { primaryColor, isDarkMode } = useThemeSync();
+  const { preset } = useQualitySettings();
+  const { hour } = useTimeOfDay();
+  const sky = React.useMemo(() => sampleSky(hour, isDarkMode), [hour, isDarkMode]);
+  const { weather } = useWeather();
 
-  /** Scene setup - update background and fog based on theme */
-  React.useEffect(() => {
-    const bgColor = isDarkMode ? "#0a0a0a" : "#eeeeee";
-    scene.fog = new THREE.FogExp2(bgColor, 0.02);
-    scene.background = new THREE.Color(bgColor);
-  }, [scene, isDarkMode]);
   const computerModel = useGLTF("/models/computer.glb");
   const cabinetModel = useGLTF("/models/cabinet.glb");
   const phoneModel = useGLTF("/models/phone.glb");
@@ -170,97 +257,61 @@ function SceneContent({ onSoftwareClick, onArtsClick, onAboutClick, onContactCli
       for (const mesh of meshes) {
         storeOriginalColors(mesh);
       }
-      setInteractiveMeshes(meshes);
+      setModelMeshes(meshes);
     }, 100);
   
     return () => clearTimeout(timer);
   }, [scene, resourcesReady]);
 
+  /** Drawer preview cards join the model's meshes while their drawer is open */
+  const interactiveMeshes = React.useMemo(
+    () => (previewMeshes.length > 0 ? [...modelMeshes, ...previewMeshes] : modelMeshes),
+    [modelMeshes, previewMeshes]
+  );
+  React.useEffect(() => {
+    onInteractiveMeshesChange(interactiveMeshes);
+  }, [interactiveMeshes, onInteractiveMeshesChange]);
+
+  const openDrawerMesh = React.useMemo(() => {
+    if (!openDrawer) return null;
+    return modelMeshes.find((mesh) => {
+      const click = (mesh.userData.metadata as HitboxMetadata | undefined)?.entry.click;
+      return click?.type === "toggleDrawer" && click.section === openDrawer;
+    }) ?? null;
+  }, [modelMeshes, openDrawer]);
+
   const interactionsEnabled = interactiveMeshes.length > 0 && !isDialogOpen && !isLoaderActive;
   const { intersects } = useSceneRaycaster({ interactiveMeshes, enabled: interactionsEnabled });
 
-  // Click actions mapping
-  const clickActions: ClickActions = React.useMemo(() => ({
-      onPhoneClick: onContactClick,
-      onComputerClick: onSoftwareClick,
-      onComputerFrameClick: onAboutClick,
-      onScreenClick: onVideoIndexChange,
-      onDiskLinkedInClick: () => { /* External link handled in useObjectInteractions */ },
-      onDiskGithubClick: () => { /* External link handled in useObjectInteractions */ },
-      onDrawerAboutClick: onAboutClick,
-      onDrawerSoftwareClick: onSoftwareClick,
-      onDrawerArtsClick: onArtsClick,
-    }), [onSoftwareClick, onArtsClick, onAboutClick, onContactClick, onVideoIndexChange]
-  );
-
-  useObjectInteractions({ intersects, clickActions, enabled: interactionsEnabled, onScreenHoverChange });
+  const handleActivate = React.useCallback((mesh: THREE.Mesh) => activateInteraction(mesh, clickActions), [clickActions]);
+  const { focusedMesh } = useKeyboardSceneNavigation({
+    interactiveMeshes,
+    enabled: interactionsEnabled,
+    onActivate: handleActivate,
+    onAnnounce,
+  });
+  const { previewMesh } = useTouchSceneInteractions({
+    interactiveMeshes,
+    enabled: interactionsEnabled && touchMode,
+    onActivate: handleActivate,
+    onAnnounce,
+  });
+  const highlightedMesh = focusedMesh ?? previewMesh;
+  usePlayableKeyboard({ interactiveMeshes, enabled: interactionsEnabled, easterEggs: KEYBOARD_EASTER_EGGS, onAnnounce });
+
+  useObjectInteractions({ intersects, clickActions, enabled: interactionsEnabled, onScreenHoverChange, focusedMesh: highlightedMesh, reducedMotion });
 
   // Don't render heavy content until resources are ready
   if (!resourcesReady) {
     return (
-      <>
-        <ambientLight intensity={isDarkMode ? 0.2 : 0.4} />
-        {isDarkMode ? (
-          <spotLight position={[0, 20, 0]} angle={Math.PI / 1.5} intensity={3} distance={50} />
-        ) : (
-          <directionalLight position={[3, 6, 8]} intensity={1} />
-        )}
-      </>
+      <DayNightLighting sky={sky} castShadows={false} shadowMapSize={preset.shadowMapSize} fog={preset.fog} />
     );
   }
 
   return (
     <>
-      {/* Ambient light for overall scene illumination - reduces harsh shadows */}
-      <ambientLight intensity={ 0.3 } />
-
-      {isDarkMode ? (
-        // Dark mode: Spotlight for dramatic moonlight effect
-        <>
-          <spotLight
-            position={[-1, 8, 2]}
-            angle={Math.PI / 1.5}
-            penumbra={0.8}
-            color={"#FFF"}
-            intensity={25}
-            distance={25}
-            castShadow
-            shadow-mapSize-width={2048}
-            shadow-mapSize-height={2048}
-            shadow-camera-far={40}
-            shadow-bias={-0.001}
-            shadow-normalBias={0.03}
-          />
-          <directionalLight
-            position={[-2, 6, -1]}
-            intensity={0.8}
-            castShadow={false}
-          />
-        </>
-      ) : (
-        // Light mode: Directional light for natural sunlight
-        <>
-        <directionalLight
-          position={[3, 6, 8]}
-          intensity={1}
-          castShadow
-          shadow-mapSize-width={2048}
-          shadow-mapSize-height={2048}
-          shadow-camera-far={20}
-          shadow-camera-left={-9}
-          shadow-camera-right={10}
-          shadow-camera-top={7}
-          shadow-camera-bottom={-3}
-          shadow-bias={-0.001}
-          shadow-normalBias={0.03}
-        />
-        <directionalLight
-          position={[2, 5, -5]}
-          intensity={0.4}
-          castShadow={false}
-        />
-        </>
-      )}
+      <DayNightLighting sky={sky} castShadows={preset.castShadows} shadowMapSize={preset.shadowMapSize} fog={preset.fog} />
+      <WeatherSystem weather={weather} particleScale={preset.weatherParticles} baseFogDensity={sky.fogDensity} />
 
       {/* Grid */}
       <Grid
@@ -275,20 +326,40 @@ function SceneContent({ onSoftwareClick, onArtsClick, onAboutClick, onContactCli
         position={[0, 0, 0]}
       />
 
+      <DrawerPreviews
+        drawer={openDrawerMesh}
+        section={openDrawer}
+        projects={drawerProjects}
+        projectsStatus={drawerProjectsStatus}
+        interactive={interactionsEnabled}
+        reducedMotion={reducedMotion}
+        onMeshesChange={setPreviewMeshes}
+        onAnnounce={onAnnounce}
+        onClose={onDrawerClose}
+      />
+
+      {highlightedMesh && <FocusLabel mesh={highlightedMesh} activateHint={focusedMesh ? "Enter" : "Tap again"} />}
+
       {/* Grass field with terrain */}
       <GrassField
-        grassCount={1500}
+        grassCount={preset.grassCount}
+        lodLevel={preset.grassLod}
+        trailPoints={preset.grassTrailPoints}
+        shadows={preset.castShadows}
         terrainScale={2}
         terrainHeightScale={0.5}
         grassScale={8}
         grassHeightScale={0.4}
         isDarkMode={isDarkMode}
+        colors={sky.grass}
+        windStrength={reducedMotion ? 0 : WEATHER_PRESETS[weather].windStrength}
+        windSpeed={WEATHER_PRESETS[weather].windSpeed}
       />
 
       {/* GLB Models */}
       <group position={[0, 1, 0]}>
         <primitive object={computerModel.scene} />
-        <VideoScreen computerScene={computerModel.scene} currentVideoIndex={currentVideoIndex} />
+        <VideoScreen computerScene={computerModel.scene} playlist={playlist} currentIndex={currentScreenIndex} />
         <primitive object={phoneModel.scene} />
         <primitive object={cabinetModel.scene} />
       </group>
@@ -297,8 +368,8 @@ function SceneContent({ onSoftwareClick, onArtsClick, onAboutClick, onContactCli
 }
 
 /** Credit toast that appears when hovering the computer screen */
-function CreditToast({ isVisible, artist, artistUrl, onMouseEnter, onMouseLeave }: { isVisible: boolean; artist?: string; artistUrl?: string; onMouseEnter: () => void; onMouseLeave: () => void }) {
-  if (!artist) return null;
+function CreditToast({ isVisible, artist, artistUrl, license, onMouseEnter, onMouseLeave }: { isVisible: boolean; artist?: string; artistUrl?: string; license?: string; onMouseEnter: () => void; onMouseLeave: () => void }) {
+  if (!artist && !license) return null;
 
   return (
     <div
@@ -314,7 +385,7 @@ function CreditToast({ isVisible, artist, artistUrl, onMouseEnter, onMouseLeave
           </svg>
         </div>
         <div className="px-2 py-1.5">
-          {artistUrl ? (
+          {artist && artistUrl ? (
             <a
               href={artistUrl}
               target="_blank"
@@ -326,9 +397,10 @@ function CreditToast({ isVisible, artist, artistUrl, onMouseEnter, onMouseLeave
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
               </svg>
             </a>
-          ) : (
+          ) : artist ? (
             <span className="text-xs font-mono text-foreground">Art by @{artist}</span>
-          )}
+          ) : null}
+          {license && <span className="block text-[10px] font-mono text-foreground/60">{license}</span>}
         </div>
       </div>
     </div>
@@ -336,19 +408,82 @@ function CreditToast({ isVisible, artist, artistUrl, onMouseEnter, onMouseLeave
 }
 
 /** Main exported component - sets up Canvas, loader, and camera animation */
-export function PortfolioScene({ onSoftwareClick, onArtsClick, onAboutClick, onContactClick, isDialogOpen }: PortfolioSceneProps) {
+export function PortfolioScene({ onSoftwareClick, onArtsClick, onAboutClick, onContactClick, onProjectOpen, isDialogOpen, skipIntro = false, onWebGLFailure }: PortfolioSceneProps) {
   const [showLoader, setShowLoader] = React.useState(true);
   const [isZooming, setIsZooming] = React.useState(false);
-  const [currentVideoIndex, setCurrentVideoIndex] = React.useState(0);
+  const [currentScreenIndex, setCurrentScreenIndex] = React.useState(0);
   const [, setIsScreenHovered] = React.useState(false);
   const [isCreditHovered, setIsCreditHovered] = React.useState(false);
   const [showCredit, setShowCredit] = React.useState(false);
+  const [announcement, setAnnouncement] = React.useState("");
+  const [interactiveMeshes, setInteractiveMeshes] = React.useState<THREE.Mesh[]>([]);
   const hoverDelayRef = React.useRef<NodeJS.Timeout | null>(null);
   const hideDelayRef = React.useRef<NodeJS.Timeout | null>(null);
+  const { setting: qualitySetting, preset } = useQualitySettings();
+  // Antialiasing is fixed when the WebGL context is created, so only the tier at mount counts
+  const [antialias] = React.useState(preset.antialias);
+  const reducedMotion = usePrefersReducedMotion();
+  const touchMode = useTouchMode();
+
+  /** The Canvas creates its renderer outside React's render, so a context it can't get never reaches the ErrorBoundary */
+  const createRenderer = React.useCallback((defaults: THREE.WebGLRendererParameters) => {
+    try {
+      return new THREE.WebGLRenderer({
+        ...defaults,
+        antialias,
+        powerPreference: "default",
+        preserveDrawingBuffer: false,
+        failIfMajorPerformanceCaveat: false,
+      });
+    } catch (error) {
+      onWebGLFailure("context-creation-failed");
+      throw error;
+    }
+  }, [antialias, onWebGLFailure]);
+
+  const trpc = useTRPC();
+  const { data: playlist = EMPTY_PLAYLIST } = useQuery(trpc.screen.playlist.queryOptions());
+  // The drawer showing in-scene project previews; its projects come from the same query as the section modal
+  const [openDrawer, setOpenDrawer] = React.useState<PortfolioSection | null>(null);
+  const drawerCatalogSection = openDrawer ? DRAWER_CATALOG_SECTIONS[openDrawer] : undefined;
+  const { data: drawerProjects = EMPTY_PROJECTS, status: drawerProjectsStatus } = useQuery(
+    trpc.project.bySection.queryOptions(drawerCatalogSection ? { section: drawerCatalogSection } : skipToken)
+  );
+  const closeDrawer = React.useCallback(() => setOpenDrawer(null), []);
+  // The playlist can shrink under the index after an admin edit
+  const screenIndex = playlist.length > 0 ? currentScreenIndex % playlist.length : 0;
+  const currentScreenItem = playlist[screenIndex];
 
-  const handleVideoIndexChange = React.useCallback(() => {
-    setCurrentVideoIndex((prev) => (prev + 1) % VIDEO_COUNT);
-  }, []);
+  const handleScreenAdvance = React.useCallback(() => {
+    setCurrentScreenIndex((prev) => (playlist.length > 0 ? (prev + 1) % playlist.length : 0));
+  }, [playlist.length]);
+
+  /** Items with a duration move on by themselves; the timer restarts whenever the item changes, including by click */
+  React.useEffect(() => {
+    const seconds = currentScreenItem?.durationSeconds;
+    if (seconds === undefined || playlist.length < 2) return;
+    const timer = setTimeout(handleScreenAdvance, seconds * 1000);
+    return () => clearTimeout(timer);
+  }, [currentScreenItem, playlist.length, handleScreenAdvance]);
+
+  // Scene callbacks that registry click actions dispatch to, shared by the 3D objects and the screen reader mirror
+  const clickActions: ClickActions = React.useMemo(() => {
+    const sectionHandlers: Record<PortfolioSection, () => void> = {
+      software: onSoftwareClick,
+      arts: onArtsClick,
+      about: onAboutClick,
+      contact: onContactClick,
+    };
+    return {
+      openSection: (section) => sectionHandlers[section](),
+      openProject: onProjectOpen,
+      // While the terminal is up, clicking the monitor goes back to typing instead of skipping the playlist
+      cycleScreen: () => (getTerminalState().mode === "terminal" ? openTerminal() : handleScreenAdvance()),
+      openTerminal,
+      callPhone: (phone) => void playPhoneSequence(phone, { reducedMotion }).then(onContactClick),
+      toggleDrawer: (section) => setOpenDrawer((current) => (current === section ? null : section)),
+    };
+  }, [onSoftwareClick, onArtsClick, onAboutClick, onContactClick, onProjectOpen, handleScreenAdvance, reducedMotion]);
 
   const handleScreenHoverChange = React.useCallback((isHovered: boolean) => {
     setIsScreenHovered(isHovered);
@@ -397,38 +532,49 @@ export function PortfolioScene({ onSoftwareClick, onArtsClick, onAboutClick, onC
     };
   }, []);
 
-  const currentCredit = getVideoCredit(currentVideoIndex);
-
   return (
     <div className="relative h-full w-full" style={{ pointerEvents: isDialogOpen ? "none" : "auto" }}>
-      {showLoader && <SceneLoader onLoaded={() => setShowLoader(false)} onEnterClick={() => setIsZooming(true)} />}
-      <CreditToast isVisible={showCredit || isCreditHovered} artist={currentCredit?.artist} artistUrl={currentCredit?.artistUrl} onMouseEnter={handleCreditMouseEnter} onMouseLeave={handleCreditMouseLeave} />
-      <Canvas
-        shadows
-        dpr={[1, 1.5]}
-        camera={{ position: [-12, 18, 18], fov: 70 }} // CameraMove function will move it to 0.5, 7, 7
-        gl={{
-          antialias: true,
-          powerPreference: "default",
-          preserveDrawingBuffer: false,
-          failIfMajorPerformanceCaveat: false,
-        }}
-      >
-        <RendererConfig />
-        <CameraMove start={isZooming} to={[0.5, 7, 7]} onComplete={() => setIsZooming(false)} />
-        <SceneContent
-          onSoftwareClick={onSoftwareClick}
-          onArtsClick={onArtsClick}
-          onAboutClick={onAboutClick}
-          onContactClick={onContactClick}
-          isDialogOpen={isDialogOpen}
-          isLoaderActive={showLoader}
-          onScreenHoverChange={handleScreenHoverChange}
-          currentVideoIndex={currentVideoIndex}
-          onVideoIndexChange={handleVideoIndexChange}
-        />
-        <LimitedOrbitControls limitMaxDistance={!isZooming && !showLoader} />
-      </Canvas>
+      {showLoader && <SceneLoader onLoaded={() => setShowLoader(false)} onEnterClick={() => setIsZooming(true)} autoEnter={skipIntro} />}
+      <SceneHint touchMode={touchMode} hasEntered={isZooming || !showLoader} />
+      <p id="scene-keyboard-help" className="sr-only">
+        Use Tab or the arrow keys to move between objects and Enter or Space to open one. W, A, S and D or Shift with the arrow keys orbit the camera, plus and minus zoom.
+      </p>
+      <div aria-live="polite" className="sr-only">{announcement}</div>
+      {!showLoader && !isDialogOpen && <SceneAccessibilityMirror interactiveMeshes={interactiveMeshes} clickActions={clickActions} />}
+      {!showLoader && <TerminalInput clickActions={clickActions} />}
+      {!showLoader && !isZooming && !isDialogOpen && <TourOverlay />}
+      <CreditToast isVisible={showCredit || isCreditHovered} artist={currentScreenItem?.artist} artistUrl={currentScreenItem?.artistUrl} license={currentScreenItem?.license} onMouseEnter={handleCreditMouseEnter} onMouseLeave={handleCreditMouseLeave} />
+      {/* Context creation and loss are reported where they happen, so anything caught here is the scene itself, e.g. a missing model */}
+      <ErrorBoundary fallback={null} onError={() => onWebGLFailure("scene-error")}>
+        <Canvas
+          shadows={preset.castShadows}
+          dpr={preset.dpr}
+          camera={{ position: [-12, 18, 18], fov: 70 }} // CameraDirector's intro moves it to the overview viewpoint
+          gl={createRenderer}
+        >
+          <RendererConfig onContextFailure={onWebGLFailure} />
+          <ApplyQualityPreset preset={preset} />
+          <AutoQualityMonitor enabled={qualitySetting === "auto" && !showLoader} />
+          <CameraDirector introStart={isZooming} introSpeed={skipIntro ? 2.5 : 0.8} onIntroComplete={() => setIsZooming(false)} reducedMotion={reducedMotion} />
+          <SceneContent
+            isDialogOpen={isDialogOpen}
+            isLoaderActive={showLoader}
+            clickActions={clickActions}
+            onScreenHoverChange={handleScreenHoverChange}
+            playlist={playlist}
+            currentScreenIndex={screenIndex}
+            onAnnounce={setAnnouncement}
+            onInteractiveMeshesChange={setInteractiveMeshes}
+            reducedMotion={reducedMotion}
+            touchMode={touchMode}
+            openDrawer={openDrawer}
+            drawerProjects={drawerProjects}
+            drawerProjectsStatus={drawerProjectsStatus}
+            onDrawerClose={closeDrawer}
+          />
+          <LimitedOrbitControls limitMaxDistance={!isZooming && !showLoader} touchMode={touchMode} />
+        </Canvas>
+      </ErrorBoundary>
     </div>
   );
 }
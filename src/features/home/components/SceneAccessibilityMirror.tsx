@@ -0,0 +1,72 @@
+/**
+ * Visually hidden DOM copy of the 3D scene's interactive objects for screen readers
+ * Used in: PortfolioScene, next to the Canvas
+ *
+ * Each clickable registry entry becomes a real button (or link, for URLs) that runs the same click action
+ * as clicking the object in 3D. The list appears over the scene while one of its controls has focus.
+ */
+"use client";
+
+import * as React from "react";
+import type * as THREE from "three";
+import { activateInteraction } from "../hooks/useObjectInteractions";
+import { useQualitySettings } from "../hooks/useQualitySettings";
+import { useTimeOfDay } from "../hooks/useTimeOfDay";
+import { useWeather } from "../hooks/useWeather";
+import { QUALITY_LABELS } from "../utils/qualityTiers";
+import { describeClickAction, labelEntry, type ClickActions, type HitboxMetadata } from "../utils/sceneInteractions";
+import { getClickableObjects } from "../utils/sceneObjectSetup";
+import { formatHour, isNightHour } from "../utils/timeOfDay";
+import { WEATHER_LABELS } from "../utils/weather";
+
+type SceneAccessibilityMirrorProps = {
+  interactiveMeshes: THREE.Mesh[];
+  clickActions: ClickActions;
+};
+
+export function SceneAccessibilityMirror({ interactiveMeshes, clickActions }: SceneAccessibilityMirrorProps) {
+  const { tier } = useQualitySettings();
+  const { hour } = useTimeOfDay();
+  const { weather, isAvailable: isWeatherAvailable } = useWeather();
+
+  const objects = React.useMemo(() => getClickableObjects(interactiveMeshes), [interactiveMeshes]);
+  if (objects.length === 0) return null;
+
+  const weatherDescription = isWeatherAvailable ? `${WEATHER_LABELS[weather].toLowerCase()} weather` : "weather effects off";
+  const summary = `A small island at ${formatHour(hour)} (${isNightHour(hour) ? "night" : "day"}), ${weatherDescription}, ${QUALITY_LABELS[tier].toLowerCase()} graphics quality. From left to right it holds ${objects.length} interactive objects.`;
+
+  return (
+    <nav
+      aria-label="Scene objects"
+      className="sr-only focus-within:not-sr-only focus-within:absolute focus-within:top-4 focus-within:left-4 focus-within:z-10 focus-within:border focus-within:border-foreground focus-within:bg-background focus-within:p-2"
+    >
+      <p className="mb-1 max-w-xs text-xs text-foreground/70">{summary}</p>
+      <ul className="flex flex-col gap-0.5">
+        {objects.map((mesh) => {
+          const entry = (mesh.userData.metadata as HitboxMetadata).entry;
+          const action = entry.click;
+          if (!action) return null;
+          const label = `${labelEntry(entry)}: ${describeClickAction(action)}`;
+
+          return (
+            <li key={mesh.uuid}>
+              {action.type === "openUrl" ? (
+                <a href={action.url} target="_blank" rel="noopener noreferrer" className="text-sm font-mono text-foreground hover:text-primary focus-visible:text-primary focus-visible:underline">
+                  {label}
+                </a>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => activateInteraction(mesh, clickActions)}
+                  className="cursor-pointer text-left text-sm font-mono text-foreground hover:text-primary focus-visible:text-primary focus-visible:underline"
+                >
+                  {label}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </nav>
+  );
+}
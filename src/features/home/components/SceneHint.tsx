@@ -0,0 +1,58 @@
+/**
+ * Floating controls hint over the scene, worded for touch or mouse
+ * Used in: PortfolioScene, from loading until the visitor first interacts after entering
+ */
+"use client";
+
+import * as React from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { Hand, Lightbulb } from "lucide-react";
+
+/** How long the hint stays up after entering if the visitor doesn't touch the scene */
+const HINT_DURATION_MS = 8000;
+
+type SceneHintProps = {
+  touchMode: boolean;
+  /** Starts the countdown and dismiss-on-interaction once the visitor has entered */
+  hasEntered: boolean;
+};
+
+export function SceneHint({ touchMode, hasEntered }: SceneHintProps) {
+  const [isDismissed, setIsDismissed] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!hasEntered) return;
+    const dismiss = () => setIsDismissed(true);
+    const timer = setTimeout(dismiss, HINT_DURATION_MS);
+    window.addEventListener("pointerdown", dismiss, { once: true });
+    window.addEventListener("wheel", dismiss, { once: true, passive: true });
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener("pointerdown", dismiss);
+      window.removeEventListener("wheel", dismiss);
+    };
+  }, [hasEntered]);
+
+  return (
+    <AnimatePresence>
+      {!isDismissed && (
+        <motion.div
+          className="pointer-events-none absolute bottom-24 left-1/2 z-[60] flex w-max max-w-[calc(100%-2rem)] -translate-x-1/2 items-center gap-2 text-sm text-muted-foreground animate-float"
+          style={{ fontFamily: "var(--font-mono)" }}
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.5, delay: hasEntered ? 0 : 0.3 }}
+          aria-hidden="true"
+        >
+          {touchMode ? <Hand className="h-4 w-4 shrink-0 text-primary" /> : <Lightbulb className="h-4 w-4 shrink-0 text-primary" />}
+          <span>
+            {touchMode
+              ? "Tap an object to preview it, tap again to open. Drag to look around, pinch to zoom, two fingers to pan."
+              : "Tip: Click and drag to explore!"}
+          </span>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -8,12 +8,20 @@ import * as React from "react";
 import { useProgress } from "@react-three/drei";
 import { motion } from "framer-motion";
 import { Button } from "~/features/shared/components/ui/button";
-import { Lightbulb } from "lucide-react";
 import { playSound, startAmbient } from "~/lib/sounds";
 
-type SceneLoaderProps = { onLoaded?: () => void; onEnterClick?: () => void }
+type SceneLoaderProps = {
+  onLoaded?: () => void;
+  onEnterClick?: () => void;
+  /** Enter as soon as loading finishes instead of waiting for the Enter button, e.g. for deep links */
+  autoEnter?: boolean;
+}
+
+/** Delay before the Enter button appears, or before entering automatically */
+const ENTER_DELAY_MS = 1200;
+const AUTO_ENTER_DELAY_MS = 300;
 
-export function SceneLoader({ onLoaded, onEnterClick }: SceneLoaderProps) {
+export function SceneLoader({ onLoaded, onEnterClick, autoEnter = false }: SceneLoaderProps) {
   const { progress, active } = useProgress();
   const [showEnterButton, setShowEnterButton] = React.useState(false);
   const [isHiding, setIsHiding] = React.useState(false);
@@ -27,6 +35,27 @@ export function SceneLoader({ onLoaded, onEnterClick }: SceneLoaderProps) {
     if (progress > maxProgressSeen) setMaxProgressSeen(progress);
   }, [progress, maxProgressSeen]);
 
+  /** `silent` skips the click sounds when entering without a user gesture */
+  const handleEnter = React.useCallback(({ silent = false }: { silent?: boolean } = {}) => {
+    if (isHiding) return;
+    setIsHiding(true);
+    if (!silent) {
+      playSound("click");
+      playSound("whoosh");
+    }
+    onEnterClick?.();
+
+    // Start ambient after the transition
+    setTimeout(() => {
+      startAmbient();
+    }, 200);
+
+    if (hideTimerRef.current) clearTimeout(hideTimerRef.current);
+    hideTimerRef.current = setTimeout(() => {
+      onLoaded?.();
+    }, 600);
+  }, [isHiding, onEnterClick, onLoaded]);
+
   /** Handle completion - separate effect that only runs when we reach 100% */
   React.useEffect(() => {
     const reachedHundred = (!active && progress === 100) || maxProgressSeen === 100;
@@ -36,8 +65,9 @@ export function SceneLoader({ onLoaded, onEnterClick }: SceneLoaderProps) {
       setMaxProgressSeen(100);
 
       buttonTimerRef.current = setTimeout(() => {
-        setShowEnterButton(true);
-      }, 1200);
+        if (autoEnter) handleEnter({ silent: true });
+        else setShowEnterButton(true);
+      }, autoEnter ? AUTO_ENTER_DELAY_MS : ENTER_DELAY_MS);
     }
 
     return () => {
@@ -45,25 +75,7 @@ export function SceneLoader({ onLoaded, onEnterClick }: SceneLoaderProps) {
         clearTimeout(buttonTimerRef.current);
       }
     };
-  }, [active, progress, maxProgressSeen]);
-
-  const handleEnter = () => {
-    if (isHiding) return;
-    setIsHiding(true);
-    playSound("click");
-    playSound("whoosh");
-    onEnterClick?.();
-
-    // Start ambient after the transition
-    setTimeout(() => {
-      startAmbient();
-    }, 200);
-
-    if (hideTimerRef.current) clearTimeout(hideTimerRef.current);
-    hideTimerRef.current = setTimeout(() => {
-      onLoaded?.();
-    }, 600);
-  };
+  }, [active, progress, maxProgressSeen, autoEnter, handleEnter]);
 
   const displayProgress = Math.max(maxProgressSeen, progress);
 
@@ -125,7 +137,7 @@ export function SceneLoader({ onLoaded, onEnterClick }: SceneLoaderProps) {
               }}
             >
               <Button
-                onClick={handleEnter}
+                onClick={() => handleEnter()}
                 className="px-8 py-6 text-lg font-semibold bg-primary text-primary-foreground hover:bg-primary/90 hover:scale-105 cursor-pointer"
               >
                 Enter
@@ -134,18 +146,6 @@ export function SceneLoader({ onLoaded, onEnterClick }: SceneLoaderProps) {
           </div>
         )}
       </div>
-
-      {/* Tip at bottom center with float animation */}
-      <motion.div
-        className="absolute bottom-24 left-1/2 -translate-x-1/2 flex items-center gap-2 text-sm text-muted-foreground animate-float"
-        style={{ fontFamily: "var(--font-mono)" }}
-        initial={{ opacity: 0 }}
-        animate={{ opacity: 1 }}
-        transition={{ duration: 0.5, delay: 0.3 }}
-      >
-        <Lightbulb className="h-4 w-4 text-primary" />
-        <span>Tip: Click and drag to explore!</span>
-      </motion.div>
     </motion.div>
   );
 }
@@ -0,0 +1,84 @@
+/**
+ * In-Canvas helpers for graphics quality: applying shadow changes and measuring FPS for Auto
+ * Used in: PortfolioScene
+ */
+"use client";
+
+import * as React from "react";
+import * as THREE from "three";
+import { useFrame, useThree } from "@react-three/fiber";
+import { stepDownAutoTier, type QualityPreset } from "../utils/qualityTiers";
+
+/**
+ * Lights pick up `castShadow` and `shadow-mapSize` from props, but three.js keeps the old shadow map
+ * and compiled shaders, so drop the maps and recompile materials when either changes.
+ */
+export function ApplyQualityPreset({ preset }: { preset: QualityPreset }) {
+  const { scene } = useThree();
+  const { castShadows, shadowMapSize } = preset;
+  const isFirstRun = React.useRef(true);
+
+  React.useEffect(() => {
+    // Initial values are already in place from props
+    if (isFirstRun.current) {
+      isFirstRun.current = false;
+      return;
+    }
+
+    scene.traverse((object) => {
+      const shadow = object instanceof THREE.Light ? (object as THREE.Light<THREE.LightShadow | undefined>).shadow : undefined;
+      if (shadow) {
+        shadow.map?.dispose();
+        shadow.map = null;
+      }
+      if (object instanceof THREE.Mesh) {
+        const materials = Array.isArray(object.material) ? object.material : [object.material];
+        for (const material of materials as THREE.Material[]) material.needsUpdate = true;
+      }
+    });
+  }, [scene, castShadows, shadowMapSize]);
+
+  return null;
+}
+
+/** Frames right after a tier change include shader compiles, so skip them before sampling */
+const WARMUP_SECONDS = 0.5;
+const SAMPLE_SECONDS = 3;
+const MIN_FPS = 45;
+/** Frames longer than this are tab switches or hitches, not steady-state performance */
+const MAX_FRAME_SECONDS = 0.25;
+
+/**
+ * Measures average FPS while enabled and steps Auto down a tier whenever it's below MIN_FPS,
+ * re-measuring after each step until the frame rate holds or the lowest tier is reached.
+ */
+export function AutoQualityMonitor({ enabled }: { enabled: boolean }) {
+  const sample = React.useRef({ warmup: 0, frames: 0, seconds: 0, settled: false });
+
+  React.useEffect(() => {
+    sample.current = { warmup: 0, frames: 0, seconds: 0, settled: false };
+  }, [enabled]);
+
+  useFrame((_, delta) => {
+    const current = sample.current;
+    if (!enabled || current.settled || delta > MAX_FRAME_SECONDS) return;
+
+    if (current.warmup < WARMUP_SECONDS) {
+      current.warmup += delta;
+      return;
+    }
+
+    current.frames += 1;
+    current.seconds += delta;
+    if (current.seconds < SAMPLE_SECONDS) return;
+
+    const fps = current.frames / current.seconds;
+    if (fps < MIN_FPS && stepDownAutoTier()) {
+      sample.current = { warmup: 0, frames: 0, seconds: 0, settled: false };
+    } else {
+      current.settled = true;
+    }
+  });
+
+  return null;
+}
@@ -0,0 +1,97 @@
+/**
+ * Hidden text input that feeds keystrokes to the in-scene computer terminal
+ * Used in: PortfolioScene, next to the Canvas
+ *
+ * A real input means typing works with any keyboard layout, IME or on-screen keyboard, and screen readers
+ * hear the command line and the output through the live region.
+ */
+"use client";
+
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useTRPC } from "~/trpc/react";
+import { useTerminal } from "../hooks/useTerminal";
+import { type ClickActions } from "../utils/sceneInteractions";
+import {
+  appendTerminalLines,
+  clearTerminal,
+  exitTerminal,
+  recordTerminalCommand,
+  setTerminalFocused,
+  setTerminalInput,
+} from "../utils/terminal";
+import { runTerminalCommand } from "../utils/terminalCommands";
+
+type TerminalInputProps = {
+  clickActions: ClickActions;
+};
+
+export function TerminalInput({ clickActions }: TerminalInputProps) {
+  const trpc = useTRPC();
+  const { data: projects = [] } = useQuery(trpc.project.list.queryOptions());
+  const terminal = useTerminal();
+  const inputRef = React.useRef<HTMLInputElement>(null);
+  // Position in the command history while recalling with the arrow keys; null while editing a new line
+  const [historyIndex, setHistoryIndex] = React.useState<number | null>(null);
+  const [lastOutput, setLastOutput] = React.useState("");
+
+  React.useEffect(() => {
+    if (terminal.focused) inputRef.current?.focus();
+    else inputRef.current?.blur();
+  }, [terminal.focused]);
+
+  const recall = (direction: -1 | 1) => {
+    const { history } = terminal;
+    if (history.length === 0) return;
+    const current = historyIndex ?? history.length;
+    const next = Math.min(history.length, Math.max(0, current + direction));
+    setHistoryIndex(next === history.length ? null : next);
+    setTerminalInput(history[next] ?? "");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      const command = terminal.input;
+      recordTerminalCommand(command);
+      setHistoryIndex(null);
+
+      const result = runTerminalCommand(command, { projects, actions: clickActions });
+      appendTerminalLines(result.output);
+      setLastOutput(result.output.map((line) => line.text).join("\n"));
+      if (result.effect === "clear") clearTerminal();
+      if (result.effect === "exit") exitTerminal();
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      recall(-1);
+    } else if (e.key === "ArrowDown") {
+      e.preventDefault();
+      recall(1);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      exitTerminal();
+    }
+  };
+
+  if (terminal.mode !== "terminal") return null;
+
+  return (
+    <div className="sr-only">
+      <input
+        ref={inputRef}
+        type="text"
+        aria-label="Computer terminal. Type help and press Enter for commands, Escape to leave."
+        autoComplete="off"
+        autoCapitalize="off"
+        autoCorrect="off"
+        spellCheck={false}
+        value={terminal.input}
+        onChange={(e) => setTerminalInput(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setTerminalFocused(true)}
+        onBlur={() => setTerminalFocused(false)}
+      />
+      <div aria-live="polite">{lastOutput}</div>
+    </div>
+  );
+}
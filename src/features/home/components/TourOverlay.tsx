@@ -0,0 +1,73 @@
+/**
+ * Guided tour captions and camera bookmark buttons over the 3D scene
+ * Used in: PortfolioScene once the visitor has entered
+ */
+"use client";
+
+import * as React from "react";
+import { ChevronLeft, ChevronRight, Route, X } from "lucide-react";
+import { Button } from "~/features/shared/components/ui/button";
+import { playSound } from "~/lib/sounds";
+import { useCameraDirector } from "../hooks/useCameraDirector";
+import { CAMERA_VIEWPOINTS, TOUR_STOPS, VIEWPOINT_NAMES } from "../utils/cameraDirector";
+
+export function TourOverlay() {
+  const { tourStop, flyTo, startTour, stopTour, stepTour } = useCameraDirector();
+  const stop = tourStop === null ? undefined : TOUR_STOPS[tourStop];
+
+  if (stop && tourStop !== null) {
+    return (
+      <div className="absolute bottom-4 left-1/2 z-10 w-[min(28rem,calc(100%-2rem))] -translate-x-1/2 border border-foreground bg-background">
+        <div className="bg-primary px-2 py-0.5 flex items-center justify-between gap-2">
+          <span className="text-[10px] text-white font-medium">
+            Tour · {tourStop + 1} of {TOUR_STOPS.length}
+          </span>
+          <button
+            type="button"
+            onClick={() => { playSound("click"); stopTour(); }}
+            className="text-white cursor-pointer"
+            aria-label="End tour"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+        <p className="px-3 py-2 text-sm text-foreground" aria-live="polite">{stop.caption}</p>
+        <div className="flex justify-between px-2 pb-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => { playSound("click"); stepTour(-1); }}
+            disabled={tourStop === 0}
+            className="cursor-pointer"
+          >
+            <ChevronLeft /> Back
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => { playSound("click"); stepTour(1); }} className="cursor-pointer">
+            {tourStop === TOUR_STOPS.length - 1 ? "Finish" : "Next"} <ChevronRight />
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="absolute bottom-4 left-4 z-10 flex flex-wrap items-center gap-1 opacity-70 hover:opacity-100 transition-opacity">
+      <Button variant="outline" size="sm" onClick={() => { playSound("click"); startTour(); }} className="cursor-pointer">
+        <Route /> Take the tour
+      </Button>
+      <div role="group" aria-label="Camera viewpoints" className="flex gap-1">
+        {VIEWPOINT_NAMES.map((name) => (
+          <Button
+            key={name}
+            variant="ghost"
+            size="sm"
+            onClick={() => { playSound("click"); void flyTo(name); }}
+            className="hover:bg-accent/10 cursor-pointer"
+          >
+            {CAMERA_VIEWPOINTS[name].label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 /**
  * Video screen component for the computer model
- * Handles video texture loading, playback, and fade transitions between videos
+ * Handles video and image texture loading, playback, and fade transitions between playlist items,
+ * and hands the screen over to the terminal while it's open
  */
 "use client";
 
@@ -8,24 +9,19 @@ import * as React from "react";
 import { useFrame } from "@react-three/fiber";
 import { useVideoTexture } from "@react-three/drei";
 import * as THREE from "three";
+import { type ScreenItem } from "~/types/screen";
+import { useTerminal } from "../hooks/useTerminal";
+import { useTerminalTexture } from "../hooks/useTerminalTexture";
+import { loadScreenImage, type ScreenImage } from "../utils/screenMedia";
 
-/** Video metadata with artist credits */
-export type VideoCredit = {
+type TextureLoaderProps = {
   src: string;
-  artist?: string;
-  artistUrl?: string;
+  isActive: boolean;
+  onTextureReady: (texture: THREE.Texture) => void;
 };
 
-/** Video sources for computer screen - add more videos here */
-const SCREEN_VIDEOS: VideoCredit[] = [
-  { src: "/Sad Get Well GIF.mp4" },
-  { src: "/Coffee Break.mp4", artist: "PixelJeff", artistUrl: "https://www.deviantart.com/pixeljeff" },
-  { src: "/Citypunk 2011 and Love Punch.mp4", artist: "PixelJeff", artistUrl: "https://www.deviantart.com/pixeljeff" },
-  { src: "/Almost There.mp4", artist: "PixelJeff", artistUrl: "https://www.deviantart.com/pixeljeff" },
-];
-
 /** Loads a video texture and manages playback based on active state */
-function VideoTextureLoader({ src, isActive, onTextureReady }: { src: string; isActive: boolean; onTextureReady: (texture: THREE.VideoTexture) => void }) {
+function VideoTextureLoader({ src, isActive, onTextureReady }: TextureLoaderProps) {
   const texture = useVideoTexture(src, { muted: true, loop: true, start: isActive });
 
   React.useEffect(() => {
@@ -40,19 +36,58 @@ function VideoTextureLoader({ src, isActive, onTextureReady }: { src: string; is
   return null;
 }
 
+/** Loads a still or animated image texture; animated ones only play while active */
+function ImageTextureLoader({ src, isActive, onTextureReady }: TextureLoaderProps) {
+  const [image, setImage] = React.useState<ScreenImage | null>(null);
+
+  React.useEffect(() => {
+    let loaded: ScreenImage | null = null;
+    let cancelled = false;
+    loadScreenImage(src)
+      .then((result) => {
+        if (cancelled) {
+          result.dispose();
+          return;
+        }
+        loaded = result;
+        setImage(result);
+      })
+      .catch(() => { /* A missing image leaves the screen on the previous item */ });
+
+    return () => {
+      cancelled = true;
+      loaded?.dispose();
+    };
+  }, [src]);
+
+  useFrame((_, delta) => {
+    if (isActive) image?.advance(delta);
+  });
+
+  React.useEffect(() => {
+    if (isActive && image) onTextureReady(image.texture);
+  }, [isActive, image, onTextureReady]);
+
+  return null;
+}
+
 type VideoScreenProps = {
   computerScene: THREE.Group;
-  currentVideoIndex: number;
+  playlist: ScreenItem[];
+  currentIndex: number;
 };
 
-/** Applies video texture to computer screen mesh, cycling through videos on click */
-export function VideoScreen({ computerScene, currentVideoIndex }: VideoScreenProps) {
-  const [activeTexture, setActiveTexture] = React.useState<THREE.VideoTexture | null>(null);
-  const [pendingTexture, setPendingTexture] = React.useState<THREE.VideoTexture | null>(null);
+/** Applies the current playlist item to the computer screen mesh, fading between items */
+export function VideoScreen({ computerScene, playlist, currentIndex }: VideoScreenProps) {
+  const [activeTexture, setActiveTexture] = React.useState<THREE.Texture | null>(null);
+  const [pendingTexture, setPendingTexture] = React.useState<THREE.Texture | null>(null);
   const materialRef = React.useRef<THREE.MeshStandardMaterial | null>(null);
   const fadeState = React.useRef<"idle" | "fading-out" | "fading-in">("idle");
   const fadeBrightness = React.useRef(1);
-  const prevVideoIndex = React.useRef(currentVideoIndex);
+  const prevIndex = React.useRef(currentIndex);
+  const terminal = useTerminal();
+  const showTerminal = terminal.mode === "terminal";
+  const terminalTexture = useTerminalTexture(terminal, showTerminal);
 
   // Find screen mesh and setup material
   React.useEffect(() => {
@@ -85,19 +120,30 @@ export function VideoScreen({ computerScene, currentVideoIndex }: VideoScreenPro
     screenMesh.material = materialRef.current;
   }, [computerScene]);
 
-  // Handle fade transition when video index changes
+  // Handle fade transition when the playlist moves on
   React.useEffect(() => {
-    if (prevVideoIndex.current !== currentVideoIndex && activeTexture) {
+    if (prevIndex.current !== currentIndex && activeTexture) {
       fadeState.current = "fading-out";
-      prevVideoIndex.current = currentVideoIndex;
+      prevIndex.current = currentIndex;
     }
-  }, [currentVideoIndex, activeTexture]);
+  }, [currentIndex, activeTexture]);
 
   // Animate fade using useFrame - fades to black instead of transparent
   useFrame((_, delta) => {
     if (!materialRef.current) return;
     const fadeSpeed = 8; // Higher = faster fade
 
+    // The playlist keeps moving behind the terminal; swap straight away since nothing is visible to fade
+    if (showTerminal) {
+      if (pendingTexture) {
+        setActiveTexture(pendingTexture);
+        setPendingTexture(null);
+      }
+      fadeState.current = "idle";
+      fadeBrightness.current = 1;
+      return;
+    }
+
     if (fadeState.current === "fading-out") {
       fadeBrightness.current -= delta * fadeSpeed;
       if (fadeBrightness.current <= 0) {
@@ -122,15 +168,20 @@ export function VideoScreen({ computerScene, currentVideoIndex }: VideoScreenPro
     }
   });
 
-  // Update texture when active video changes
+  // Update texture when the active item changes or the terminal opens or closes
   React.useEffect(() => {
-    if (materialRef.current && activeTexture && fadeState.current === "idle") {
-      materialRef.current.map = activeTexture;
-      materialRef.current.needsUpdate = true;
+    const material = materialRef.current;
+    if (!material) return;
+    if (showTerminal) {
+      material.map = terminalTexture;
+      material.color.setRGB(1, 1, 1);
+    } else if (activeTexture && fadeState.current === "idle") {
+      material.map = activeTexture;
     }
-  }, [activeTexture]);
+    material.needsUpdate = true;
+  }, [activeTexture, showTerminal, terminalTexture]);
 
-  const handleTextureReady = React.useCallback((texture: THREE.VideoTexture) => {
+  const handleTextureReady = React.useCallback((texture: THREE.Texture) => {
     if (fadeState.current === "idle" && !activeTexture) {
       // First texture load - set directly
       setActiveTexture(texture);
@@ -142,17 +193,10 @@ export function VideoScreen({ computerScene, currentVideoIndex }: VideoScreenPro
 
   return (
     <>
-      {SCREEN_VIDEOS.map((video, index) => (
-        <VideoTextureLoader key={video.src} src={video.src} isActive={index === currentVideoIndex} onTextureReady={handleTextureReady} />
-      ))}
+      {playlist.map((item, index) => {
+        const Loader = item.kind === "VIDEO" ? VideoTextureLoader : ImageTextureLoader;
+        return <Loader key={item.id} src={item.src} isActive={index === currentIndex} onTextureReady={handleTextureReady} />;
+      })}
     </>
   );
 }
-
-/** Number of videos available */
-export const VIDEO_COUNT = SCREEN_VIDEOS.length;
-
-/** Get credit info for a video by index */
-export function getVideoCredit(index: number): VideoCredit | null {
-  return SCREEN_VIDEOS[index] ?? null;
-}
@@ -0,0 +1,199 @@
+/**
+ * Weather effects for the island: GPU particle layers, fog density and the matching ambience sound
+ * Used in: PortfolioScene's SceneContent
+ *
+ * Particles are animated entirely in the vertex shader from a time uniform, so a layer costs one draw call
+ * and no per-frame buffer uploads. Layers, fog and sound all ease between states instead of switching.
+ */
+"use client";
+
+import * as React from "react";
+import { useFrame, useThree } from "@react-three/fiber";
+import * as THREE from "three";
+import { setWeatherAmbience } from "~/lib/sounds";
+import { WEATHER_PRESETS, type ParticleKind, type WeatherState } from "../utils/weather";
+
+/** How quickly fog and particle opacity approach a new weather state (THREE.MathUtils.damp lambda) */
+const TRANSITION_RATE = 0.8;
+/** Horizontal extent of the particle volume around the island centre */
+const PARTICLE_AREA = 30;
+
+type ParticleSettings = {
+  /** Particle count at the high quality tier */
+  count: number;
+  color: string;
+  size: number;
+  fallSpeed: number;
+  sway: number;
+  minY: number;
+  height: number;
+  /** 0 = vertical streak, 1 = soft dot, 2 = blinking glow */
+  shape: 0 | 1 | 2;
+  additive: boolean;
+};
+
+const PARTICLE_SETTINGS: Record<ParticleKind, ParticleSettings> = {
+  rain: { count: 1500, color: "#a9b8c9", size: 0.35, fallSpeed: 9, sway: 0, minY: 0, height: 16, shape: 0, additive: false },
+  snow: { count: 900, color: "#ffffff", size: 0.12, fallSpeed: 0.8, sway: 0.6, minY: 0, height: 16, shape: 1, additive: false },
+  fireflies: { count: 60, color: "#ffe27a", size: 0.2, fallSpeed: 0, sway: 0.9, minY: 1.2, height: 3, shape: 2, additive: true },
+};
+
+const PARTICLE_VERTEX_SHADER = /* glsl */ `
+  uniform float uTime;
+  uniform float uFallSpeed;
+  uniform float uSway;
+  uniform float uSize;
+  uniform float uMinY;
+  uniform float uHeight;
+  uniform float uPixelRatio;
+  attribute float aSeed;
+  varying float vSeed;
+
+  void main() {
+    vec3 p = position;
+    // Fall and wrap back to the top of the volume; the seed varies speed so drops don't move in sheets
+    p.y = uMinY + mod(p.y - uMinY - uTime * uFallSpeed * (0.8 + aSeed * 0.4), uHeight);
+    p.x += sin(uTime * 0.7 + aSeed * 6.2831) * uSway;
+    p.z += cos(uTime * 0.5 + aSeed * 6.2831) * uSway;
+
+    vec4 mvPosition = modelViewMatrix * vec4(p, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+    gl_PointSize = uSize * uPixelRatio * (300.0 / -mvPosition.z);
+    vSeed = aSeed;
+  }
+`;
+
+const PARTICLE_FRAGMENT_SHADER = /* glsl */ `
+  uniform vec3 uColor;
+  uniform float uOpacity;
+  uniform float uTime;
+  uniform int uShape;
+  varying float vSeed;
+
+  void main() {
+    vec2 c = gl_PointCoord - 0.5;
+    float alpha;
+    if (uShape == 0) {
+      alpha = (1.0 - smoothstep(0.0, 0.06, abs(c.x))) * (1.0 - smoothstep(0.25, 0.5, abs(c.y)));
+    } else {
+      alpha = 1.0 - smoothstep(0.1, 0.5, length(c));
+    }
+    if (uShape == 2) alpha *= 0.5 + 0.5 * sin(uTime * 2.5 + vSeed * 40.0);
+
+    alpha *= uOpacity;
+    if (alpha < 0.01) discard;
+    gl_FragColor = vec4(uColor, alpha);
+  }
+`;
+
+/** One particle layer that fades in while its weather is active and out afterwards */
+function WeatherParticles({ kind, count, active }: { kind: ParticleKind; count: number; active: boolean }) {
+  const { gl } = useThree();
+  const pointsRef = React.useRef<THREE.Points>(null);
+  const settings = PARTICLE_SETTINGS[kind];
+
+  const { geometry, material } = React.useMemo(() => {
+    const positions = new Float32Array(count * 3);
+    const seeds = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+      positions[i * 3] = (Math.random() - 0.5) * PARTICLE_AREA;
+      positions[i * 3 + 1] = settings.minY + Math.random() * settings.height;
+      positions[i * 3 + 2] = (Math.random() - 0.5) * PARTICLE_AREA;
+      seeds[i] = Math.random();
+    }
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute("aSeed", new THREE.BufferAttribute(seeds, 1));
+
+    const material = new THREE.ShaderMaterial({
+      vertexShader: PARTICLE_VERTEX_SHADER,
+      fragmentShader: PARTICLE_FRAGMENT_SHADER,
+      uniforms: {
+        uTime: { value: 0 },
+        uFallSpeed: { value: settings.fallSpeed },
+        uSway: { value: settings.sway },
+        uSize: { value: settings.size },
+        uMinY: { value: settings.minY },
+        uHeight: { value: settings.height },
+        uPixelRatio: { value: 1 },
+        uColor: { value: new THREE.Color(settings.color) },
+        uOpacity: { value: 0 },
+        uShape: { value: settings.shape },
+      },
+      transparent: true,
+      depthWrite: false,
+      blending: settings.additive ? THREE.AdditiveBlending : THREE.NormalBlending,
+    });
+    return { geometry, material };
+  }, [count, settings]);
+
+  React.useEffect(() => {
+    return () => {
+      geometry.dispose();
+      material.dispose();
+    };
+  }, [geometry, material]);
+
+  useFrame((_, delta) => {
+    const uniforms = material.uniforms as Record<string, THREE.IUniform<number>>;
+    if (!uniforms.uTime || !uniforms.uOpacity || !uniforms.uPixelRatio) return;
+
+    uniforms.uTime.value += delta;
+    uniforms.uPixelRatio.value = gl.getPixelRatio();
+    uniforms.uOpacity.value = THREE.MathUtils.damp(uniforms.uOpacity.value, active ? 1 : 0, TRANSITION_RATE, delta);
+    if (pointsRef.current) pointsRef.current.visible = uniforms.uOpacity.value > 0.01;
+  });
+
+  // Particles move in the shader, so the geometry's bounds don't describe where they are
+  return <points ref={pointsRef} geometry={geometry} material={material} frustumCulled={false} />;
+}
+
+type WeatherSystemProps = {
+  weather: WeatherState;
+  /** Quality tier multiplier on particle counts; 0 renders no particles */
+  particleScale: number;
+  /** Fog density from the time of day, which the weather scales */
+  baseFogDensity: number;
+};
+
+export function WeatherSystem({ weather, particleScale, baseFogDensity }: WeatherSystemProps) {
+  const { scene } = useThree();
+  const preset = WEATHER_PRESETS[weather];
+  const fogScaleRef = React.useRef(preset.fogDensityScale);
+  // Layers are created the first time their weather shows up, then kept so they can fade out
+  const [usedKinds, setUsedKinds] = React.useState<ParticleKind[]>([]);
+
+  React.useEffect(() => {
+    const kind = preset.particles;
+    if (kind) setUsedKinds((kinds) => (kinds.includes(kind) ? kinds : [...kinds, kind]));
+  }, [preset.particles]);
+
+  React.useEffect(() => {
+    setWeatherAmbience(preset.ambience);
+  }, [preset.ambience]);
+
+  React.useEffect(() => {
+    return () => setWeatherAmbience(null);
+  }, []);
+
+  /** DayNightLighting sets the base density when the sky changes; rescale it every frame so weather eases in */
+  useFrame((_, delta) => {
+    fogScaleRef.current = THREE.MathUtils.damp(fogScaleRef.current, preset.fogDensityScale, TRANSITION_RATE, delta);
+    if (scene.fog instanceof THREE.FogExp2) scene.fog.density = baseFogDensity * fogScaleRef.current;
+  });
+
+  if (particleScale <= 0) return null;
+
+  return (
+    <>
+      {usedKinds.map((kind) => (
+        <WeatherParticles
+          key={kind}
+          kind={kind}
+          count={Math.round(PARTICLE_SETTINGS[kind].count * particleScale)}
+          active={preset.particles === kind}
+        />
+      ))}
+    </>
+  );
+}
@@ -7,6 +7,22 @@
  * Original code: MIT License - Copyright (c) 2023 Ebenezer
  */
 import * as THREE from "three";
+import { GRASS_COLOR_PALETTES, type GrassColors } from "../utils/grassColors";
+
+/** Size of the interaction point array compiled into the shader; lower quality tiers fill fewer slots */
+export const GRASS_MAX_INTERACTION_POINTS = 8;
+
+/** Tuning for how blades are pushed away from interaction points and spring back */
+export interface GrassInteractionParams {
+	/** World-space radius a point affects */
+	radius: number;
+	/** Maximum sideways push at the blade tip */
+	strength: number;
+	/** How quickly the spring-back settles, per second */
+	springDamping: number;
+	/** Oscillation speed of the spring-back, radians per second */
+	springFrequency: number;
+}
 
 interface GrassUniformsInterface {
 	uTime?: { value: number };
@@ -19,35 +35,34 @@ interface GrassUniformsInterface {
 	tipColor2?: { value: THREE.Color };
 	noiseTexture?: { value: THREE.Texture };
 	grassAlphaTexture?: { value: THREE.Texture };
+	uInteractionRadius?: { value: number };
+	uInteractionStrength?: { value: number };
+	uSpringDamping?: { value: number };
+	uSpringFrequency?: { value: number };
 }
 
 export class GrassMaterial {
 	material: THREE.Material;
 
-	private grassColorProps = {
-		light: {
-			baseColor: "#232e13",
-			tipColor1: "#9bd38d",
-			tipColor2: "#1f352a",
-		},
-		dark: {
-			baseColor: "#1a2310",
-			tipColor1: "#587a52",
-			tipColor2: "#152218",
-		},
-	};
-
 	uniforms: Record<string, { value: unknown }> = {
 		uTime: { value: 0 },
 		uEnableShadows: { value: true },
 		uShadowDarkness: { value: 0.5 },
 		uGrassLightIntensity: { value: 1 },
 		uNoiseScale: { value: 4.0 },
-		baseColor: { value: new THREE.Color(this.grassColorProps.light.baseColor) },
-		tipColor1: { value: new THREE.Color(this.grassColorProps.light.tipColor1) },
-		tipColor2: { value: new THREE.Color(this.grassColorProps.light.tipColor2) },
+		baseColor: { value: new THREE.Color(GRASS_COLOR_PALETTES.light.baseColor) },
+		tipColor1: { value: new THREE.Color(GRASS_COLOR_PALETTES.light.tipColor1) },
+		tipColor2: { value: new THREE.Color(GRASS_COLOR_PALETTES.light.tipColor2) },
 		noiseTexture: { value: new THREE.Texture() },
 		grassAlphaTexture: { value: new THREE.Texture() },
+		// xz = world position, y unused, w = age in seconds (negative marks an empty slot)
+		uInteractionPoints: { value: Array.from({ length: GRASS_MAX_INTERACTION_POINTS }, () => new THREE.Vector4(0, 0, 0, -1)) },
+		uInteractionRadius: { value: 0.9 },
+		uInteractionStrength: { value: 0.35 },
+		uSpringDamping: { value: 2.5 },
+		uSpringFrequency: { value: 7.0 },
+		uWindAmp: { value: 0.1 },
+		uWindPhase: { value: 0 },
 	};
 
 	/**
@@ -84,7 +99,11 @@ export class GrassMaterial {
 	}
 
 	public setDarkMode(isDark: boolean) {
-		const colors = isDark ? this.grassColorProps.dark : this.grassColorProps.light;
+		this.setColors(isDark ? GRASS_COLOR_PALETTES.dark : GRASS_COLOR_PALETTES.light);
+	}
+
+	/** Sets the blade gradient directly, for lighting that isn't just light or dark */
+	public setColors(colors: GrassColors) {
 		const baseUniform = this.uniforms.baseColor;
 		const tip1Uniform = this.uniforms.tipColor1;
 		const tip2Uniform = this.uniforms.tipColor2;
@@ -93,6 +112,39 @@ export class GrassMaterial {
 		if (tip2Uniform) (tip2Uniform.value as THREE.Color).set(colors.tipColor2);
 	}
 
+	/** Updates bending tuning; omitted fields keep their current values */
+	public setInteractionParams(params: Partial<GrassInteractionParams>) {
+		const mapping: Record<keyof GrassInteractionParams, string> = {
+			radius: "uInteractionRadius",
+			strength: "uInteractionStrength",
+			springDamping: "uSpringDamping",
+			springFrequency: "uSpringFrequency",
+		};
+		for (const [key, value] of Object.entries(params) as [keyof GrassInteractionParams, number | undefined][]) {
+			const uniform = this.uniforms[mapping[key]];
+			if (uniform && value !== undefined) uniform.value = value;
+		}
+	}
+
+	/** Copies trail points into the shader, clearing unused slots; extra points beyond the array size are ignored */
+	public setInteractionPoints(points: ReadonlyArray<{ x: number; z: number; age: number }>) {
+		const slots = this.uniforms.uInteractionPoints?.value as THREE.Vector4[] | undefined;
+		if (!slots) return;
+		slots.forEach((slot, index) => {
+			const point = points[index];
+			if (point) slot.set(point.x, 0, point.z, point.age);
+			else slot.w = -1;
+		});
+	}
+
+	/** Sets wind sway; the caller accumulates the phase so changing wind speed doesn't make blades jump */
+	public setWind(amplitude: number, phase: number) {
+		const ampUniform = this.uniforms.uWindAmp;
+		const phaseUniform = this.uniforms.uWindPhase;
+		if (ampUniform) ampUniform.value = amplitude;
+		if (phaseUniform) phaseUniform.value = phase;
+	}
+
 	update(delta: number) {
 		const timeUniform = this.uniforms.uTime;
 		if (timeUniform) {
@@ -116,6 +168,13 @@ export class GrassMaterial {
 				uNoiseScale: this.uniforms.uNoiseScale as THREE.IUniform,
 				uNoiseTexture: this.uniforms.noiseTexture as THREE.IUniform,
 				uGrassAlphaTexture: this.uniforms.grassAlphaTexture as THREE.IUniform,
+				uInteractionPoints: this.uniforms.uInteractionPoints as THREE.IUniform,
+				uInteractionRadius: this.uniforms.uInteractionRadius as THREE.IUniform,
+				uInteractionStrength: this.uniforms.uInteractionStrength as THREE.IUniform,
+				uSpringDamping: this.uniforms.uSpringDamping as THREE.IUniform,
+				uSpringFrequency: this.uniforms.uSpringFrequency as THREE.IUniform,
+				uWindAmp: this.uniforms.uWindAmp as THREE.IUniform,
+				uWindPhase: this.uniforms.uWindPhase as THREE.IUniform,
 			};
 
 			shader.vertexShader = `
@@ -127,6 +186,16 @@ export class GrassMaterial {
       uniform sampler2D uNoiseTexture;
       uniform float uNoiseScale;
       uniform float uTime;
+      uniform float uWindAmp;
+      uniform float uWindPhase;
+
+      // interaction
+      #define MAX_INTERACTION_POINTS ${GRASS_MAX_INTERACTION_POINTS}
+      uniform vec4 uInteractionPoints[MAX_INTERACTION_POINTS];
+      uniform float uInteractionRadius;
+      uniform float uInteractionStrength;
+      uniform float uSpringDamping;
+      uniform float uSpringFrequency;
       
       varying vec3 vColor;
       varying vec2 vGlobalUV;
@@ -143,9 +212,7 @@ export class GrassMaterial {
 
         // wind effect
         vec2 uWindDirection = vec2(1.0,1.0);
-        float uWindAmp = 0.1;
         float uWindFreq = 50.;
-        float uSpeed = 1.0;
         float uNoiseFactor = 5.50;
         float uNoiseSpeed = 0.001;
 
@@ -157,13 +224,27 @@ export class GrassMaterial {
 
         vec4 noise = texture2D(uNoiseTexture,vGlobalUV+uTime*uNoiseSpeed);
 
-        float sinWave = sin(uWindFreq*dot(windDirection, vGlobalUV) + noise.g*uNoiseFactor + uTime * uSpeed) * uWindAmp * (1.-uv.y);
+        float sinWave = sin(uWindFreq*dot(windDirection, vGlobalUV) + noise.g*uNoiseFactor + uWindPhase) * uWindAmp * (1.-uv.y);
 
         float xDisp = sinWave;
         float zDisp = sinWave;
         modelPosition.x += xDisp;
         modelPosition.z += zDisp;
 
+        // interaction: push blades away from trail points, springing back as each point ages
+        vec2 push = vec2(0.0);
+        for (int i = 0; i < MAX_INTERACTION_POINTS; i++) {
+          vec4 point = uInteractionPoints[i];
+          if (point.w < 0.0) continue;
+          vec2 away = modelPosition.xz - point.xz;
+          float falloff = 1.0 - smoothstep(0.0, uInteractionRadius, length(away));
+          float spring = exp(-point.w * uSpringDamping) * cos(point.w * uSpringFrequency);
+          push += normalize(away + vec2(1e-4)) * falloff * spring;
+        }
+        float tipWeight = 1. - uv.y;
+        modelPosition.xz += push * uInteractionStrength * tipWeight;
+        modelPosition.y -= min(length(push), 1.0) * uInteractionStrength * 0.5 * tipWeight;
+
         // use perlinNoise to vary the terrainHeight of the grass
         modelPosition.y += exp(texture2D(uNoiseTexture,vGlobalUV * uNoiseScale).r) * 0.5 * (1.-uv.y);
 
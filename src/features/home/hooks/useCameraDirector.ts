@@ -0,0 +1,30 @@
+/**
+ * Reads the camera director's tour progress and fly-to-section preference
+ * Used in: CameraDirector, TourOverlay, GraphicsSettings and PortfolioHome
+ */
+"use client";
+
+import * as React from "react";
+import {
+  flyTo,
+  getCameraDirectorState,
+  getServerCameraDirectorState,
+  setFlyToSections,
+  startTour,
+  stepTour,
+  stopTour,
+  subscribeCameraDirector,
+} from "../utils/cameraDirector";
+
+export function useCameraDirector() {
+  const state = React.useSyncExternalStore(subscribeCameraDirector, getCameraDirectorState, getServerCameraDirectorState);
+
+  return {
+    ...state,
+    flyTo,
+    startTour,
+    stopTour,
+    stepTour,
+    setFlyToSections,
+  };
+}
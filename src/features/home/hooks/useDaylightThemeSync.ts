@@ -0,0 +1,28 @@
+/**
+ * Switches the site theme at dawn and dusk when the visitor has opted in
+ * Used in: PortfolioHome
+ */
+"use client";
+
+import * as React from "react";
+import { useTheme } from "next-themes";
+import { isNightHour } from "../utils/timeOfDay";
+import { useTimeOfDay } from "./useTimeOfDay";
+
+export function useDaylightThemeSync() {
+  const { hour, syncTheme } = useTimeOfDay();
+  const { setTheme } = useTheme();
+  const isNight = isNightHour(hour);
+  const lastPhaseRef = React.useRef<boolean | null>(null);
+
+  React.useEffect(() => {
+    if (!syncTheme) {
+      lastPhaseRef.current = null;
+      return;
+    }
+    // Only act when the phase flips (or sync is switched on), so a manual theme toggle mid-day sticks
+    if (lastPhaseRef.current === isNight) return;
+    lastPhaseRef.current = isNight;
+    setTheme(isNight ? "dark" : "light");
+  }, [syncTheme, isNight, setTheme]);
+}
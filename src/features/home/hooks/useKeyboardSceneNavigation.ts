@@ -0,0 +1,172 @@
+/**
+ * Keyboard focus model for the 3D scene: cycles focus over clickable objects, activates them, and orbits the camera
+ * Used in: PortfolioScene's SceneContent, with the focused mesh fed to useObjectInteractions for hover effects
+ *
+ * The canvas itself takes focus. Tab and the arrow keys move between objects (Tab past either end leaves the
+ * scene so keyboard users aren't trapped), Enter/Space activate, W A S D or Shift+arrows orbit and +/- zoom.
+ */
+
+import * as React from "react";
+import { useThree } from "@react-three/fiber";
+import * as THREE from "three";
+import { describeClickAction, labelEntry, type HitboxMetadata } from "../utils/sceneInteractions";
+import { getClickableObjects } from "../utils/sceneObjectSetup";
+
+const ORBIT_STEP = 0.12;
+const ZOOM_STEP = 0.9;
+/** Keeps the camera off the poles, matching OrbitControls' own clamp */
+const POLAR_EPSILON = 0.05;
+
+type OrbitControlsLike = {
+  target: THREE.Vector3;
+  minDistance: number;
+  maxDistance: number;
+  minPolarAngle: number;
+  maxPolarAngle: number;
+  update: () => void;
+};
+
+/** The scene's controls are whatever was made default, so check for the orbit API rather than trusting the type */
+function isOrbitControls(controls: THREE.EventDispatcher | null): controls is THREE.EventDispatcher & OrbitControlsLike {
+  return !!controls && "target" in controls && "update" in controls;
+}
+
+interface UseKeyboardSceneNavigationOptions {
+  interactiveMeshes: THREE.Mesh[];
+  enabled: boolean;
+  onActivate: (mesh: THREE.Mesh) => void;
+  /** Text for the ARIA live region whenever focus moves */
+  onAnnounce: (message: string) => void;
+}
+
+function getMetadata(mesh: THREE.Object3D): HitboxMetadata | undefined {
+  return mesh.userData.metadata as HitboxMetadata | undefined;
+}
+
+/** Announcement for a focused object, e.g. "Software drawer, 3 of 9. Press Enter to open software projects." */
+export function describeFocus(mesh: THREE.Mesh, index: number, total: number): string {
+  const entry = getMetadata(mesh)?.entry;
+  if (!entry) return "";
+  const action = entry.click ? ` Press Enter to ${describeClickAction(entry.click)}.` : "";
+  return `${labelEntry(entry)}, ${index + 1} of ${total}.${action}`;
+}
+
+export function useKeyboardSceneNavigation({ interactiveMeshes, enabled, onActivate, onAnnounce }: UseKeyboardSceneNavigationOptions) {
+  const { gl, camera, controls } = useThree();
+  const [focusedIndex, setFocusedIndex] = React.useState<number | null>(null);
+
+  const focusables = React.useMemo(() => getClickableObjects(interactiveMeshes), [interactiveMeshes]);
+
+  const focusedMesh = enabled && focusedIndex !== null ? (focusables[focusedIndex] ?? null) : null;
+
+  React.useEffect(() => {
+    if (focusedMesh && focusedIndex !== null) onAnnounce(describeFocus(focusedMesh, focusedIndex, focusables.length));
+  }, [focusedMesh, focusedIndex, focusables.length, onAnnounce]);
+
+  /** Make the canvas a focus stop that screen readers describe */
+  React.useEffect(() => {
+    const canvas = gl.domElement;
+    canvas.tabIndex = 0;
+    canvas.setAttribute("role", "application");
+    canvas.setAttribute("aria-roledescription", "3D scene");
+    canvas.setAttribute("aria-label", "Interactive portfolio island");
+    canvas.setAttribute("aria-describedby", "scene-keyboard-help");
+  }, [gl]);
+
+  React.useEffect(() => {
+    if (!enabled) return;
+    const canvas = gl.domElement;
+    const orbit = isOrbitControls(controls) ? controls : null;
+
+    const moveFocus = (direction: 1 | -1, wrap: boolean): boolean => {
+      if (focusables.length === 0) return false;
+      const current = focusedIndex ?? (direction === 1 ? -1 : focusables.length);
+      let next = current + direction;
+      if (next < 0 || next >= focusables.length) {
+        if (!wrap) return false;
+        next = (next + focusables.length) % focusables.length;
+      }
+      setFocusedIndex(next);
+      return true;
+    };
+
+    const orbitCamera = (deltaTheta: number, deltaPhi: number, zoom: number) => {
+      if (!orbit) return;
+      const offset = camera.position.clone().sub(orbit.target);
+      const spherical = new THREE.Spherical().setFromVector3(offset);
+      spherical.theta += deltaTheta;
+      spherical.phi = THREE.MathUtils.clamp(
+        spherical.phi + deltaPhi,
+        Math.max(orbit.minPolarAngle, POLAR_EPSILON),
+        Math.min(orbit.maxPolarAngle, Math.PI - POLAR_EPSILON)
+      );
+      spherical.radius = THREE.MathUtils.clamp(spherical.radius * zoom, orbit.minDistance, orbit.maxDistance);
+      camera.position.copy(orbit.target).add(offset.setFromSpherical(spherical));
+      orbit.update();
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.altKey || e.ctrlKey || e.metaKey) return;
+      const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+
+      if (key === "Tab") {
+        // Past the last (or first) object, let Tab move on to the rest of the page
+        if (moveFocus(e.shiftKey ? -1 : 1, false)) e.preventDefault();
+        else setFocusedIndex(null);
+        return;
+      }
+
+      const isArrow = key.startsWith("Arrow");
+      if (isArrow && !e.shiftKey) {
+        e.preventDefault();
+        moveFocus(key === "ArrowRight" || key === "ArrowDown" ? 1 : -1, true);
+        return;
+      }
+
+      if ((key === "Enter" || key === " ") && focusedMesh) {
+        e.preventDefault();
+        onActivate(focusedMesh);
+        return;
+      }
+
+      if (key === "Escape" && focusedIndex !== null) {
+        setFocusedIndex(null);
+        return;
+      }
+
+      const orbitMoves: Record<string, [number, number, number]> = {
+        a: [-ORBIT_STEP, 0, 1],
+        d: [ORBIT_STEP, 0, 1],
+        w: [0, -ORBIT_STEP, 1],
+        s: [0, ORBIT_STEP, 1],
+        ArrowLeft: [-ORBIT_STEP, 0, 1],
+        ArrowRight: [ORBIT_STEP, 0, 1],
+        ArrowUp: [0, -ORBIT_STEP, 1],
+        ArrowDown: [0, ORBIT_STEP, 1],
+        "+": [0, 0, ZOOM_STEP],
+        "=": [0, 0, ZOOM_STEP],
+        "-": [0, 0, 1 / ZOOM_STEP],
+        _: [0, 0, 1 / ZOOM_STEP],
+      };
+      const move = orbitMoves[key];
+      if (move) {
+        e.preventDefault();
+        orbitCamera(...move);
+      }
+    };
+
+    // The pointer takes over from keyboard focus as soon as it moves over the scene
+    const clearFocus = () => setFocusedIndex(null);
+
+    canvas.addEventListener("keydown", handleKeyDown);
+    canvas.addEventListener("pointermove", clearFocus);
+    canvas.addEventListener("blur", clearFocus);
+    return () => {
+      canvas.removeEventListener("keydown", handleKeyDown);
+      canvas.removeEventListener("pointermove", clearFocus);
+      canvas.removeEventListener("blur", clearFocus);
+    };
+  }, [enabled, gl, camera, controls, focusables, focusedIndex, focusedMesh, onActivate]);
+
+  return { focusedMesh };
+}
@@ -1,6 +1,6 @@
 /**
  * Interaction effects hook for hover animations and click actions
- * Used in: PortfolioScene for handling object interactions
+ * Used in: PortfolioScene for handling object interactions, from the pointer or keyboard focus
  */
 
 import * as React from "react";
@@ -8,12 +8,11 @@ import { useFrame } from "@react-three/fiber";
 import * as THREE from "three";
 import gsap from "gsap";
 import { applyAccentColor, restoreOriginalColors } from "../utils/materialUtils";
-import { getClickActionName, type ClickActions } from "../utils/sceneInteractions";
+import { type ClickAction, type ClickActions, type HitboxMetadata, type HoverAnimation } from "../utils/sceneInteractions";
 import { playSound } from "~/lib/sounds";
 
 const HOVER_SCALE = 1.08;
 const HOVER_OVEREXTEND_SCALE = 1.15;
-const DRAWER_SLIDE_DISTANCE = 100;
 const HOVER_UNHOVER_DELAY_MS = 100;
 
 interface UseObjectInteractionsOptions {
@@ -21,108 +20,110 @@ interface UseObjectInteractionsOptions {
   clickActions: ClickActions;
   enabled?: boolean;
   onScreenHoverChange?: (isHovered: boolean) => void;
+  /** Keyboard-focused mesh, shown with the same hover effects and taking priority over the pointer */
+  focusedMesh?: THREE.Mesh | null;
+  /** Drops the overshoot from hover tweens for visitors who prefer reduced motion */
+  reducedMotion?: boolean;
 }
 
-type HoverMetadata = {
-  originalObject: THREE.Object3D;
-  initialScale: THREE.Vector3;
-  initialPosition: THREE.Vector3;
-  interactionType: "hoverable" | "clickable" | "none";
-};
+/** Runs a registry click action against the scene's callbacks */
+function runClickAction(action: ClickAction, clickActions: ClickActions, object: THREE.Object3D): void {
+  switch (action.type) {
+    case "openSection":
+      clickActions.openSection(action.section);
+      return;
+    case "openProject":
+      clickActions.openProject(action.section, action.slug);
+      return;
+    case "toggleDrawer":
+      clickActions.toggleDrawer(action.section);
+      return;
+    case "openUrl":
+      window.open(action.url, "_blank", "noopener,noreferrer");
+      return;
+    case "cycleScreen":
+      clickActions.cycleScreen();
+      return;
+    case "openTerminal":
+      clickActions.openTerminal();
+      return;
+    case "callPhone":
+      clickActions.callPhone(object);
+      return;
+    case "custom":
+      action.run(clickActions, object);
+      return;
+  }
+}
+
+/** Plays a mesh's click sound and runs its click action; returns false for hover-only meshes */
+export function activateInteraction(mesh: THREE.Object3D, clickActions: ClickActions): boolean {
+  const metadata = mesh.userData.metadata as HitboxMetadata | undefined;
+  const action = metadata?.entry.click;
+  if (!metadata || !action) return false;
 
-export function useObjectInteractions({ intersects, clickActions, enabled = true, onScreenHoverChange }: UseObjectInteractionsOptions): void {
+  if (metadata.entry.sounds.click) playSound(metadata.entry.sounds.click);
+  runClickAction(action, clickActions, metadata.originalObject);
+  return true;
+}
+
+export function useObjectInteractions({ intersects, clickActions, enabled = true, onScreenHoverChange, focusedMesh = null, reducedMotion = false }: UseObjectInteractionsOptions): void {
   const intersectsRef = React.useRef<THREE.Intersection[]>([]);
   const hoveredMeshRef = React.useRef<THREE.Mesh | null>(null);
   const unhoverTimeoutRef = React.useRef<NodeJS.Timeout | null>(null);
   const reenableCooldownRef = React.useRef<number | null>(null);
   const isScreenHoveredRef = React.useRef(false);
 
-  // Handle click events (works for both mouse and touch via pointer events)
+  // Handle mouse and pen clicks; taps go through useTouchSceneInteractions' preview-then-activate instead
   React.useEffect(() => {
     if (!enabled) return;
 
+    // Safari's click events aren't PointerEvents, so remember what the last press came from
+    let lastPointerType = "mouse";
+    const handlePointerDown = (e: PointerEvent) => {
+      lastPointerType = e.pointerType;
+    };
+
     const handleClick = () => {
+      if (lastPointerType === "touch") return;
       const currentIntersects = intersectsRef.current;
       if (!currentIntersects[0]) return;
 
-      const clickedMesh = currentIntersects[0].object as THREE.Mesh;
-      const metadata = clickedMesh.userData.metadata as HoverMetadata | undefined;
-
-      if (!metadata || metadata.interactionType !== "clickable") return;
-
-      const objectName = clickedMesh.name;
-
-      // Handle external links
-      if (objectName.includes("disk_linkedin")) {
-        playSound("click");
-        window.open("https://www.linkedin.com/in/vincent-xian/", "_blank");
-        return;
-      }
-      if (objectName.includes("disk_github")) {
-        playSound("click");
-        window.open("https://github.com/pwazta", "_blank");
-        return;
-      }
-
-      // Handle modal actions
-      const actionName = getClickActionName(objectName);
-      if (actionName && clickActions[actionName]) {
-        playSound("click");
-        clickActions[actionName]();
-      }
+      activateInteraction(currentIntersects[0].object, clickActions);
     };
 
+    window.addEventListener("pointerdown", handlePointerDown);
     window.addEventListener("click", handleClick);
 
     return () => {
+      window.removeEventListener("pointerdown", handlePointerDown);
       window.removeEventListener("click", handleClick);
     };
   }, [clickActions, enabled]);
 
-  const playHoverAnimation = React.useCallback((originalObject: THREE.Object3D, initialScale: THREE.Vector3, initialPosition: THREE.Vector3, isHovering: boolean) => {
-      const isDrawer = originalObject.name.includes("cabinet_drawer_");
-      const isPCube = originalObject.name.includes("pCube");
-
-      const translationConfig = (() => {
-        if (isDrawer) {
-          return {
-            offset: new THREE.Vector3(0, 0, DRAWER_SLIDE_DISTANCE),
-            hoverDuration: 0.3,
-            restoreDuration: 0.25,
-            accent: false,
-          };
-        }
-        if (isPCube) {
-          return {
-            offset: new THREE.Vector3(0, -3.3, 0),
-            hoverDuration: 0.2,
-            restoreDuration: 0.2,
-            accent: true,
-          };
-        }
-        return null;
-      })();
+  const playHoverAnimation = React.useCallback((animation: HoverAnimation, originalObject: THREE.Object3D, initialScale: THREE.Vector3, initialPosition: THREE.Vector3, isHovering: boolean) => {
+      if (animation.type === "none") return;
 
-      if (translationConfig) {
+      if (animation.type === "slide") {
+        if (!isHovering && (originalObject.userData.metadata as HitboxMetadata | undefined)?.heldOpen) return;
         gsap.killTweensOf(originalObject.position);
         gsap.killTweensOf(originalObject.scale);
-        if (translationConfig.accent) applyAccentColor(originalObject);
 
         if (isHovering) {
-          const targetPosition = initialPosition.clone().add(translationConfig.offset);
+          const targetPosition = initialPosition.clone().add(new THREE.Vector3(...animation.offset));
           gsap.to(originalObject.position, {
             x: targetPosition.x,
             y: targetPosition.y,
             z: targetPosition.z,
-            duration: translationConfig.hoverDuration,
-            ease: "back.out(1.5)",
+            duration: animation.duration,
+            ease: reducedMotion ? "power2.out" : "back.out(1.5)",
           });
         } else {
           gsap.to(originalObject.position, {
             x: initialPosition.x,
             y: initialPosition.y,
             z: initialPosition.z,
-            duration: translationConfig.restoreDuration,
+            duration: animation.restoreDuration,
             ease: "power2.out",
           });
         }
@@ -142,6 +143,13 @@ export function useObjectInteractions({ intersects, clickActions, enabled = true
             const offsetFromInitial = localCenter.clone().sub(initialPosition);
             const offsetAdjustment = offsetFromInitial.clone().multiplyScalar(HOVER_SCALE - 1);
             const newPosition = initialPosition.clone().sub(offsetAdjustment);
+
+            if (reducedMotion) {
+              gsap.to(mesh.scale, { x: initialScale.x * HOVER_SCALE, y: initialScale.y * HOVER_SCALE, z: initialScale.z * HOVER_SCALE, duration: 0.15, ease: "power2.out" });
+              gsap.to(mesh.position, { x: newPosition.x, y: newPosition.y, z: newPosition.z, duration: 0.15, ease: "power2.out" });
+              return;
+            }
+
             const tl = gsap.timeline();
             const overextendOffsetAdjustment = offsetFromInitial.clone().multiplyScalar(HOVER_OVEREXTEND_SCALE - 1);
             const overextendPosition = initialPosition.clone().sub(overextendOffsetAdjustment);
@@ -174,6 +182,8 @@ export function useObjectInteractions({ intersects, clickActions, enabled = true
               duration: 0.15,
               ease: "back.out(1.5)",
             }, "-=0.15");
+          } else if (reducedMotion) {
+            gsap.to(mesh.scale, { x: initialScale.x * HOVER_SCALE, y: initialScale.y * HOVER_SCALE, z: initialScale.z * HOVER_SCALE, duration: 0.15, ease: "power2.out" });
           } else {
             const tl = gsap.timeline();
             tl.to(mesh.scale, {
@@ -208,7 +218,7 @@ export function useObjectInteractions({ intersects, clickActions, enabled = true
           });
         }
       }
-    }, []
+    }, [reducedMotion]
   );
 
   React.useEffect(() => {
@@ -220,9 +230,9 @@ export function useObjectInteractions({ intersects, clickActions, enabled = true
       }
     } else {
       if (hoveredMeshRef.current) {
-        const prevMeta = hoveredMeshRef.current.userData.metadata as HoverMetadata | undefined;
+        const prevMeta = hoveredMeshRef.current.userData.metadata as HitboxMetadata | undefined;
         if (prevMeta) {
-          playHoverAnimation(prevMeta.originalObject, prevMeta.initialScale, prevMeta.initialPosition, false);
+          playHoverAnimation(prevMeta.entry.hover, prevMeta.originalObject, prevMeta.initialScale, prevMeta.initialPosition, false);
           restoreOriginalColors(prevMeta.originalObject);
         }
         hoveredMeshRef.current = null;
@@ -244,18 +254,18 @@ export function useObjectInteractions({ intersects, clickActions, enabled = true
 
     if (!enabled || reenableCooldownRef.current !== null) return;
 
-    const hoveredMesh = intersects[0] ? (intersects[0].object as THREE.Mesh) : null;
+    const hoveredMesh = focusedMesh ?? (intersects[0] ? (intersects[0].object as THREE.Mesh) : null);
     const prevMesh = hoveredMeshRef.current;
-    const metadata = hoveredMesh?.userData.metadata as HoverMetadata | undefined;
+    const metadata = hoveredMesh?.userData.metadata as HitboxMetadata | undefined;
 
     // Track screen hover state for credit overlay
-    const isNowHoveringScreen = hoveredMesh?.name.includes("computer_screen") ?? false;
+    const isNowHoveringScreen = metadata?.entry.click?.type === "cycleScreen";
     if (isNowHoveringScreen !== isScreenHoveredRef.current) {
       isScreenHoveredRef.current = isNowHoveringScreen;
       onScreenHoverChange?.(isNowHoveringScreen);
     }
 
-    const updateCursor = (meta: HoverMetadata | undefined) => {
+    const updateCursor = (meta: HitboxMetadata | undefined) => {
       document.body.style.cursor = meta?.interactionType === "clickable" ? "pointer" : "default";
     };
 
@@ -273,17 +283,17 @@ export function useObjectInteractions({ intersects, clickActions, enabled = true
     if (hoveredMesh && metadata) {
       // Clear previous hover immediately
       if (prevMesh) {
-        const prevMeta = prevMesh.userData.metadata as HoverMetadata | undefined;
+        const prevMeta = prevMesh.userData.metadata as HitboxMetadata | undefined;
         if (prevMeta) {
-          playHoverAnimation(prevMeta.originalObject, prevMeta.initialScale, prevMeta.initialPosition, false);
+          playHoverAnimation(prevMeta.entry.hover, prevMeta.originalObject, prevMeta.initialScale, prevMeta.initialPosition, false);
           restoreOriginalColors(prevMeta.originalObject);
         }
       }
 
       // Apply hover to new target
-      playHoverAnimation(metadata.originalObject, metadata.initialScale, metadata.initialPosition, true);
-      playSound("pop");
-      if (metadata.interactionType === "clickable") applyAccentColor(metadata.originalObject);
+      playHoverAnimation(metadata.entry.hover, metadata.originalObject, metadata.initialScale, metadata.initialPosition, true);
+      if (metadata.entry.sounds.hover) playSound(metadata.entry.sounds.hover);
+      if (metadata.entry.accent) applyAccentColor(metadata.originalObject);
 
       hoveredMeshRef.current = hoveredMesh;
       updateCursor(metadata);
@@ -298,9 +308,9 @@ export function useObjectInteractions({ intersects, clickActions, enabled = true
         unhoverTimeoutRef.current = setTimeout(() => {
           const stillPrevMesh = hoveredMeshRef.current;
           if (stillPrevMesh && stillPrevMesh === prevMesh) {
-            const prevMeta = stillPrevMesh.userData.metadata as HoverMetadata | undefined;
+            const prevMeta = stillPrevMesh.userData.metadata as HitboxMetadata | undefined;
             if (prevMeta) {
-              playHoverAnimation(prevMeta.originalObject, prevMeta.initialScale, prevMeta.initialPosition, false);
+              playHoverAnimation(prevMeta.entry.hover, prevMeta.originalObject, prevMeta.initialScale, prevMeta.initialPosition, false);
               restoreOriginalColors(prevMeta.originalObject);
             }
             hoveredMeshRef.current = null;
@@ -310,7 +320,7 @@ export function useObjectInteractions({ intersects, clickActions, enabled = true
         }, HOVER_UNHOVER_DELAY_MS);
       }
 
-      const prevMeta = prevMesh.userData.metadata as HoverMetadata | undefined;
+      const prevMeta = prevMesh.userData.metadata as HitboxMetadata | undefined;
       updateCursor(prevMeta);
       return;
     }
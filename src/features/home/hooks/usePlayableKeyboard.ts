@@ -0,0 +1,118 @@
+/**
+ * Presses the desk keyboard's 3D keys as the visitor types on their own keyboard
+ * Used in: PortfolioScene's SceneContent
+ *
+ * Keys animate while the scene or the in-scene terminal has the keyboard, never while typing into a form.
+ * Letters typed into the scene also feed a short buffer so easter-egg words can trigger scene events.
+ */
+
+import * as React from "react";
+import * as THREE from "three";
+import gsap from "gsap";
+import { playKeySound } from "~/lib/sounds";
+import { matchEasterEgg, type KeyboardEasterEgg } from "../utils/keyboardEasterEggs";
+import { buildKeyMap, isKeyboardKey } from "../utils/keyboardLayout";
+import { type HitboxMetadata } from "../utils/sceneInteractions";
+import { getTerminalState } from "../utils/terminal";
+
+const PRESS_DURATION = 0.05;
+const RELEASE_DURATION = 0.12;
+const NO_EASTER_EGGS: KeyboardEasterEgg[] = [];
+
+interface UsePlayableKeyboardOptions {
+  interactiveMeshes: THREE.Mesh[];
+  enabled: boolean;
+  /** Words that fire scene events when typed; leave empty to turn the buffer off */
+  easterEggs?: KeyboardEasterEgg[];
+  onAnnounce?: (message: string) => void;
+}
+
+function getMetadata(mesh: THREE.Object3D): HitboxMetadata | undefined {
+  return mesh.userData.metadata as HitboxMetadata | undefined;
+}
+
+function isEditable(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+}
+
+/** Moves a key to its pressed or resting position, using the depth of its hover slide */
+function animateKey(mesh: THREE.Mesh, pressed: boolean) {
+  const metadata = getMetadata(mesh);
+  if (!metadata) return;
+  const { entry, originalObject, initialPosition } = metadata;
+  const target = initialPosition.clone();
+  if (pressed && entry.hover.type === "slide") target.add(new THREE.Vector3(...entry.hover.offset));
+
+  gsap.killTweensOf(originalObject.position);
+  gsap.to(originalObject.position, {
+    x: target.x,
+    y: target.y,
+    z: target.z,
+    duration: pressed ? PRESS_DURATION : RELEASE_DURATION,
+    ease: "power2.out",
+  });
+}
+
+export function usePlayableKeyboard({ interactiveMeshes, enabled, easterEggs = NO_EASTER_EGGS, onAnnounce }: UsePlayableKeyboardOptions) {
+  const keyMap = React.useMemo(() => {
+    const keyMeshes = interactiveMeshes.filter(isKeyboardKey);
+    const monitor = interactiveMeshes.find((mesh) => getMetadata(mesh)?.entry.click?.type === "cycleScreen");
+    return buildKeyMap(keyMeshes, monitor?.getWorldPosition(new THREE.Vector3()));
+  }, [interactiveMeshes]);
+
+  React.useEffect(() => {
+    if (!enabled || keyMap.size === 0) return;
+
+    const pressed = new Map<string, THREE.Mesh>();
+    const bufferLength = Math.max(0, ...easterEggs.map((egg) => egg.word.length));
+    let typed = "";
+
+    const release = (code: string) => {
+      const mesh = pressed.get(code);
+      if (!mesh) return;
+      pressed.delete(code);
+      // Several codes can share a mesh when the model has fewer keys than the layout
+      if (![...pressed.values()].includes(mesh)) animateKey(mesh, false);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.ctrlKey || e.metaKey) return;
+      const inTerminal = getTerminalState().focused;
+      if (isEditable(e.target) && !inTerminal) return;
+
+      const mesh = keyMap.get(e.code);
+      if (mesh && !pressed.has(e.code)) {
+        pressed.set(e.code, mesh);
+        animateKey(mesh, true);
+        playKeySound(e.code);
+      }
+
+      if (inTerminal || bufferLength === 0) return;
+      if (!/^[a-z]$/i.test(e.key)) {
+        typed = "";
+        return;
+      }
+      typed = (typed + e.key.toLowerCase()).slice(-bufferLength);
+      const egg = matchEasterEgg(typed, easterEggs);
+      if (egg) {
+        typed = "";
+        egg.run();
+        onAnnounce?.(egg.announcement);
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => release(e.code);
+    // Keyups are lost when the window loses focus mid-press
+    const releaseAll = () => [...pressed.keys()].forEach(release);
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", releaseAll);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", releaseAll);
+      releaseAll();
+    };
+  }, [enabled, keyMap, easterEggs, onAnnounce]);
+}
@@ -0,0 +1,36 @@
+/**
+ * Reads and updates the portfolio route (open modal, project, tab, gallery image) in the URL
+ * Used in: PortfolioHome, SoftwareContent, ArtsContent and AboutContent
+ */
+"use client";
+
+import * as React from "react";
+import { usePathname, useSearchParams } from "next/navigation";
+import { parsePortfolioRoute, toPathSegments, toPortfolioHref, type PortfolioRoute } from "../utils/portfolioRoutes";
+
+type NavigateMode = "push" | "replace";
+
+/**
+ * Uses the native history API, which Next keeps in sync with usePathname/useSearchParams,
+ * so opening a modal doesn't refetch the page and back/forward open and close modals.
+ */
+export function usePortfolioRoute() {
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const route = React.useMemo<PortfolioRoute>(
+    () => parsePortfolioRoute(toPathSegments(pathname), new URLSearchParams(searchParams.toString())) ?? { section: null },
+    [pathname, searchParams]
+  );
+
+  /** Pushes a new history entry by default; use "replace" for in-modal changes like tabs */
+  const navigate = React.useCallback((next: PortfolioRoute, mode: NavigateMode = "push") => {
+    const href = toPortfolioHref(next);
+    if (href === `${window.location.pathname}${window.location.search}`) return;
+
+    if (mode === "push") window.history.pushState(null, "", href);
+    else window.history.replaceState(null, "", href);
+  }, []);
+
+  return { route, navigate };
+}
@@ -0,0 +1,27 @@
+/**
+ * Reads the graphics quality setting and the preset it resolves to
+ * Used in: PortfolioScene, SceneContent and GraphicsSettings
+ */
+"use client";
+
+import * as React from "react";
+import {
+  getQualityState,
+  getServerQualityState,
+  QUALITY_PRESETS,
+  resolveQualityTier,
+  setQualitySetting,
+  subscribeQuality,
+} from "../utils/qualityTiers";
+
+export function useQualitySettings() {
+  const state = React.useSyncExternalStore(subscribeQuality, getQualityState, getServerQualityState);
+  const tier = resolveQualityTier(state);
+
+  return {
+    setting: state.setting,
+    tier,
+    preset: QUALITY_PRESETS[tier],
+    setSetting: setQualitySetting,
+  };
+}
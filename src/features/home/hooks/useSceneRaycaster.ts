@@ -23,7 +23,8 @@ export function useSceneRaycaster({ interactiveMeshes, enabled = true }: UseScen
   const pointer = React.useRef(new THREE.Vector2());
   const [intersects, setIntersects] = React.useState<THREE.Intersection[]>([]);
   const lastEnabledStateRef = React.useRef(enabled);
-  const requiresMouseMoveRef = React.useRef(false);
+  // Nothing is hovered until a mouse or pen actually points at the scene
+  const requiresMouseMoveRef = React.useRef(true);
 
   /** Track when interactions are re-enabled to require mouse movement before detecting intersections */
   React.useEffect(() => {
@@ -33,22 +34,26 @@ export function useSceneRaycaster({ interactiveMeshes, enabled = true }: UseScen
     lastEnabledStateRef.current = enabled;
   }, [enabled]);
 
-  /** Update pointer on pointer move/down (unified mouse + touch) */
+  /** Update pointer on pointer move/down. Touches are left to useTouchSceneInteractions and clear any mouse hover */
   React.useEffect(() => {
     if (!enabled) return;
 
-    const updatePointer = (clientX: number, clientY: number) => {
-      pointer.current.x = (clientX / size.width) * 2 - 1;
-      pointer.current.y = -(clientY / size.height) * 2 + 1;
+    const updatePointer = (e: PointerEvent) => {
+      if (e.pointerType === "touch") {
+        requiresMouseMoveRef.current = true;
+        return;
+      }
+      pointer.current.x = (e.clientX / size.width) * 2 - 1;
+      pointer.current.y = -(e.clientY / size.height) * 2 + 1;
       requiresMouseMoveRef.current = false;
     };
 
     const handlePointerMove = (e: PointerEvent) => {
-      updatePointer(e.clientX, e.clientY);
+      updatePointer(e);
     };
 
     const handlePointerDown = (e: PointerEvent) => {
-      updatePointer(e.clientX, e.clientY);
+      updatePointer(e);
     };
 
     window.addEventListener("pointermove", handlePointerMove);
@@ -0,0 +1,12 @@
+/**
+ * Reads the in-scene terminal's state
+ * Used in: VideoScreen, TerminalInput and PortfolioScene
+ */
+"use client";
+
+import * as React from "react";
+import { getServerTerminalState, getTerminalState, subscribeTerminal } from "../utils/terminal";
+
+export function useTerminal() {
+  return React.useSyncExternalStore(subscribeTerminal, getTerminalState, getServerTerminalState);
+}
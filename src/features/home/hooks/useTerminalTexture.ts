@@ -0,0 +1,97 @@
+/**
+ * Draws the terminal onto a canvas texture for the computer screen
+ * Used in: VideoScreen while the screen is in terminal mode
+ *
+ * The canvas is only redrawn when the terminal changes or the cursor blinks, never every frame.
+ */
+
+import * as React from "react";
+import { useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+import { TERMINAL_PROMPT, type TerminalLine, type TerminalState } from "../utils/terminal";
+
+/** 4:3 like an old CRT; the screen mesh's planar UVs stretch it to fit */
+const WIDTH = 512;
+const HEIGHT = 384;
+const PADDING = 14;
+const FONT_SIZE = 16;
+const LINE_HEIGHT = 20;
+const CURSOR_BLINK_SECONDS = 0.53;
+
+const COLORS = {
+  background: "#0b120d",
+  output: "#8ef5a4",
+  command: "#e6ffe9",
+  error: "#ff8a7a",
+  dim: "#4f7a59",
+} as const;
+
+/** Splits a line into rows that fit the screen width */
+function wrap(text: string, columns: number): string[] {
+  if (text.length <= columns) return [text];
+  const rows: string[] = [];
+  for (let i = 0; i < text.length; i += columns) rows.push(text.slice(i, i + columns));
+  return rows;
+}
+
+function draw(context: CanvasRenderingContext2D, terminal: TerminalState, cursorOn: boolean) {
+  context.fillStyle = COLORS.background;
+  context.fillRect(0, 0, WIDTH, HEIGHT);
+  context.font = `${FONT_SIZE}px ui-monospace, SFMono-Regular, Menlo, monospace`;
+  context.textBaseline = "top";
+
+  const columns = Math.floor((WIDTH - PADDING * 2) / context.measureText("M").width);
+  const maxRows = Math.floor((HEIGHT - PADDING * 2) / LINE_HEIGHT);
+
+  const rows: { text: string; color: string }[] = [];
+  const pushLine = ({ text, kind }: TerminalLine) => {
+    const prefixed = kind === "command" ? TERMINAL_PROMPT + text : text;
+    for (const row of wrap(prefixed, columns)) rows.push({ text: row, color: COLORS[kind] });
+  };
+  terminal.lines.forEach(pushLine);
+
+  // The live input line, or a hint when keystrokes are going elsewhere
+  const inputRows = terminal.focused
+    ? wrap(TERMINAL_PROMPT + terminal.input + (cursorOn ? "█" : ""), columns).map((text) => ({ text, color: COLORS.command }))
+    : [{ text: "[ click the keyboard to type ]", color: COLORS.dim }];
+  rows.push(...inputRows);
+
+  rows.slice(-maxRows).forEach(({ text, color }, index) => {
+    context.fillStyle = color;
+    context.fillText(text, PADDING, PADDING + index * LINE_HEIGHT);
+  });
+}
+
+export function useTerminalTexture(terminal: TerminalState, active: boolean): THREE.CanvasTexture {
+  const { texture, context } = React.useMemo(() => {
+    const canvas = document.createElement("canvas");
+    canvas.width = WIDTH;
+    canvas.height = HEIGHT;
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    return { texture, context: canvas.getContext("2d") };
+  }, []);
+  const blinkRef = React.useRef({ elapsed: 0, on: true });
+
+  React.useEffect(() => () => texture.dispose(), [texture]);
+
+  React.useEffect(() => {
+    if (!active || !context) return;
+    blinkRef.current = { elapsed: 0, on: true };
+    draw(context, terminal, true);
+    texture.needsUpdate = true;
+  }, [active, context, terminal, texture]);
+
+  useFrame((_, delta) => {
+    if (!active || !context || !terminal.focused) return;
+    const blink = blinkRef.current;
+    blink.elapsed += delta;
+    if (blink.elapsed < CURSOR_BLINK_SECONDS) return;
+    blink.elapsed = 0;
+    blink.on = !blink.on;
+    draw(context, terminal, blink.on);
+    texture.needsUpdate = true;
+  });
+
+  return texture;
+}
@@ -0,0 +1,39 @@
+/**
+ * Reads the time-of-day setting and the hour it currently resolves to
+ * Used in: SceneContent, GraphicsSettings and useDaylightThemeSync
+ */
+"use client";
+
+import * as React from "react";
+import {
+  getServerTimeOfDayState,
+  getTimeOfDayState,
+  resolveHour,
+  setManualHour,
+  setThemeSync,
+  setTimeOfDayMode,
+  subscribeTimeOfDay,
+} from "../utils/timeOfDay";
+
+/** Live mode re-reads the clock this often; light changes over a minute are imperceptible */
+const CLOCK_TICK_MS = 30_000;
+
+export function useTimeOfDay() {
+  const state = React.useSyncExternalStore(subscribeTimeOfDay, getTimeOfDayState, getServerTimeOfDayState);
+  const [now, setNow] = React.useState(() => new Date());
+
+  React.useEffect(() => {
+    if (state.mode !== "live") return;
+    setNow(new Date());
+    const interval = setInterval(() => setNow(new Date()), CLOCK_TICK_MS);
+    return () => clearInterval(interval);
+  }, [state.mode]);
+
+  return {
+    ...state,
+    hour: resolveHour(state, now),
+    setManualHour,
+    setMode: setTimeOfDayMode,
+    setThemeSync,
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * Whether the visitor is currently using touch, so the scene can switch to tap-to-preview and phone gestures
+ * Used in: PortfolioScene
+ *
+ * Starts from the primary pointer type and then follows whichever pointer was used last, so a tablet with a
+ * trackpad or a laptop with a touchscreen switches modes as the visitor does.
+ */
+"use client";
+
+import * as React from "react";
+
+const COARSE_POINTER_QUERY = "(pointer: coarse)";
+
+export function useTouchMode() {
+  // Default to false for SSR; the client corrects it on mount
+  const [isTouchMode, setIsTouchMode] = React.useState(false);
+
+  React.useEffect(() => {
+    setIsTouchMode(window.matchMedia(COARSE_POINTER_QUERY).matches);
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.pointerType === "touch") setIsTouchMode(true);
+    };
+    const handlePointerMove = (e: PointerEvent) => {
+      if (e.pointerType === "mouse") setIsTouchMode(false);
+    };
+
+    window.addEventListener("pointerdown", handlePointerDown, { capture: true });
+    window.addEventListener("pointermove", handlePointerMove, { passive: true });
+    return () => {
+      window.removeEventListener("pointerdown", handlePointerDown, { capture: true });
+      window.removeEventListener("pointermove", handlePointerMove);
+    };
+  }, []);
+
+  return isTouchMode;
+}
@@ -0,0 +1,112 @@
+/**
+ * Tap handling for touch screens: the first tap on an object previews it, a second tap activates it
+ * Used in: PortfolioScene's SceneContent, with the previewed mesh fed to useObjectInteractions for hover effects
+ *
+ * Touches don't move the hover pointer (see useSceneRaycaster), so drags and pinches never leave hover
+ * animations behind. Only short, still, single-finger touches count as taps.
+ */
+
+import * as React from "react";
+import { useThree } from "@react-three/fiber";
+import * as THREE from "three";
+import { describeClickAction, labelEntry, type HitboxMetadata } from "../utils/sceneInteractions";
+
+/** A touch that moves further than this (in CSS pixels) is a drag */
+const TAP_SLOP_PX = 10;
+const TAP_MAX_MS = 400;
+
+interface UseTouchSceneInteractionsOptions {
+  interactiveMeshes: THREE.Mesh[];
+  enabled: boolean;
+  onActivate: (mesh: THREE.Mesh) => void;
+  /** Text for the ARIA live region when a preview starts */
+  onAnnounce: (message: string) => void;
+}
+
+type TouchStart = { x: number; y: number; time: number };
+
+function getMetadata(mesh: THREE.Object3D): HitboxMetadata | undefined {
+  return mesh.userData.metadata as HitboxMetadata | undefined;
+}
+
+export function useTouchSceneInteractions({ interactiveMeshes, enabled, onActivate, onAnnounce }: UseTouchSceneInteractionsOptions) {
+  const { gl, camera } = useThree();
+  const [previewMesh, setPreviewMesh] = React.useState<THREE.Mesh | null>(null);
+  const raycaster = React.useMemo(() => new THREE.Raycaster(), []);
+
+  React.useEffect(() => {
+    if (!enabled) setPreviewMesh(null);
+  }, [enabled]);
+
+  React.useEffect(() => {
+    if (!enabled) return;
+    const canvas = gl.domElement;
+    const activeTouches = new Map<number, TouchStart>();
+    // Set once a second finger lands, so lifting the fingers of a pinch isn't read as a tap
+    let isMultiTouch = false;
+
+    const pickMesh = (clientX: number, clientY: number): THREE.Mesh | null => {
+      const rect = canvas.getBoundingClientRect();
+      const pointer = new THREE.Vector2(((clientX - rect.left) / rect.width) * 2 - 1, -((clientY - rect.top) / rect.height) * 2 + 1);
+      raycaster.setFromCamera(pointer, camera);
+      const hit = raycaster.intersectObjects(interactiveMeshes, false)[0];
+      return hit ? (hit.object as THREE.Mesh) : null;
+    };
+
+    const handleTap = (clientX: number, clientY: number) => {
+      const mesh = pickMesh(clientX, clientY);
+      const entry = mesh ? getMetadata(mesh)?.entry : undefined;
+      if (!mesh || !entry) {
+        setPreviewMesh(null);
+        return;
+      }
+
+      // Objects made of several meshes count as the same object on the second tap
+      const previewEntry = previewMesh ? getMetadata(previewMesh)?.entry : undefined;
+      if (entry === previewEntry && entry.click) {
+        setPreviewMesh(null);
+        onActivate(mesh);
+        return;
+      }
+
+      setPreviewMesh(mesh);
+      const action = entry.click ? ` Tap again to ${describeClickAction(entry.click)}.` : "";
+      onAnnounce(`${labelEntry(entry)}.${action}`);
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.pointerType !== "touch") return;
+      activeTouches.set(e.pointerId, { x: e.clientX, y: e.clientY, time: performance.now() });
+      if (activeTouches.size > 1) isMultiTouch = true;
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      const start = activeTouches.get(e.pointerId);
+      if (!start) return;
+      activeTouches.delete(e.pointerId);
+
+      const isTap =
+        !isMultiTouch &&
+        Math.hypot(e.clientX - start.x, e.clientY - start.y) <= TAP_SLOP_PX &&
+        performance.now() - start.time <= TAP_MAX_MS;
+      if (activeTouches.size === 0) isMultiTouch = false;
+      if (isTap) handleTap(e.clientX, e.clientY);
+    };
+
+    const handlePointerCancel = (e: PointerEvent) => {
+      activeTouches.delete(e.pointerId);
+      if (activeTouches.size === 0) isMultiTouch = false;
+    };
+
+    canvas.addEventListener("pointerdown", handlePointerDown);
+    canvas.addEventListener("pointerup", handlePointerUp);
+    canvas.addEventListener("pointercancel", handlePointerCancel);
+    return () => {
+      canvas.removeEventListener("pointerdown", handlePointerDown);
+      canvas.removeEventListener("pointerup", handlePointerUp);
+      canvas.removeEventListener("pointercancel", handlePointerCancel);
+    };
+  }, [enabled, gl, camera, raycaster, interactiveMeshes, previewMesh, onActivate, onAnnounce]);
+
+  return { previewMesh: enabled ? previewMesh : null };
+}
@@ -0,0 +1,28 @@
+/**
+ * Reads the weather setting and the weather actually shown, which is always clear at the lowest quality tier
+ * Used in: SceneContent and GraphicsSettings
+ */
+"use client";
+
+import * as React from "react";
+import { getServerWeatherSetting, getWeatherSetting, resolveWeather, setWeatherSetting, subscribeWeather } from "../utils/weather";
+import { useQualitySettings } from "./useQualitySettings";
+import { useTimeOfDay } from "./useTimeOfDay";
+
+const DAY_MS = 86_400_000;
+
+export function useWeather() {
+  const setting = React.useSyncExternalStore(subscribeWeather, getWeatherSetting, getServerWeatherSetting);
+  const { hour } = useTimeOfDay();
+  const { preset } = useQualitySettings();
+  const [dayNumber] = React.useState(() => Math.floor(Date.now() / DAY_MS));
+
+  const isAvailable = preset.weatherParticles > 0;
+
+  return {
+    setting,
+    weather: isAvailable ? resolveWeather(setting, hour, dayNumber) : "clear",
+    isAvailable,
+    setSetting: setWeatherSetting,
+  };
+}
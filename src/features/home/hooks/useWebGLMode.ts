@@ -0,0 +1,60 @@
+/**
+ * Chooses between the 3D scene and the 2D portfolio, and switches to 2D when WebGL fails at runtime
+ * Used in: PortfolioHome
+ */
+"use client";
+
+import * as React from "react";
+import { detectWebGLProblem, type WebGLFailureReason } from "../utils/webglSupport";
+
+/** "checking" lasts until the first client effect, since detection needs a browser */
+export type PortfolioMode = "checking" | "3d" | "2d";
+
+/** Remembers a failure for the tab's lifetime so reloads don't crash the scene again */
+const FAILURE_STORAGE_KEY = "vx-webgl-failure";
+
+function readStoredFailure(): WebGLFailureReason | null {
+  try {
+    return sessionStorage.getItem(FAILURE_STORAGE_KEY) as WebGLFailureReason | null;
+  } catch {
+    return null;
+  }
+}
+
+function storeFailure(reason: WebGLFailureReason | null) {
+  try {
+    if (reason) sessionStorage.setItem(FAILURE_STORAGE_KEY, reason);
+    else sessionStorage.removeItem(FAILURE_STORAGE_KEY);
+  } catch {
+    // Storage can be blocked (e.g. privacy mode); the fallback still works for this page view
+  }
+}
+
+export function useWebGLMode() {
+  const [mode, setMode] = React.useState<PortfolioMode>("checking");
+  const [failureReason, setFailureReason] = React.useState<WebGLFailureReason | null>(null);
+  // Bumped on retry so the Canvas remounts with a fresh WebGL context
+  const [sceneKey, setSceneKey] = React.useState(0);
+
+  React.useEffect(() => {
+    const reason = readStoredFailure() ?? detectWebGLProblem();
+    setFailureReason(reason);
+    setMode(reason ? "2d" : "3d");
+  }, []);
+
+  const reportFailure = React.useCallback((reason: WebGLFailureReason) => {
+    storeFailure(reason);
+    setFailureReason(reason);
+    setMode("2d");
+  }, []);
+
+  /** Goes back to 3D regardless of detection; a failure during the retry switches back to 2D again */
+  const retry = React.useCallback(() => {
+    storeFailure(null);
+    setFailureReason(null);
+    setSceneKey((key) => key + 1);
+    setMode("3d");
+  }, []);
+
+  return { mode, failureReason, sceneKey, reportFailure, retry };
+}
@@ -0,0 +1,154 @@
+/**
+ * Named camera viewpoints, the guided tour script and the store that queues camera flights
+ * Used in: CameraDirector (inside the Canvas), TourOverlay, GraphicsSettings and PortfolioHome
+ *
+ * Anything can ask for a flight with `flyTo`; the mounted CameraDirector picks it up on its next frame.
+ * With no director mounted (2D mode, or before the scene loads) flights resolve straight away.
+ */
+
+import { type PortfolioSection } from "./portfolioRoutes";
+
+export const VIEWPOINT_NAMES = ["overview", "desk", "cabinet", "phone"] as const;
+export type ViewpointName = (typeof VIEWPOINT_NAMES)[number];
+
+export type Viewpoint = {
+  label: string;
+  position: [number, number, number];
+  /** OrbitControls target, kept inside LimitedOrbitControls' pan limits */
+  target: [number, number, number];
+};
+
+export const CAMERA_VIEWPOINTS: Record<ViewpointName, Viewpoint> = {
+  overview: { label: "Overview", position: [0.5, 7, 7], target: [0.5, 3, 0] },
+  desk: { label: "Desk", position: [0.5, 4.6, 4.2], target: [0.5, 3.2, 0] },
+  cabinet: { label: "Cabinet", position: [5.2, 5.6, 5], target: [8.3, 4.5, -0.8] },
+  phone: { label: "Phone", position: [-4.8, 4.4, 4.4], target: [-7.5, 2.9, 0.6] },
+};
+
+/** Where the camera goes before a section's modal opens */
+export const SECTION_VIEWPOINTS: Record<PortfolioSection, ViewpointName> = {
+  software: "desk",
+  about: "cabinet",
+  arts: "cabinet",
+  contact: "phone",
+};
+
+export type TourStop = { viewpoint: ViewpointName; caption: string };
+
+export const TOUR_STOPS: TourStop[] = [
+  { viewpoint: "overview", caption: "Welcome to the island. Drag to look around, scroll to zoom, or sit back for the tour." },
+  { viewpoint: "desk", caption: "The computer holds my software projects. Click the frame to read about me." },
+  { viewpoint: "cabinet", caption: "The software and arts drawers preview their projects; the about drawer tells you about me." },
+  { viewpoint: "phone", caption: "Pick up the phone to get in touch." },
+  { viewpoint: "overview", caption: "That's everything. Click anything that lights up to explore." },
+];
+
+/** How long the tour rests at a stop after arriving */
+export const TOUR_HOLD_MS = 5000;
+
+export type CameraDirectorState = {
+  /** Index into TOUR_STOPS while the tour runs */
+  tourStop: number | null;
+  /** Fly to a section's object before opening its modal */
+  flyToSections: boolean;
+};
+
+export type FlightRequest = {
+  viewpoint: ViewpointName;
+  /** Called with `true` on arrival, `false` when the flight is interrupted or replaced */
+  settle: (arrived: boolean) => void;
+};
+
+const STORAGE_KEY = "vx-fly-to-sections";
+const DEFAULT_STATE: CameraDirectorState = { tourStop: null, flyToSections: true };
+
+let state: CameraDirectorState = DEFAULT_STATE;
+let hasLoaded = false;
+let pendingFlight: FlightRequest | null = null;
+let directorCount = 0;
+const listeners = new Set<() => void>();
+
+function update(next: Partial<CameraDirectorState>) {
+  state = { ...state, ...next };
+  listeners.forEach((listener) => listener());
+}
+
+export function getCameraDirectorState(): CameraDirectorState {
+  if (!hasLoaded && typeof window !== "undefined") {
+    hasLoaded = true;
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored !== null) state = { ...state, flyToSections: stored === "true" };
+    } catch {
+      // Storage blocked - keep the default for this visit
+    }
+  }
+  return state;
+}
+
+export function getServerCameraDirectorState(): CameraDirectorState {
+  return DEFAULT_STATE;
+}
+
+export function subscribeCameraDirector(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function setFlyToSections(flyToSections: boolean) {
+  if (flyToSections === state.flyToSections) return;
+  try {
+    localStorage.setItem(STORAGE_KEY, String(flyToSections));
+  } catch {
+    // Still applies for this visit
+  }
+  update({ flyToSections });
+}
+
+/** Called by CameraDirector on mount; returns the unregister function */
+export function registerDirector() {
+  directorCount++;
+  return () => {
+    directorCount--;
+    if (directorCount === 0) {
+      pendingFlight?.settle(false);
+      pendingFlight = null;
+      update({ tourStop: null });
+    }
+  };
+}
+
+/** Queues a flight to a viewpoint, replacing any queued one; resolves `true` on arrival */
+export function flyTo(viewpoint: ViewpointName): Promise<boolean> {
+  if (directorCount === 0) return Promise.resolve(false);
+  pendingFlight?.settle(false);
+  return new Promise((resolve) => {
+    pendingFlight = { viewpoint, settle: resolve };
+  });
+}
+
+/** Hands the queued flight to the director */
+export function takeFlightRequest(): FlightRequest | null {
+  const request = pendingFlight;
+  pendingFlight = null;
+  return request;
+}
+
+export function startTour() {
+  update({ tourStop: 0 });
+}
+
+export function stopTour() {
+  if (state.tourStop === null) return;
+  update({ tourStop: null });
+}
+
+/** Moves the tour by one stop, ending it after the last */
+export function stepTour(direction: 1 | -1) {
+  if (state.tourStop === null) return;
+  const next = state.tourStop + direction;
+  if (next >= TOUR_STOPS.length) update({ tourStop: null });
+  else update({ tourStop: Math.max(0, next) });
+}
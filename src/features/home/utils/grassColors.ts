@@ -0,0 +1,27 @@
+/**
+ * Blade color palettes for the grass field
+ * Used in: GrassMaterial, and the day/night cycle in timeOfDay which blends between them
+ */
+
+import type * as THREE from "three";
+
+/** Blade gradient colors, from the root up to the two tip shades */
+export type GrassColors = {
+  baseColor: THREE.ColorRepresentation;
+  tipColor1: THREE.ColorRepresentation;
+  tipColor2: THREE.ColorRepresentation;
+};
+
+/** Daytime and night palettes; the day/night cycle blends between these and its dawn/dusk tints */
+export const GRASS_COLOR_PALETTES = {
+  light: {
+    baseColor: "#232e13",
+    tipColor1: "#9bd38d",
+    tipColor2: "#1f352a",
+  },
+  dark: {
+    baseColor: "#1a2310",
+    tipColor1: "#587a52",
+    tipColor2: "#152218",
+  },
+} satisfies Record<"light" | "dark", GrassColors>;
@@ -0,0 +1,45 @@
+/**
+ * Fixed-size trail of points that push grass blades aside, aged each frame for the shader's spring-back
+ * Used in: GrassField, fed from the pointer's terrain hit and the orbit target
+ */
+
+export type GrassTrailPoint = { x: number; z: number; age: number };
+
+/** Points older than this no longer move the grass and are recycled */
+const POINT_LIFETIME_SECONDS = 2.5;
+/** A source has to move this far (world units) before it drops a new point */
+const MIN_POINT_SPACING = 0.35;
+
+export class GrassTrail {
+  private points: GrassTrailPoint[] = [];
+  private lastBySource = new Map<string, { x: number; z: number }>();
+
+  constructor(private capacity: number) {}
+
+  /** Changes how many points are kept, dropping the oldest when shrinking */
+  setCapacity(capacity: number) {
+    this.capacity = capacity;
+    this.points = capacity === 0 ? [] : this.points.slice(-capacity);
+  }
+
+  /** Records a position for a source ("pointer", "orbit", ...) if it has moved far enough */
+  add(source: string, x: number, z: number) {
+    if (this.capacity === 0) return;
+
+    const last = this.lastBySource.get(source);
+    if (last && Math.hypot(x - last.x, z - last.z) < MIN_POINT_SPACING) return;
+
+    this.lastBySource.set(source, { x, z });
+    this.points.push({ x, z, age: 0 });
+    if (this.points.length > this.capacity) this.points.shift();
+  }
+
+  update(delta: number) {
+    for (const point of this.points) point.age += delta;
+    this.points = this.points.filter((point) => point.age < POINT_LIFETIME_SECONDS);
+  }
+
+  get activePoints(): readonly GrassTrailPoint[] {
+    return this.points;
+  }
+}
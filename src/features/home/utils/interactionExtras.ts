@@ -0,0 +1,134 @@
+/**
+ * glTF extras (custom properties set in Maya/Blender) that override or extend registry interactions
+ * Used in: sceneInteractions.resolveInteraction when classifying scene meshes
+ *
+ * Supported properties on a mesh node:
+ * - `preset`: registry key to start from instead of the name match, e.g. "disk_github"
+ * - `interaction`: "click" | "hover" | "none" - "none" opts a mesh out entirely
+ * - `action`: "open:<section>" | "drawer:<section>" | "url:<https url>" | "screen:cycle" | "screen:terminal" | "phone:call"
+ * - `hover`: "pop" | "slide" | "none"
+ * - `slideOffset`: [x, y, z] or "x,y,z", local offset used by slide hovers
+ * - `accent`: whether to tint the mesh while hovered
+ */
+
+import { z } from "zod";
+import { PORTFOLIO_SECTIONS, type PortfolioSection } from "./portfolioRoutes";
+import { type ClickAction, type HoverAnimation, type InteractionEntry } from "./sceneInteractions";
+
+const DEFAULT_SLIDE_OFFSET: [number, number, number] = [0, 0, 100];
+const DEFAULT_SLIDE_DURATION = 0.3;
+const DEFAULT_SLIDE_RESTORE_DURATION = 0.25;
+
+const VectorSchema = z.union([
+  z.tuple([z.number(), z.number(), z.number()]),
+  z
+    .string()
+    .transform((value) => value.split(",").map((part) => Number(part.trim())))
+    .pipe(z.tuple([z.number().finite(), z.number().finite(), z.number().finite()])),
+]);
+
+const InteractionExtrasSchema = z.object({
+  preset: z.string().optional(),
+  interaction: z.enum(["click", "hover", "none"]).optional(),
+  action: z.string().optional(),
+  hover: z.enum(["pop", "slide", "none"]).optional(),
+  slideOffset: VectorSchema.optional(),
+  accent: z.boolean().optional(),
+});
+
+export type InteractionExtras = z.infer<typeof InteractionExtrasSchema>;
+
+const EXTRAS_KEYS = Object.keys(InteractionExtrasSchema.shape);
+
+/**
+ * Reads interaction extras from an object's userData.
+ * Returns `null` when none of the supported keys are present, and issues for invalid values.
+ */
+export function readInteractionExtras(userData: Record<string, unknown>): { extras: InteractionExtras | null; issues: string[] } {
+  if (!EXTRAS_KEYS.some((key) => key in userData)) return { extras: null, issues: [] };
+
+  const result = InteractionExtrasSchema.safeParse(userData);
+  if (result.success) return { extras: result.data, issues: [] };
+
+  const issues = result.error.issues.map((issue) => `invalid extra "${issue.path.join(".")}": ${issue.message}`);
+  return { extras: null, issues };
+}
+
+/** Parses an `action` extra like "open:software", "url:https://...", "screen:cycle", "screen:terminal" or "phone:call" */
+export function parseActionExtra(action: string): ClickAction | null {
+  const separator = action.indexOf(":");
+  if (separator === -1) return null;
+
+  const kind = action.slice(0, separator);
+  const value = action.slice(separator + 1);
+
+  if (kind === "open" && PORTFOLIO_SECTIONS.includes(value as PortfolioSection)) {
+    return { type: "openSection", section: value as PortfolioSection };
+  }
+  if (kind === "drawer" && PORTFOLIO_SECTIONS.includes(value as PortfolioSection)) {
+    return { type: "toggleDrawer", section: value as PortfolioSection };
+  }
+  if (kind === "url" && /^https?:\/\//.test(value)) return { type: "openUrl", url: value };
+  if (kind === "screen" && value === "cycle") return { type: "cycleScreen" };
+  if (kind === "screen" && value === "terminal") return { type: "openTerminal" };
+  if (kind === "phone" && value === "call") return { type: "callPhone" };
+  return null;
+}
+
+function toHoverAnimation(extras: InteractionExtras, base: HoverAnimation | undefined): HoverAnimation | undefined {
+  const type = extras.hover ?? base?.type;
+  if (type === "slide") {
+    const baseSlide = base?.type === "slide" ? base : undefined;
+    return {
+      type: "slide",
+      offset: extras.slideOffset ?? baseSlide?.offset ?? DEFAULT_SLIDE_OFFSET,
+      duration: baseSlide?.duration ?? DEFAULT_SLIDE_DURATION,
+      restoreDuration: baseSlide?.restoreDuration ?? DEFAULT_SLIDE_RESTORE_DURATION,
+    };
+  }
+  return type ? { type } : undefined;
+}
+
+/**
+ * Layers extras over a registry entry (or builds an entry from extras alone).
+ * Returns `null` for opted-out meshes, plus issues for combinations that don't make sense.
+ */
+export function applyInteractionExtras(base: InteractionEntry | null, extras: InteractionExtras): { entry: InteractionEntry | null; issues: string[] } {
+  const issues: string[] = [];
+  if (extras.interaction === "none") return { entry: null, issues };
+
+  let click = base?.click;
+  if (extras.action !== undefined) {
+    const parsed = parseActionExtra(extras.action);
+    if (parsed) click = parsed;
+    else issues.push(`unrecognised action "${extras.action}"`);
+  }
+  if (base?.click && click && click !== base.click) {
+    issues.push(`action extra overrides the registry ${base.click.type} action`);
+  }
+
+  if (extras.interaction === "hover") {
+    if (extras.action !== undefined) issues.push(`action "${extras.action}" is ignored because interaction is "hover"`);
+    click = undefined;
+  }
+  if (extras.interaction === "click" && !click) {
+    issues.push(`interaction is "click" but no action is set`);
+  }
+
+  const hover = toHoverAnimation(extras, base?.hover) ?? { type: "pop" };
+  if (extras.slideOffset && hover.type !== "slide") {
+    issues.push(`slideOffset is ignored because hover is "${hover.type}"`);
+  }
+
+  const entry: InteractionEntry = {
+    ...base,
+    hover,
+    click,
+    sounds: {
+      hover: base ? base.sounds.hover : "pop",
+      click: click ? (base?.sounds.click ?? "click") : null,
+    },
+    accent: extras.accent ?? base?.accent ?? Boolean(click),
+  };
+  return { entry, issues };
+}
@@ -0,0 +1,39 @@
+/**
+ * Words that do something when typed on the desk keyboard
+ * Used in: usePlayableKeyboard, while the scene itself has the keyboard (not the terminal or a form field)
+ */
+
+import { startTour } from "./cameraDirector";
+import { appendTerminalLines, openTerminal } from "./terminal";
+import { setManualHour } from "./timeOfDay";
+import { setWeatherSetting } from "./weather";
+
+export type KeyboardEasterEgg = {
+  /** Lowercase letters only; typed anywhere in a run of letters */
+  word: string;
+  /** Read out by screen readers when the word fires */
+  announcement: string;
+  run: () => void;
+};
+
+export const KEYBOARD_EASTER_EGGS: KeyboardEasterEgg[] = [
+  { word: "tour", announcement: "Starting the guided tour.", run: startTour },
+  { word: "rain", announcement: "Weather set to rain.", run: () => setWeatherSetting("rain") },
+  { word: "snow", announcement: "Weather set to snow.", run: () => setWeatherSetting("snow") },
+  { word: "sunny", announcement: "Weather set to clear.", run: () => setWeatherSetting("clear") },
+  { word: "night", announcement: "Time set to 10 PM.", run: () => setManualHour(22) },
+  { word: "noon", announcement: "Time set to noon.", run: () => setManualHour(12) },
+  {
+    word: "sudo",
+    announcement: "Opening the terminal.",
+    run: () => {
+      openTerminal();
+      appendTerminalLines([{ text: "guest is not in the sudoers file. This incident will be reported.", kind: "error" }]);
+    },
+  },
+];
+
+/** The egg whose word the typed letters end with, if any */
+export function matchEasterEgg(typed: string, eggs: KeyboardEasterEgg[]): KeyboardEasterEgg | undefined {
+  return eggs.find((egg) => typed.endsWith(egg.word));
+}
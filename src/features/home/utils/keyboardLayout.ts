@@ -0,0 +1,115 @@
+/**
+ * Maps physical keys (KeyboardEvent.code) to the key meshes on the desk keyboard
+ * Used in: usePlayableKeyboard
+ *
+ * The model's keys are anonymous `pCube` meshes, so by default they're laid out automatically: keys are
+ * grouped into rows by their distance from the monitor and sorted left to right, then matched against
+ * KEYBOARD_ROWS. Individual keys can be pinned with KEY_MESH_OVERRIDES or a `keyCode` glTF extra on the mesh.
+ */
+
+import * as THREE from "three";
+
+/** US QWERTY rows from the number row down, as KeyboardEvent.code values */
+export const KEYBOARD_ROWS: string[][] = [
+  ["Backquote", "Digit1", "Digit2", "Digit3", "Digit4", "Digit5", "Digit6", "Digit7", "Digit8", "Digit9", "Digit0", "Minus", "Equal", "Backspace"],
+  ["Tab", "KeyQ", "KeyW", "KeyE", "KeyR", "KeyT", "KeyY", "KeyU", "KeyI", "KeyO", "KeyP", "BracketLeft", "BracketRight", "Backslash"],
+  ["CapsLock", "KeyA", "KeyS", "KeyD", "KeyF", "KeyG", "KeyH", "KeyJ", "KeyK", "KeyL", "Semicolon", "Quote", "Enter"],
+  ["ShiftLeft", "KeyZ", "KeyX", "KeyC", "KeyV", "KeyB", "KeyN", "KeyM", "Comma", "Period", "Slash", "ShiftRight"],
+  ["ControlLeft", "MetaLeft", "AltLeft", "Space", "AltRight", "MetaRight", "ControlRight"],
+];
+
+/** Pins key codes to mesh names where the automatic layout guesses wrong, e.g. `{ Space: "pCube42" }` */
+export const KEY_MESH_OVERRIDES: Partial<Record<string, string>> = {};
+
+/** Keys in the same row sit within this fraction of the keyboard's depth of each other */
+const ROW_TOLERANCE = 0.12;
+
+/** Name prefix of the keyboard's key meshes in computer.glb */
+const KEY_MESH_PREFIX = "pCube";
+
+type PlacedKey = { mesh: THREE.Mesh; across: number; depth: number };
+
+/** Groups keys into rows, nearest the monitor first, each sorted left to right */
+function groupIntoRows(keys: PlacedKey[]): THREE.Mesh[][] {
+  if (keys.length === 0) return [];
+  const depths = keys.map((key) => key.depth);
+  const tolerance = (Math.max(...depths) - Math.min(...depths)) * ROW_TOLERANCE;
+
+  const rows: PlacedKey[][] = [];
+  for (const key of [...keys].sort((a, b) => b.depth - a.depth)) {
+    const row = rows.at(-1);
+    const rowDepth = row?.[0]?.depth;
+    if (row && rowDepth !== undefined && rowDepth - key.depth <= tolerance) row.push(key);
+    else rows.push([key]);
+  }
+  return rows.map((row) => row.sort((a, b) => a.across - b.across).map((key) => key.mesh));
+}
+
+/** Spreads a row's codes over its meshes; with fewer meshes than codes, neighbouring codes share a mesh */
+function assignRow(codes: string[], meshes: THREE.Mesh[], keyMap: Map<string, THREE.Mesh>) {
+  if (meshes.length === 0) return;
+  codes.forEach((code, index) => {
+    if (keyMap.has(code)) return;
+    const meshIndex = codes.length === 1 ? 0 : Math.round((index * (meshes.length - 1)) / (codes.length - 1));
+    const mesh = meshes[meshIndex];
+    if (mesh) keyMap.set(code, mesh);
+  });
+}
+
+function getKeyCodeExtra(mesh: THREE.Object3D): string | undefined {
+  const code = (mesh.userData as { keyCode?: unknown }).keyCode;
+  return typeof code === "string" ? code : undefined;
+}
+
+/** Whether a mesh is one of the desk keyboard's keys */
+export function isKeyboardKey(mesh: THREE.Object3D): boolean {
+  return mesh.name.startsWith(KEY_MESH_PREFIX) || getKeyCodeExtra(mesh) !== undefined;
+}
+
+/**
+ * Builds the code-to-mesh map for a set of key meshes.
+ * `monitorPosition` tells the layout which way the keyboard faces; without it the number row is assumed to be at -z.
+ */
+export function buildKeyMap(keyMeshes: THREE.Mesh[], monitorPosition?: THREE.Vector3): Map<string, THREE.Mesh> {
+  const keyMap = new Map<string, THREE.Mesh>();
+  const byName = new Map(keyMeshes.map((mesh) => [mesh.name, mesh]));
+  const pinned = new Set<THREE.Mesh>();
+
+  for (const mesh of keyMeshes) {
+    const code = getKeyCodeExtra(mesh);
+    if (code) {
+      keyMap.set(code, mesh);
+      pinned.add(mesh);
+    }
+  }
+  for (const [code, name] of Object.entries(KEY_MESH_OVERRIDES)) {
+    const mesh = name ? byName.get(name) : undefined;
+    if (mesh && !keyMap.has(code)) {
+      keyMap.set(code, mesh);
+      pinned.add(mesh);
+    }
+  }
+
+  const positions = keyMeshes.map((mesh) => mesh.getWorldPosition(new THREE.Vector3()));
+  const center = positions.reduce((sum, position) => sum.add(position), new THREE.Vector3()).divideScalar(Math.max(1, positions.length));
+  // "Forward" points from the keyboard towards the monitor, flattened onto the desk
+  const forward = monitorPosition ? monitorPosition.clone().sub(center).setY(0) : new THREE.Vector3(0, 0, -1);
+  if (forward.lengthSq() === 0) forward.set(0, 0, -1);
+  forward.normalize();
+  const right = forward.clone().cross(THREE.Object3D.DEFAULT_UP).normalize();
+
+  const placed: PlacedKey[] = [];
+  keyMeshes.forEach((mesh, index) => {
+    const position = positions[index];
+    if (!position || pinned.has(mesh)) return;
+    const offset = position.sub(center);
+    placed.push({ mesh, across: offset.dot(right), depth: offset.dot(forward) });
+  });
+
+  groupIntoRows(placed).forEach((meshes, rowIndex) => {
+    const codes = KEYBOARD_ROWS[rowIndex];
+    if (codes) assignRow(codes, meshes, keyMap);
+  });
+
+  return keyMap;
+}
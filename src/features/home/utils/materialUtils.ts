@@ -5,6 +5,7 @@
 
 import * as THREE from "three";
 import gsap from "gsap";
+import { type HitboxMetadata } from "./sceneInteractions";
 
 /** Stores original material colors in object userData */
 export function storeOriginalColors(object: THREE.Object3D): void {
@@ -100,8 +101,8 @@ export function restoreOriginalColors(object: THREE.Object3D, animated = true):
 function cloneMaterialsIfNeeded(object: THREE.Mesh): void {
   if (!object.material) return;
 
-  const isPCube = object.name.includes("pCube");
-  if (!isPCube) return;
+  const metadata = object.userData.metadata as HitboxMetadata | undefined;
+  if (!metadata?.entry.ownMaterial) return;
 
   const materials = Array.isArray(object.material) ? object.material : [object.material];
   const clonedMaterials: THREE.Material[] = [];
@@ -0,0 +1,79 @@
+/**
+ * The desk phone's call animation: the handset lifts, the line rings, then the caller carries on
+ * Used in: PortfolioScene's callPhone click action, before the Contact modal opens
+ */
+
+import * as THREE from "three";
+import gsap from "gsap";
+import { playPhoneRing } from "~/lib/sounds";
+import { type HitboxMetadata } from "./sceneInteractions";
+
+/** The handset mesh in phone.glb; the cradle is `phone_base` */
+const HANDSET_NAME = "phone_device";
+/** World units, so the lift looks the same whatever scale the model was exported at */
+const LIFT_HEIGHT = 0.35;
+const LIFT_SECONDS = 0.35;
+/** Matches the two bursts of playPhoneRing */
+const RING_SECONDS = 1;
+const SETTLE_SECONDS = 0.4;
+
+let inProgress: Promise<void> | null = null;
+
+function findHandset(phone: THREE.Object3D): THREE.Object3D | undefined {
+  if (phone.name === HANDSET_NAME) return phone;
+  return phone.parent?.getObjectByName(HANDSET_NAME);
+}
+
+/** World "up" expressed in the handset's parent space, scaled to LIFT_HEIGHT */
+function liftOffset(handset: THREE.Object3D): THREE.Vector3 {
+  const offset = new THREE.Vector3(0, LIFT_HEIGHT, 0);
+  if (!handset.parent) return offset;
+  const parentRotation = handset.parent.getWorldQuaternion(new THREE.Quaternion()).invert();
+  return offset.applyQuaternion(parentRotation).divide(handset.parent.getWorldScale(new THREE.Vector3()));
+}
+
+/**
+ * Lifts the handset and rings, resolving once the ring ends; the handset settles back afterwards.
+ * Clicks until the handset has settled share the running sequence instead of starting another,
+ * so a new lift never fights the previous timeline over the handset position.
+ */
+export function playPhoneSequence(phone: THREE.Object3D, { reducedMotion = false }: { reducedMotion?: boolean } = {}): Promise<void> {
+  if (inProgress) return inProgress;
+
+  const handset = findHandset(phone);
+  const metadata = handset?.userData.metadata as HitboxMetadata | undefined;
+  const restPosition = metadata?.initialPosition ?? handset?.position.clone();
+
+  inProgress = new Promise<void>((resolve) => {
+    if (!handset || !restPosition || reducedMotion) {
+      playPhoneRing();
+      gsap.delayedCall(RING_SECONDS, () => {
+        inProgress = null;
+        resolve();
+      });
+      return;
+    }
+
+    // Tween a proxy rather than the position itself so hover tweens killing position tweens can't cut the lift short
+    const offset = liftOffset(handset);
+    const lift = { amount: 0 };
+    const apply = () => {
+      handset.position.copy(restPosition).addScaledVector(offset, lift.amount);
+    };
+
+    gsap
+      .timeline({
+        onComplete: () => {
+          apply();
+          inProgress = null;
+        },
+      })
+      .to(lift, { amount: 1, duration: LIFT_SECONDS, ease: "back.out(1.7)", onUpdate: apply })
+      .call(playPhoneRing)
+      .to(lift, { amount: 0.9, duration: RING_SECONDS / 4, ease: "sine.inOut", yoyo: true, repeat: 3, onUpdate: apply })
+      .call(resolve)
+      .to(lift, { amount: 0, duration: SETTLE_SECONDS, ease: "power2.inOut", onUpdate: apply });
+  });
+
+  return inProgress;
+}
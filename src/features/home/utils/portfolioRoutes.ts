@@ -0,0 +1,74 @@
+/**
+ * URL <-> modal state mapping for the portfolio
+ * Used in: usePortfolioRoute and the home catch-all page for validating deep links
+ *
+ * Routes: /software, /software/<slug>, /arts, /arts/<slug>, /about?tab=<tab>, /contact
+ * A project route can add ?image=<n> (1-based) to open its gallery on that image.
+ */
+
+export const PORTFOLIO_SECTIONS = ["software", "arts", "about", "contact"] as const;
+export const ABOUT_TABS = ["about", "experience", "activities"] as const;
+
+/** Portfolio modals that can be opened from the scene, navbar or URL */
+export type PortfolioSection = (typeof PORTFOLIO_SECTIONS)[number];
+export type AboutTab = (typeof ABOUT_TABS)[number];
+
+export type PortfolioRoute = {
+  section: PortfolioSection | null;
+  /** Project slug, only for software and arts */
+  slug?: string;
+  /** About modal tab, omitted for the default "about" tab */
+  tab?: AboutTab;
+  /** 0-based gallery image index, only alongside a slug */
+  image?: number;
+};
+
+/** Sections whose projects can be linked to individually */
+const PROJECT_SECTIONS: readonly PortfolioSection[] = ["software", "arts"];
+
+function isPortfolioSection(value: string | undefined): value is PortfolioSection {
+  return PORTFOLIO_SECTIONS.includes(value as PortfolioSection);
+}
+
+function isAboutTab(value: string | null): value is AboutTab {
+  return ABOUT_TABS.includes(value as AboutTab);
+}
+
+/**
+ * Parses path segments into a route, or `null` when the path isn't a portfolio route.
+ * Unknown query params are ignored rather than rejected.
+ */
+export function parsePortfolioRoute(segments: string[], searchParams?: URLSearchParams): PortfolioRoute | null {
+  const [section, slug, ...rest] = segments;
+  if (section === undefined) return { section: null };
+  if (!isPortfolioSection(section) || rest.length > 0) return null;
+  if (slug !== undefined && !PROJECT_SECTIONS.includes(section)) return null;
+
+  const route: PortfolioRoute = { section, slug };
+
+  const tab = searchParams?.get("tab") ?? null;
+  if (section === "about" && isAboutTab(tab) && tab !== "about") route.tab = tab;
+
+  const image = Number(searchParams?.get("image"));
+  if (slug !== undefined && Number.isInteger(image) && image >= 1) route.image = image - 1;
+
+  return route;
+}
+
+/** Splits a pathname into segments for `parsePortfolioRoute` */
+export function toPathSegments(pathname: string): string[] {
+  return pathname.split("/").filter(Boolean).map(decodeURIComponent);
+}
+
+/** Builds the canonical URL for a route */
+export function toPortfolioHref({ section, slug, tab, image }: PortfolioRoute): string {
+  if (!section) return "/";
+
+  const path = slug ? `/${section}/${encodeURIComponent(slug)}` : `/${section}`;
+  const params = new URLSearchParams();
+  if (section === "about" && tab && tab !== "about") params.set("tab", tab);
+  if (slug && image !== undefined) params.set("image", String(image + 1));
+
+  const query = params.toString();
+  return query ? `${path}?${query}` : path;
+}
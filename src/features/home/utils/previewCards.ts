@@ -0,0 +1,95 @@
+/**
+ * Canvas textures for the project cards that float over an open cabinet drawer
+ * Used in: DrawerPreviews
+ *
+ * Each card is drawn once with its title, then again when the cover image arrives, so a slow or missing
+ * image still leaves a readable card.
+ */
+
+import * as THREE from "three";
+
+const WIDTH = 320;
+const HEIGHT = 240;
+const TITLE_BAR_HEIGHT = 52;
+const FONT = "600 22px ui-monospace, SFMono-Regular, Menlo, monospace";
+
+const COLORS = {
+  background: "#1b1d22",
+  titleBar: "rgba(10, 11, 14, 0.82)",
+  title: "#f4f4f5",
+  placeholder: "#3a3d45",
+} as const;
+
+export type PreviewCard = {
+  texture: THREE.CanvasTexture;
+  dispose: () => void;
+};
+
+/** Shortens text with an ellipsis until it fits `maxWidth` */
+function fitText(context: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+  if (context.measureText(text).width <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 1 && context.measureText(`${fitted}…`).width > maxWidth) fitted = fitted.slice(0, -1);
+  return `${fitted}…`;
+}
+
+/** Draws an image scaled to cover the canvas, like CSS `object-fit: cover` */
+function drawCover(context: CanvasRenderingContext2D, image: HTMLImageElement) {
+  const scale = Math.max(WIDTH / image.naturalWidth, HEIGHT / image.naturalHeight);
+  const width = image.naturalWidth * scale;
+  const height = image.naturalHeight * scale;
+  context.drawImage(image, (WIDTH - width) / 2, (HEIGHT - height) / 2, width, height);
+}
+
+function draw(context: CanvasRenderingContext2D, title: string, image: HTMLImageElement | null) {
+  context.fillStyle = COLORS.background;
+  context.fillRect(0, 0, WIDTH, HEIGHT);
+
+  if (image) {
+    drawCover(context, image);
+  } else {
+    context.fillStyle = COLORS.placeholder;
+    context.fillRect(16, 16, WIDTH - 32, HEIGHT - TITLE_BAR_HEIGHT - 32);
+  }
+
+  context.fillStyle = COLORS.titleBar;
+  context.fillRect(0, HEIGHT - TITLE_BAR_HEIGHT, WIDTH, TITLE_BAR_HEIGHT);
+  context.font = FONT;
+  context.textBaseline = "middle";
+  context.fillStyle = COLORS.title;
+  context.fillText(fitText(context, title, WIDTH - 32), 16, HEIGHT - TITLE_BAR_HEIGHT / 2);
+}
+
+/** Width over height of every card, for sizing the plane it's shown on */
+export const PREVIEW_CARD_ASPECT = WIDTH / HEIGHT;
+
+/** A card showing `title` over the cover image at `imageSrc`, if there is one */
+export function createPreviewCard(title: string, imageSrc?: string): PreviewCard {
+  const canvas = document.createElement("canvas");
+  canvas.width = WIDTH;
+  canvas.height = HEIGHT;
+  const context = canvas.getContext("2d");
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  if (context) draw(context, title, null);
+
+  let disposed = false;
+  if (context && imageSrc) {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => {
+      if (disposed) return;
+      draw(context, title, image);
+      texture.needsUpdate = true;
+    };
+    image.src = imageSrc;
+  }
+
+  return {
+    texture,
+    dispose: () => {
+      disposed = true;
+      texture.dispose();
+    },
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * Graphics quality presets and the persisted quality setting
+ * Used in: useQualitySettings, the scene quality components and the Navbar graphics popover
+ *
+ * The setting lives in a small module-level store (like the mute state in lib/sounds) so the Navbar,
+ * outside the Canvas, and the scene, inside it, read the same value without a provider.
+ */
+
+export const QUALITY_TIERS = ["low", "medium", "high"] as const;
+export type QualityTier = (typeof QUALITY_TIERS)[number];
+export type QualitySetting = QualityTier | "auto";
+
+export type QualityPreset = {
+  /** Canvas device pixel ratio range */
+  dpr: [number, number];
+  shadowMapSize: number;
+  castShadows: boolean;
+  grassCount: number;
+  /** Most detailed grass LOD from grassLODs.glb used near the camera: 0 is LOD00 */
+  grassLod: 0 | 1 | 2;
+  /** How many pointer/camera trail points bend the grass, 0 turns interaction off */
+  grassTrailPoints: number;
+  /** Multiplier on weather particle counts, 0 turns weather off and keeps the sky clear */
+  weatherParticles: number;
+  fog: boolean;
+  /** Only read when the Canvas is created; WebGL can't toggle it on a live context */
+  antialias: boolean;
+};
+
+export const QUALITY_PRESETS: Record<QualityTier, QualityPreset> = {
+  low: { dpr: [0.75, 1], shadowMapSize: 512, castShadows: false, grassCount: 700, grassLod: 2, grassTrailPoints: 0, weatherParticles: 0, fog: false, antialias: false },
+  medium: { dpr: [1, 1.25], shadowMapSize: 1024, castShadows: true, grassCount: 1800, grassLod: 1, grassTrailPoints: 4, weatherParticles: 0.5, fog: true, antialias: true },
+  high: { dpr: [1, 1.5], shadowMapSize: 2048, castShadows: true, grassCount: 3000, grassLod: 0, grassTrailPoints: 8, weatherParticles: 1, fog: true, antialias: true },
+};
+
+export const QUALITY_LABELS: Record<QualitySetting, string> = {
+  auto: "Auto",
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+};
+
+export type QualityState = {
+  setting: QualitySetting;
+  /** Tier Auto has settled on; starts at high and only steps down */
+  autoTier: QualityTier;
+};
+
+const STORAGE_KEY = "vx-graphics-quality";
+const DEFAULT_STATE: QualityState = { setting: "auto", autoTier: "high" };
+
+let state: QualityState = DEFAULT_STATE;
+let hasLoaded = false;
+const listeners = new Set<() => void>();
+
+function isQualitySetting(value: string | null): value is QualitySetting {
+  return value === "auto" || QUALITY_TIERS.includes(value as QualityTier);
+}
+
+function update(next: Partial<QualityState>) {
+  state = { ...state, ...next };
+  listeners.forEach((listener) => listener());
+}
+
+export function getQualityState(): QualityState {
+  if (!hasLoaded && typeof window !== "undefined") {
+    hasLoaded = true;
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (isQualitySetting(stored)) state = { ...state, setting: stored };
+    } catch {
+      // Storage blocked - keep the default for this visit
+    }
+  }
+  return state;
+}
+
+export function getServerQualityState(): QualityState {
+  return DEFAULT_STATE;
+}
+
+export function subscribeQuality(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Saves the chosen setting; switching to Auto restarts measurement from high */
+export function setQualitySetting(setting: QualitySetting) {
+  if (setting === state.setting) return;
+  try {
+    localStorage.setItem(STORAGE_KEY, setting);
+  } catch {
+    // Still applies for this visit
+  }
+  update({ setting, autoTier: setting === "auto" ? "high" : state.autoTier });
+}
+
+/** Drops Auto one tier; returns false when it's already at the lowest */
+export function stepDownAutoTier(): boolean {
+  const index = QUALITY_TIERS.indexOf(state.autoTier);
+  const lower = QUALITY_TIERS[index - 1];
+  if (!lower) return false;
+  update({ autoTier: lower });
+  return true;
+}
+
+export function resolveQualityTier({ setting, autoTier }: QualityState): QualityTier {
+  return setting === "auto" ? autoTier : setting;
+}
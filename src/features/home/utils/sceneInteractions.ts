@@ -1,30 +1,70 @@
 /**
- * Interaction configuration constants and type definitions for 3D scene objects
- * Used in: PortfolioScene and interaction hooks for determining hoverable/clickable objects
+ * Interaction registry and type definitions for 3D scene objects
+ * Used in: PortfolioScene and interaction hooks for resolving how each mesh reacts to hover and click
+ *
+ * Making a new GLB prop interactive only needs an entry in INTERACTION_REGISTRY keyed by the mesh name,
+ * or glTF extras on the node (which three.js copies to userData) - see interactionExtras.ts.
  */
 
 import type * as THREE from "three";
+import { type SoundName } from "~/lib/sounds";
+import { applyInteractionExtras, readInteractionExtras } from "./interactionExtras";
+import { type PortfolioSection } from "./portfolioRoutes";
 
-/** Name patterns that identify hoverable objects */
-export const HOVERABLE_PATTERNS = [
-  "computer",
-  "disk",
-  "phone",
-  "button",
-  "pCube",
-  "cabinet_drawer",
-] as const;
-
-/** Name patterns that identify clickable objects */
-export const CLICKABLE_PATTERNS = [
-  "phone",
-  "disk_linkedin",
-  "disk_github",
-  "computer",
-  "cabinet_drawer_about",
-  "cabinet_drawer_software",
-  "cabinet_drawer_arts",
-] as const;
+export type { PortfolioSection };
+
+/** How a mesh animates while hovered */
+export type HoverAnimation =
+  | { type: "pop" }
+  | {
+      type: "slide";
+      /** Local-space offset from the mesh's resting position */
+      offset: [number, number, number];
+      duration: number;
+      restoreDuration: number;
+    }
+  | { type: "none" };
+
+/** What happens when a mesh is clicked */
+export type ClickAction =
+  | { type: "openSection"; section: PortfolioSection }
+  | { type: "openProject"; section: PortfolioSection; slug: string }
+  | { type: "toggleDrawer"; section: PortfolioSection }
+  | { type: "openUrl"; url: string }
+  | { type: "cycleScreen" }
+  | { type: "openTerminal" }
+  | { type: "callPhone" }
+  | { type: "custom"; run: (actions: ClickActions, object: THREE.Object3D) => void };
+
+export interface InteractionEntry {
+  /** Name announced to keyboard and screen reader users; falls back to a description of the click action */
+  label?: string;
+  hover: HoverAnimation;
+  /** Omit for hover-only props; clickable props also get the pointer cursor */
+  click?: ClickAction;
+  /** Sounds played on hover and click, `null` for silence */
+  sounds: { hover: SoundName | null; click: SoundName | null };
+  /** Tints the mesh with the accent color while hovered */
+  accent: boolean;
+  /** Gives the mesh its own material copy so accenting it doesn't tint other meshes sharing the material */
+  ownMaterial?: boolean;
+  /** Match every mesh whose name starts with the key, for numbered parts like `pCube12` */
+  matchPrefix?: boolean;
+}
+
+/** Scene-level callbacks that click actions are dispatched to */
+export interface ClickActions {
+  openSection: (section: PortfolioSection) => void;
+  /** Opens a section with one project's details expanded */
+  openProject: (section: PortfolioSection, slug: string) => void;
+  cycleScreen: () => void;
+  /** Switches the computer screen to the terminal and gives it the keyboard */
+  openTerminal: () => void;
+  /** Lifts the handset and rings before opening Contact; `phone` is whichever phone part was clicked */
+  callPhone: (phone: THREE.Object3D) => void;
+  /** Opens a drawer to show its section's projects in the scene, or closes it if it's already open */
+  toggleDrawer: (section: PortfolioSection) => void;
+}
 
 /** Interaction type for scene objects */
 export type InteractionType = "hoverable" | "clickable" | "none";
@@ -33,50 +73,198 @@ export type InteractionType = "hoverable" | "clickable" | "none";
 export interface HitboxMetadata {
   originalObject: THREE.Object3D;
   interactionType: InteractionType;
+  entry: InteractionEntry;
   initialScale: THREE.Vector3;
   initialPosition: THREE.Vector3;
+  /** Keeps a slide hover's open position after the pointer leaves, e.g. a drawer showing its previews */
+  heldOpen?: boolean;
 }
 
-/** Click action callbacks for different object types */
-export interface ClickActions {
-  onPhoneClick: () => void;
-  onComputerClick: () => void;
-  onComputerFrameClick: () => void;
-  onScreenClick: () => void;
-  onDiskLinkedInClick: () => void;
-  onDiskGithubClick: () => void;
-  onDrawerAboutClick: () => void;
-  onDrawerSoftwareClick: () => void;
-  onDrawerArtsClick: () => void;
+export const DEFAULT_SOUNDS: InteractionEntry["sounds"] = { hover: "pop", click: "click" };
+const DRAWER_SLIDE: HoverAnimation = { type: "slide", offset: [0, 0, 100], duration: 0.3, restoreDuration: 0.25 };
+
+/** Every interactive prop in the scene, keyed by mesh name (or name prefix) or referenced by a glTF `preset` extra */
+export const INTERACTION_REGISTRY: Record<string, InteractionEntry> = {
+  // Phone
+  phone_: {
+    label: "Phone",
+    matchPrefix: true,
+    hover: { type: "pop" },
+    click: { type: "callPhone" },
+    sounds: DEFAULT_SOUNDS,
+    accent: true,
+  },
+
+  // Computer
+  computer_screen: {
+    label: "Computer screen",
+    hover: { type: "pop" },
+    click: { type: "cycleScreen" },
+    sounds: DEFAULT_SOUNDS,
+    accent: true,
+  },
+  computer_frame: {
+    label: "Computer frame",
+    hover: { type: "pop" },
+    click: { type: "openSection", section: "about" },
+    sounds: DEFAULT_SOUNDS,
+    accent: true,
+  },
+  computer: {
+    label: "Computer",
+    matchPrefix: true,
+    hover: { type: "pop" },
+    click: { type: "openSection", section: "software" },
+    sounds: DEFAULT_SOUNDS,
+    accent: true,
+  },
+  // Keyboard keys
+  pCube: {
+    label: "Keyboard",
+    matchPrefix: true,
+    ownMaterial: true,
+    hover: { type: "slide", offset: [0, -3.3, 0], duration: 0.2, restoreDuration: 0.2 },
+    click: { type: "openTerminal" },
+    sounds: { hover: "pop", click: "click" },
+    accent: true,
+  },
+
+  // Disks
+  disk_linkedin: {
+    label: "LinkedIn disk",
+    hover: { type: "pop" },
+    click: { type: "openUrl", url: "https://www.linkedin.com/in/vincent-xian/" },
+    sounds: DEFAULT_SOUNDS,
+    accent: true,
+  },
+  disk_github: {
+    label: "GitHub disk",
+    hover: { type: "pop" },
+    click: { type: "openUrl", url: "https://github.com/pwazta" },
+    sounds: DEFAULT_SOUNDS,
+    accent: true,
+  },
+  disk: {
+    matchPrefix: true,
+    hover: { type: "pop" },
+    sounds: { hover: "pop", click: null },
+    accent: false,
+  },
+
+  // Cabinet
+  cabinet_drawer_about: {
+    label: "About drawer",
+    hover: DRAWER_SLIDE,
+    click: { type: "openSection", section: "about" },
+    sounds: DEFAULT_SOUNDS,
+    accent: true,
+  },
+  cabinet_drawer_software: {
+    label: "Software drawer",
+    hover: DRAWER_SLIDE,
+    click: { type: "toggleDrawer", section: "software" },
+    sounds: DEFAULT_SOUNDS,
+    accent: true,
+  },
+  cabinet_drawer_arts: {
+    label: "Arts drawer",
+    hover: DRAWER_SLIDE,
+    click: { type: "toggleDrawer", section: "arts" },
+    sounds: DEFAULT_SOUNDS,
+    accent: true,
+  },
+  cabinet_lockbutton: {
+    hover: { type: "pop" },
+    sounds: { hover: "pop", click: null },
+    accent: false,
+  },
+};
+
+/** Prefix entries sorted longest first so the most specific prefix wins */
+const PREFIX_KEYS = Object.keys(INTERACTION_REGISTRY)
+  .filter((key) => INTERACTION_REGISTRY[key]?.matchPrefix)
+  .sort((a, b) => b.length - a.length);
+
+/** Looks up a mesh name in the registry: exact match first, then the longest matching prefix */
+export function findRegistryEntry(name: string): InteractionEntry | null {
+  const exact = INTERACTION_REGISTRY[name];
+  if (exact) return exact;
+
+  const prefix = PREFIX_KEYS.find((key) => name.startsWith(key));
+  return prefix ? (INTERACTION_REGISTRY[prefix] ?? null) : null;
 }
 
-/** Determines if an object name matches hoverable patterns */
-export function isHoverable(name: string): boolean {
-  return HOVERABLE_PATTERNS.some((pattern) => name.includes(pattern));
+/** How a mesh's interaction was decided, with anything odd found along the way */
+export interface InteractionResolution {
+  entry: InteractionEntry | null;
+  source: "extras" | "name" | null;
+  /** Set when extras explicitly opt the mesh out with `interaction: "none"` */
+  optedOut: boolean;
+  issues: string[];
 }
 
-/** Determines if an object name matches clickable patterns */
-export function isClickable(name: string): boolean {
-  return CLICKABLE_PATTERNS.some((pattern) => name.includes(pattern));
+/**
+ * Resolves a mesh's interaction. glTF extras win: a `preset` replaces the name match as the base,
+ * and the other extras override individual fields. Without extras the name match is used as-is.
+ */
+export function resolveInteraction(object: THREE.Object3D): InteractionResolution {
+  const nameEntry = findRegistryEntry(object.name);
+  const { extras, issues } = readInteractionExtras(object.userData as Record<string, unknown>);
+  if (!extras) return { entry: nameEntry, source: nameEntry ? "name" : null, optedOut: false, issues };
+
+  let base = nameEntry;
+  if (extras.preset !== undefined) {
+    const preset = INTERACTION_REGISTRY[extras.preset];
+    if (preset) base = preset;
+    else issues.push(`unknown preset "${extras.preset}"`);
+  }
+
+  const applied = applyInteractionExtras(base, extras);
+  return {
+    entry: applied.entry,
+    source: "extras",
+    optedOut: extras.interaction === "none",
+    issues: [...issues, ...applied.issues],
+  };
+}
+
+const SECTION_LABELS: Record<PortfolioSection, string> = {
+  software: "software projects",
+  arts: "artworks",
+  about: "about me",
+  contact: "contact",
+};
+
+/** What activating an entry does, phrased to follow "Press Enter to ..." */
+export function describeClickAction(action: ClickAction): string {
+  switch (action.type) {
+    case "openSection":
+      return `open ${SECTION_LABELS[action.section]}`;
+    case "openProject":
+      return "see the project details";
+    case "toggleDrawer":
+      return `browse ${SECTION_LABELS[action.section]} in the drawer`;
+    case "openUrl":
+      return `visit ${new URL(action.url).hostname.replace(/^www\./, "")}`;
+    case "cycleScreen":
+      return "show the next artwork";
+    case "openTerminal":
+      return "type on the computer";
+    case "callPhone":
+      return "pick up the phone and get in touch";
+    case "custom":
+      return "interact";
+  }
 }
 
-/** Classifies an object's interaction type based on its name */
-export function classifyObject(name: string): InteractionType {
-  if (isClickable(name)) return "clickable";
-  if (isHoverable(name)) return "hoverable";
-  return "none";
+/** Short name for an entry, e.g. "Software drawer" */
+export function labelEntry(entry: InteractionEntry): string {
+  if (entry.label) return entry.label;
+  return entry.click ? describeClickAction(entry.click).replace(/^./, (c) => c.toUpperCase()) : "Object";
 }
 
-/** Gets the click action callback name for a given object name */
-export function getClickActionName(name: string): keyof ClickActions | null {
-  if (name.includes("phone")) return "onPhoneClick";
-  if (name.includes("disk_linkedin")) return "onDiskLinkedInClick";
-  if (name.includes("disk_github")) return "onDiskGithubClick";
-  if (name.includes("computer_screen")) return "onScreenClick";
-  if (name.includes("computer_frame")) return "onComputerFrameClick";
-  if (name.includes("computer")) return "onComputerClick";
-  if (name.includes("cabinet_drawer_about")) return "onDrawerAboutClick";
-  if (name.includes("cabinet_drawer_software")) return "onDrawerSoftwareClick";
-  if (name.includes("cabinet_drawer_arts")) return "onDrawerArtsClick";
-  return null;
+/** Classifies a registry entry's interaction type */
+export function classifyEntry(entry: InteractionEntry | null): InteractionType {
+  if (!entry) return "none";
+  return entry.click ? "clickable" : "hoverable";
 }
@@ -1,10 +1,17 @@
 /**
  * Scene traversal and interactive mesh setup utilities
- * Used in: PortfolioScene for setting up raycaster targets
+ * Used in: PortfolioScene for setting up raycaster targets, keyboard focus stops and the screen reader mirror
  */
 
 import * as THREE from "three";
-import { classifyObject, type HitboxMetadata } from "./sceneInteractions";
+import { classifyEntry, resolveInteraction, type HitboxMetadata } from "./sceneInteractions";
+
+/** One row of the dev-only interaction report */
+type InteractionReportRow = {
+  mesh: string;
+  status: "unmapped" | "conflict";
+  detail: string;
+};
 
 /** Recursively traverses a scene to find all mesh objects */
 function traverseSceneObjects(object: THREE.Object3D): THREE.Mesh<THREE.BufferGeometry, THREE.Material>[] {
@@ -21,26 +28,69 @@ function traverseSceneObjects(object: THREE.Object3D): THREE.Mesh<THREE.BufferGe
   return meshes;
 }
 
+/** GLTFLoader keeps the original node name in userData, which tells model meshes apart from runtime ones like grass */
+function isModelMesh(mesh: THREE.Object3D): boolean {
+  return typeof (mesh.userData as { name?: unknown }).name === "string";
+}
+
+/** Logs model meshes with no interaction and meshes whose extras conflict, so exports can be fixed in Maya */
+function reportInteractionSetup(rows: InteractionReportRow[]): void {
+  if (rows.length === 0) return;
+
+  const conflicts = rows.filter((row) => row.status === "conflict").length;
+  console.groupCollapsed(`[Interactions] ${rows.length - conflicts} unmapped and ${conflicts} conflicting meshes`);
+  console.table(rows);
+  console.info('Add a registry entry in sceneInteractions.ts, or set glTF extras (use interaction: "none" for static meshes).');
+  console.groupEnd();
+}
+
 /** Sets up interactive objects in a scene by marking meshes as interactive */
 export function setupInteractiveObjects(scene: THREE.Scene): THREE.Mesh[] {
   const interactiveMeshes: THREE.Mesh[] = [];
+  const report: InteractionReportRow[] = [];
   const meshes = traverseSceneObjects(scene);
 
   for (const mesh of meshes) {
-    const interactionType = classifyObject(mesh.name);
+    const { entry, optedOut, issues } = resolveInteraction(mesh);
+    const interactionType = classifyEntry(entry);
 
-    if (interactionType !== "none") {
+    for (const issue of issues) {
+      report.push({ mesh: mesh.name, status: "conflict", detail: issue });
+    }
+
+    if (entry && interactionType !== "none") {
       const metadata: HitboxMetadata = {
         originalObject: mesh,
         interactionType,
+        entry,
         initialScale: mesh.scale.clone(),
         initialPosition: mesh.position.clone(),
       };
 
       mesh.userData.metadata = metadata;
       interactiveMeshes.push(mesh);
+    } else if (!optedOut && isModelMesh(mesh)) {
+      report.push({ mesh: mesh.name, status: "unmapped", detail: "no registry entry or interaction extras" });
     }
   }
 
+  if (process.env.NODE_ENV === "development") reportInteractionSetup(report);
+
   return interactiveMeshes;
-}
\ No newline at end of file
+}
+
+/** One mesh per clickable entry (a prop made of several meshes appears once), ordered left to right across the scene */
+export function getClickableObjects(interactiveMeshes: THREE.Mesh[]): THREE.Mesh[] {
+  const seen = new Set<unknown>();
+  const position = new THREE.Vector3();
+  return interactiveMeshes
+    .filter((mesh) => {
+      const metadata = mesh.userData.metadata as HitboxMetadata | undefined;
+      if (metadata?.interactionType !== "clickable" || seen.has(metadata.entry)) return false;
+      seen.add(metadata.entry);
+      return true;
+    })
+    .map((mesh) => ({ mesh, x: mesh.getWorldPosition(position).x }))
+    .sort((a, b) => a.x - b.x)
+    .map(({ mesh }) => mesh);
+}
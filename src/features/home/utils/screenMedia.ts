@@ -0,0 +1,117 @@
+/**
+ * Loads still and animated images as textures for the computer screen
+ * Used in: VideoScreen
+ *
+ * Drawing an animated WebP or GIF to a canvas only ever gives its first frame, so animated images are decoded
+ * with WebCodecs' ImageDecoder where the browser has it and played back frame by frame. Elsewhere they
+ * show as a still.
+ */
+
+import * as THREE from "three";
+
+export type ScreenImage = {
+  texture: THREE.Texture;
+  /** Moves an animated image on by `delta` seconds; a no-op for stills */
+  advance: (delta: number) => void;
+  dispose: () => void;
+};
+
+/** Frame duration for animated images that don't specify one */
+const DEFAULT_FRAME_SECONDS = 0.1;
+
+function loadStill(src: string): Promise<ScreenImage> {
+  return new THREE.TextureLoader().loadAsync(src).then((texture) => {
+    texture.colorSpace = THREE.SRGBColorSpace;
+    return { texture, advance: () => undefined, dispose: () => texture.dispose() };
+  });
+}
+
+/** Decodes a still from bytes already fetched, rather than loading the URL a second time */
+async function loadStillFromBlob(blob: Blob): Promise<ScreenImage> {
+  const url = URL.createObjectURL(blob);
+  try {
+    return await loadStill(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+async function loadAnimated(blob: Blob): Promise<ScreenImage | null> {
+  const type = blob.type;
+  if (!(await ImageDecoder.isTypeSupported(type))) return null;
+
+  const decoder = new ImageDecoder({ data: blob.stream(), type });
+  await decoder.tracks.ready;
+  const track = decoder.tracks.selectedTrack;
+  if (!track?.animated) {
+    decoder.close();
+    return null;
+  }
+  await decoder.completed;
+
+  const { image: first } = await decoder.decode({ frameIndex: 0 });
+  const canvas = document.createElement("canvas");
+  canvas.width = first.displayWidth;
+  canvas.height = first.displayHeight;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    first.close();
+    decoder.close();
+    return null;
+  }
+  context.drawImage(first, 0, 0);
+  let frameSeconds = (first.duration ?? 0) / 1e6 || DEFAULT_FRAME_SECONDS;
+  first.close();
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+
+  let frameIndex = 0;
+  let elapsed = 0;
+  let isDecoding = false;
+  let isDisposed = false;
+
+  return {
+    texture,
+    advance: (delta) => {
+      elapsed += delta;
+      if (isDecoding || elapsed < frameSeconds) return;
+      elapsed = 0;
+      isDecoding = true;
+      frameIndex = (frameIndex + 1) % track.frameCount;
+      void decoder
+        .decode({ frameIndex })
+        .then(({ image }) => {
+          if (!isDisposed) {
+            context.drawImage(image, 0, 0, canvas.width, canvas.height);
+            texture.needsUpdate = true;
+            frameSeconds = (image.duration ?? 0) / 1e6 || DEFAULT_FRAME_SECONDS;
+          }
+          image.close();
+        })
+        .catch(() => { /* A frame that fails to decode is skipped */ })
+        .finally(() => {
+          isDecoding = false;
+        });
+    },
+    dispose: () => {
+      isDisposed = true;
+      decoder.close();
+      texture.dispose();
+    },
+  };
+}
+
+/** Loads an image for the screen, animated where the format and browser allow; the file is only fetched once */
+export async function loadScreenImage(src: string): Promise<ScreenImage> {
+  if (typeof ImageDecoder === "undefined") return loadStill(src);
+
+  const blob = await fetch(src)
+    .then((response) => (response.ok ? response.blob() : null))
+    .catch(() => null);
+  // Let the texture loader try, and report, anything fetch couldn't get
+  if (!blob) return loadStill(src);
+
+  const animated = await loadAnimated(blob).catch(() => null);
+  return animated ?? loadStillFromBlob(blob);
+}
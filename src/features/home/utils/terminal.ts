@@ -0,0 +1,97 @@
+/**
+ * State for the terminal that can take over the in-scene computer screen
+ * Used in: useTerminal, the screen texture in VideoScreen and TerminalInput
+ *
+ * The monitor is drawn inside the Canvas while keystrokes arrive through a DOM input outside it, so the two
+ * share this module-level store the same way the camera director's overlay and controller do.
+ */
+
+export type TerminalLine = {
+  text: string;
+  /** Typed commands are echoed after the prompt; everything else is output */
+  kind: "command" | "output" | "error";
+};
+
+export type TerminalState = {
+  /** What the computer screen shows */
+  mode: "playlist" | "terminal";
+  /** Whether keystrokes currently go to the terminal */
+  focused: boolean;
+  lines: TerminalLine[];
+  input: string;
+  /** Previously run commands, oldest first, for arrow-key recall */
+  history: string[];
+};
+
+export const TERMINAL_PROMPT = "guest@desk:~$ ";
+/** Oldest lines are dropped past this, well beyond what fits on the monitor */
+const MAX_LINES = 200;
+const MAX_HISTORY = 50;
+
+const WELCOME_LINES: TerminalLine[] = [
+  { text: "vx-os 1.0 - type `help` to see what this computer can do.", kind: "output" },
+  { text: "Press Esc to go back to the screensaver.", kind: "output" },
+];
+
+const DEFAULT_STATE: TerminalState = { mode: "playlist", focused: false, lines: WELCOME_LINES, input: "", history: [] };
+
+let state: TerminalState = DEFAULT_STATE;
+const listeners = new Set<() => void>();
+
+function update(next: Partial<TerminalState>) {
+  state = { ...state, ...next };
+  listeners.forEach((listener) => listener());
+}
+
+export function getTerminalState(): TerminalState {
+  return state;
+}
+
+export function getServerTerminalState(): TerminalState {
+  return DEFAULT_STATE;
+}
+
+export function subscribeTerminal(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Switches the screen to the terminal and sends keystrokes to it */
+export function openTerminal() {
+  update({ mode: "terminal", focused: true });
+}
+
+/** Returns the screen to the playlist */
+export function exitTerminal() {
+  if (state.mode === "playlist" && !state.focused) return;
+  update({ mode: "playlist", focused: false, input: "" });
+}
+
+export function setTerminalFocused(focused: boolean) {
+  if (focused === state.focused) return;
+  update({ focused });
+}
+
+export function setTerminalInput(input: string) {
+  update({ input });
+}
+
+export function appendTerminalLines(lines: TerminalLine[]) {
+  update({ lines: [...state.lines, ...lines].slice(-MAX_LINES) });
+}
+
+export function clearTerminal() {
+  update({ lines: [] });
+}
+
+/** Echoes a submitted command, records it for recall and clears the input line */
+export function recordTerminalCommand(command: string) {
+  const history = command && state.history.at(-1) !== command ? [...state.history, command].slice(-MAX_HISTORY) : state.history;
+  update({
+    lines: [...state.lines, { text: command, kind: "command" as const }].slice(-MAX_LINES),
+    input: "",
+    history,
+  });
+}
@@ -0,0 +1,112 @@
+/**
+ * Commands understood by the in-scene computer terminal
+ * Used in: TerminalInput
+ *
+ * Commands that open something go through the same ClickActions as clicking objects in the scene, so
+ * `open software` behaves exactly like clicking the computer. The cabinet drawers only toggle their
+ * preview cards, so they have no terminal equivalent.
+ */
+
+import { type Project } from "~/types/project";
+import { PORTFOLIO_SECTIONS, type PortfolioSection } from "./portfolioRoutes";
+import { type ClickActions } from "./sceneInteractions";
+import { type TerminalLine } from "./terminal";
+
+export type TerminalContext = {
+  /** Every project, software and arts, or empty while still loading */
+  projects: Project[];
+  actions: ClickActions;
+};
+
+export type TerminalResult = {
+  output: TerminalLine[];
+  /** Side effects on the terminal itself, applied after the output */
+  effect?: "clear" | "exit";
+};
+
+const HELP_LINES = [
+  "ls                 list what's on this computer",
+  "ls projects        list every project (or: ls software, ls arts)",
+  "open <name>        open a section or project, e.g. open whisker-isles",
+  "about, contact     open those sections",
+  "clear              clear the screen",
+  "exit               back to the screensaver",
+];
+
+function output(...texts: string[]): TerminalResult {
+  return { output: texts.map((text) => ({ text, kind: "output" })) };
+}
+
+function error(text: string): TerminalResult {
+  return { output: [{ text, kind: "error" }] };
+}
+
+function projectSection(project: Project): PortfolioSection {
+  return project.section === "SOFTWARE" ? "software" : "arts";
+}
+
+function isPortfolioSection(value: string): value is PortfolioSection {
+  return PORTFOLIO_SECTIONS.includes(value as PortfolioSection);
+}
+
+function listProjects(projects: Project[], section?: PortfolioSection): TerminalResult {
+  const listed = section ? projects.filter((project) => projectSection(project) === section) : projects;
+  if (listed.length === 0) return output("(nothing here yet)");
+  return output(...listed.map((project) => `${projectSection(project)}/${project.slug}`.padEnd(32) + project.title));
+}
+
+function open(target: string | undefined, { projects, actions }: TerminalContext): TerminalResult {
+  if (!target) return error("open: missing name - try `ls` or `ls projects`");
+
+  const name = target.replace(/\/$/, "");
+  if (isPortfolioSection(name)) {
+    actions.openSection(name);
+    return output(`opening ${name}...`);
+  }
+
+  // Accept both "whisker-isles" and "software/whisker-isles"
+  const slug = name.split("/").pop() ?? name;
+  const project = projects.find((candidate) => candidate.slug === slug);
+  if (!project) return error(`open: no such section or project: ${target}`);
+
+  actions.openProject(projectSection(project), project.slug);
+  return output(`opening ${project.title}...`);
+}
+
+/** Runs one line of input and returns what to print */
+export function runTerminalCommand(input: string, context: TerminalContext): TerminalResult {
+  const [command, ...args] = input.trim().split(/\s+/);
+
+  switch (command?.toLowerCase()) {
+    case undefined:
+    case "":
+      return { output: [] };
+    case "help":
+    case "?":
+      return output(...HELP_LINES);
+    case "ls": {
+      const [target] = args;
+      if (!target) return output("software/  arts/  about  contact");
+      const name = target.replace(/\/$/, "");
+      if (name === "projects") return listProjects(context.projects);
+      if (name === "software" || name === "arts") return listProjects(context.projects, name);
+      return error(`ls: cannot access '${target}': No such file or directory`);
+    }
+    case "open":
+    case "cd":
+      return open(args[0], context);
+    case "about":
+    case "contact":
+      return open(command.toLowerCase(), context);
+    case "whoami":
+      return output("guest");
+    case "echo":
+      return output(args.join(" "));
+    case "clear":
+      return { output: [], effect: "clear" };
+    case "exit":
+      return { output: [], effect: "exit" };
+    default:
+      return error(`${command}: command not found - type \`help\``);
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * Time-of-day setting and the sky, light and grass palette for any hour
+ * Used in: useTimeOfDay, the scene's DayNightLighting and the Navbar graphics popover
+ *
+ * Like the quality setting, the choice lives in a module-level store so the popover outside the Canvas
+ * and the lighting inside it stay in step without a provider.
+ */
+
+import * as THREE from "three";
+import { GRASS_COLOR_PALETTES, type GrassColors } from "./grassColors";
+
+export type TimeOfDayState = {
+  /** "live" follows the visitor's clock, "manual" holds the scrubbed hour */
+  mode: "live" | "manual";
+  /** Hour picked with the scrubber, 0-24 */
+  manualHour: number;
+  /** Switch the site theme to dark at dusk and back to light at dawn */
+  syncTheme: boolean;
+};
+
+const STORAGE_KEY = "vx-time-of-day";
+const DEFAULT_STATE: TimeOfDayState = { mode: "live", manualHour: 12, syncTheme: false };
+
+/** Theme sync switches at these hours */
+export const DAWN_HOUR = 6;
+export const DUSK_HOUR = 19;
+
+let state: TimeOfDayState = DEFAULT_STATE;
+let hasLoaded = false;
+const listeners = new Set<() => void>();
+
+function update(next: Partial<TimeOfDayState>) {
+  state = { ...state, ...next };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch {
+    // Still applies for this visit
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function getTimeOfDayState(): TimeOfDayState {
+  if (!hasLoaded && typeof window !== "undefined") {
+    hasLoaded = true;
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as Partial<TimeOfDayState> | null;
+      if (stored) {
+        state = {
+          mode: stored.mode === "manual" ? "manual" : "live",
+          manualHour: typeof stored.manualHour === "number" ? wrapHour(stored.manualHour) : DEFAULT_STATE.manualHour,
+          syncTheme: stored.syncTheme === true,
+        };
+      }
+    } catch {
+      // Storage blocked or malformed - keep the default for this visit
+    }
+  }
+  return state;
+}
+
+export function getServerTimeOfDayState(): TimeOfDayState {
+  return DEFAULT_STATE;
+}
+
+export function subscribeTimeOfDay(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Scrubbing switches to manual mode */
+export function setManualHour(hour: number) {
+  update({ mode: "manual", manualHour: wrapHour(hour) });
+}
+
+export function setTimeOfDayMode(mode: TimeOfDayState["mode"]) {
+  if (mode === state.mode) return;
+  update({ mode });
+}
+
+export function setThemeSync(syncTheme: boolean) {
+  if (syncTheme === state.syncTheme) return;
+  update({ syncTheme });
+}
+
+function wrapHour(hour: number): number {
+  return ((hour % 24) + 24) % 24;
+}
+
+/** Fractional local hour, e.g. 18.5 for 6:30pm */
+export function hourFromDate(date: Date): number {
+  return date.getHours() + date.getMinutes() / 60 + date.getSeconds() / 3600;
+}
+
+export function resolveHour({ mode, manualHour }: TimeOfDayState, now: Date): number {
+  return mode === "live" ? hourFromDate(now) : manualHour;
+}
+
+export function isNightHour(hour: number): boolean {
+  return hour < DAWN_HOUR || hour >= DUSK_HOUR;
+}
+
+/** Formats a fractional hour as a 24h clock time, e.g. 18.5 -> "18:30" */
+export function formatHour(hour: number): string {
+  const totalMinutes = Math.round(wrapHour(hour) * 60) % (24 * 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+type SkyKeyframe = {
+  hour: number;
+  background: string;
+  fogDensity: number;
+  /** Sun by day, moon by night */
+  keyLightColor: string;
+  keyLightIntensity: number;
+  fillLightIntensity: number;
+  ambientIntensity: number;
+  grass: GrassColors;
+};
+
+const NIGHT: Omit<SkyKeyframe, "hour"> = {
+  background: "#0a0a12",
+  fogDensity: 0.025,
+  keyLightColor: "#a9bde8",
+  keyLightIntensity: 0.7,
+  fillLightIntensity: 0.5,
+  ambientIntensity: 0.15,
+  grass: GRASS_COLOR_PALETTES.dark,
+};
+
+const DAY: Omit<SkyKeyframe, "hour"> = {
+  background: "#eeeeee",
+  fogDensity: 0.02,
+  keyLightColor: "#ffffff",
+  keyLightIntensity: 1,
+  fillLightIntensity: 0.4,
+  ambientIntensity: 0.3,
+  grass: GRASS_COLOR_PALETTES.light,
+};
+
+/** Sorted by hour and wrapping at midnight; values between keyframes are blended linearly */
+const SKY_KEYFRAMES: SkyKeyframe[] = [
+  { hour: 0, ...NIGHT },
+  { hour: 4.5, ...NIGHT },
+  {
+    hour: 6.5,
+    background: "#ecd2c2",
+    fogDensity: 0.03,
+    keyLightColor: "#ffb37a",
+    keyLightIntensity: 0.8,
+    fillLightIntensity: 0.35,
+    ambientIntensity: 0.25,
+    grass: { baseColor: "#262c14", tipColor1: "#b5c67f", tipColor2: "#29331f" },
+  },
+  { hour: 9, ...DAY },
+  { hour: 16.5, ...DAY },
+  {
+    hour: 18.5,
+    background: "#dcaa96",
+    fogDensity: 0.024,
+    keyLightColor: "#ff8c5a",
+    keyLightIntensity: 0.7,
+    fillLightIntensity: 0.35,
+    ambientIntensity: 0.22,
+    grass: { baseColor: "#272a12", tipColor1: "#a9b472", tipColor2: "#2a2f1c" },
+  },
+  { hour: 20.5, ...NIGHT },
+  { hour: 24, ...NIGHT },
+];
+const MIDNIGHT = SKY_KEYFRAMES[0]!;
+
+export type SkySample = {
+  background: THREE.Color;
+  fogDensity: number;
+  keyLightColor: THREE.Color;
+  keyLightIntensity: number;
+  /** Where the sun (or, below the horizon, the moon) sits, relative to the island */
+  keyLightPosition: [number, number, number];
+  fillLightIntensity: number;
+  ambientIntensity: number;
+  grass: Record<keyof GrassColors, THREE.Color>;
+};
+
+/** Distance of the sun and moon from the island centre */
+const CELESTIAL_RADIUS = 10;
+/** How far the dark site theme pulls the sky towards night, so daytime still reads as day but dimmer */
+const DARK_THEME_NIGHT_MIX = 0.6;
+
+function mixColor(from: THREE.ColorRepresentation, to: THREE.ColorRepresentation, t: number): THREE.Color {
+  return new THREE.Color(from).lerp(new THREE.Color(to), t);
+}
+
+/** Pulls a sample part of the way to the night keyframe, keeping the sun or moon where it is */
+function towardNight(sample: SkySample, amount: number): SkySample {
+  const lerp = (from: number, to: number) => THREE.MathUtils.lerp(from, to, amount);
+  const mix = (from: THREE.Color, to: THREE.ColorRepresentation) => from.clone().lerp(new THREE.Color(to), amount);
+  return {
+    ...sample,
+    background: mix(sample.background, NIGHT.background),
+    fogDensity: lerp(sample.fogDensity, NIGHT.fogDensity),
+    keyLightColor: mix(sample.keyLightColor, NIGHT.keyLightColor),
+    keyLightIntensity: lerp(sample.keyLightIntensity, NIGHT.keyLightIntensity),
+    fillLightIntensity: lerp(sample.fillLightIntensity, NIGHT.fillLightIntensity),
+    ambientIntensity: lerp(sample.ambientIntensity, NIGHT.ambientIntensity),
+    grass: {
+      baseColor: mix(sample.grass.baseColor, NIGHT.grass.baseColor),
+      tipColor1: mix(sample.grass.tipColor1, NIGHT.grass.tipColor1),
+      tipColor2: mix(sample.grass.tipColor2, NIGHT.grass.tipColor2),
+    },
+  };
+}
+
+/**
+ * Blends the keyframes either side of an hour and places the sun or moon on its arc.
+ * With `darkTheme` the result is pulled towards night so the scene matches the dark site theme.
+ */
+export function sampleSky(hour: number, darkTheme = false): SkySample {
+  const h = wrapHour(hour);
+  const nextIndex = SKY_KEYFRAMES.findIndex((frame) => frame.hour > h);
+  const to = SKY_KEYFRAMES[nextIndex] ?? MIDNIGHT;
+  const from = SKY_KEYFRAMES[nextIndex - 1] ?? MIDNIGHT;
+  const t = to.hour === from.hour ? 0 : (h - from.hour) / (to.hour - from.hour);
+
+  // The sun rises in the east at 6:00 and sets at 18:00; the moon takes the opposite arc
+  const sunAngle = ((h - 6) / 12) * Math.PI;
+  const sunElevation = Math.sin(sunAngle);
+  const angle = sunElevation >= 0 ? sunAngle : sunAngle + Math.PI;
+  const elevation = Math.abs(sunElevation);
+  // Fade the key light out as a body nears the horizon so the sun/moon handover doesn't snap the shadows
+  const horizonFade = THREE.MathUtils.smoothstep(elevation, 0, 0.2);
+
+  const sample: SkySample = {
+    background: mixColor(from.background, to.background, t),
+    fogDensity: THREE.MathUtils.lerp(from.fogDensity, to.fogDensity, t),
+    keyLightColor: mixColor(from.keyLightColor, to.keyLightColor, t),
+    keyLightIntensity: THREE.MathUtils.lerp(from.keyLightIntensity, to.keyLightIntensity, t),
+    keyLightPosition: [-Math.cos(angle) * CELESTIAL_RADIUS, 2 + elevation * (CELESTIAL_RADIUS - 2), 6],
+    fillLightIntensity: THREE.MathUtils.lerp(from.fillLightIntensity, to.fillLightIntensity, t),
+    ambientIntensity: THREE.MathUtils.lerp(from.ambientIntensity, to.ambientIntensity, t),
+    grass: {
+      baseColor: mixColor(from.grass.baseColor, to.grass.baseColor, t),
+      tipColor1: mixColor(from.grass.tipColor1, to.grass.tipColor1, t),
+      tipColor2: mixColor(from.grass.tipColor2, to.grass.tipColor2, t),
+    },
+  };
+  const themed = darkTheme ? towardNight(sample, DARK_THEME_NIGHT_MIX) : sample;
+  return { ...themed, keyLightIntensity: themed.keyLightIntensity * horizonFade };
+}
@@ -0,0 +1,127 @@
+/**
+ * Weather states, what each one does to the scene, and the persisted weather setting
+ * Used in: useWeather, WeatherSystem, GrassField wind and the Navbar graphics popover
+ *
+ * Follows the same module-level store pattern as the quality and time-of-day settings.
+ */
+
+import { type AmbienceName } from "~/lib/sounds";
+import { isNightHour } from "./timeOfDay";
+
+export const WEATHER_STATES = ["clear", "rain", "snow", "fireflies", "fog"] as const;
+export type WeatherState = (typeof WEATHER_STATES)[number];
+export type WeatherSetting = WeatherState | "auto";
+
+export type ParticleKind = "rain" | "snow" | "fireflies";
+
+export type WeatherPreset = {
+  /** Multiplier on the grass shader's wind sway */
+  windStrength: number;
+  /** Multiplier on how fast the sway cycles */
+  windSpeed: number;
+  /** Multiplier on the time-of-day fog density */
+  fogDensityScale: number;
+  particles: ParticleKind | null;
+  /** Looping sound layered over the ambient wind, `null` for wind alone */
+  ambience: AmbienceName | null;
+};
+
+export const WEATHER_PRESETS: Record<WeatherState, WeatherPreset> = {
+  clear: { windStrength: 1, windSpeed: 1, fogDensityScale: 1, particles: null, ambience: null },
+  rain: { windStrength: 2.2, windSpeed: 2.4, fogDensityScale: 1.6, particles: "rain", ambience: "rain" },
+  snow: { windStrength: 0.6, windSpeed: 0.6, fogDensityScale: 1.8, particles: "snow", ambience: "snow" },
+  fireflies: { windStrength: 0.5, windSpeed: 0.7, fogDensityScale: 1, particles: "fireflies", ambience: "night" },
+  fog: { windStrength: 0.4, windSpeed: 0.5, fogDensityScale: 3.5, particles: null, ambience: "fog" },
+};
+
+export const WEATHER_LABELS: Record<WeatherSetting, string> = {
+  auto: "Auto",
+  clear: "Clear",
+  rain: "Rain",
+  snow: "Snow",
+  fireflies: "Fireflies",
+  fog: "Fog",
+};
+
+const STORAGE_KEY = "vx-weather";
+const DEFAULT_SETTING: WeatherSetting = "auto";
+
+let setting: WeatherSetting = DEFAULT_SETTING;
+let hasLoaded = false;
+const listeners = new Set<() => void>();
+
+function isWeatherSetting(value: string | null): value is WeatherSetting {
+  return value === "auto" || WEATHER_STATES.includes(value as WeatherState);
+}
+
+export function getWeatherSetting(): WeatherSetting {
+  if (!hasLoaded && typeof window !== "undefined") {
+    hasLoaded = true;
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (isWeatherSetting(stored)) setting = stored;
+    } catch {
+      // Storage blocked - keep the default for this visit
+    }
+  }
+  return setting;
+}
+
+export function getServerWeatherSetting(): WeatherSetting {
+  return DEFAULT_SETTING;
+}
+
+export function subscribeWeather(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function setWeatherSetting(next: WeatherSetting) {
+  if (next === setting) return;
+  setting = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, next);
+  } catch {
+    // Still applies for this visit
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/** Auto weather holds each pick for this long before rolling again */
+const AUTO_PERIOD_HOURS = 1 / 3;
+
+/** Day weights for auto weather; clear skies turn into fireflies at night */
+const AUTO_WEIGHTS: [WeatherState, number][] = [
+  ["clear", 0.55],
+  ["rain", 0.2],
+  ["fog", 0.15],
+  ["snow", 0.1],
+];
+
+/** Small deterministic hash so every visitor sees the same weather for a given day and period */
+function hashToUnit(seed: number): number {
+  const x = Math.sin(seed * 12.9898) * 43758.5453;
+  return x - Math.floor(x);
+}
+
+/** Picks weather for a day and hour; stable within each period so it doesn't flicker on re-render */
+export function resolveAutoWeather(hour: number, dayNumber: number): WeatherState {
+  const period = Math.floor(hour / AUTO_PERIOD_HOURS);
+  let roll = hashToUnit(dayNumber * 100 + period);
+
+  let picked: WeatherState = "clear";
+  for (const [state, weight] of AUTO_WEIGHTS) {
+    if (roll < weight) {
+      picked = state;
+      break;
+    }
+    roll -= weight;
+  }
+  return picked === "clear" && isNightHour(hour) ? "fireflies" : picked;
+}
+
+export function resolveWeather(current: WeatherSetting, hour: number, dayNumber: number): WeatherState {
+  return current === "auto" ? resolveAutoWeather(hour, dayNumber) : current;
+}
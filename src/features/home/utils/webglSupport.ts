@@ -0,0 +1,54 @@
+/**
+ * WebGL capability detection and the reasons the portfolio falls back to 2D
+ * Used in: useWebGLMode before mounting the Canvas, and PortfolioScene when the renderer fails later
+ */
+
+export type WebGLFailureReason =
+  | "unsupported"
+  | "performance-caveat"
+  | "context-creation-failed"
+  | "context-lost"
+  | "scene-error";
+
+/** Banner copy for each failure, written for visitors rather than developers */
+export const WEBGL_FAILURE_MESSAGES: Record<WebGLFailureReason, string> = {
+  unsupported: "Your browser doesn't support WebGL, so you're seeing the 2D version of the portfolio.",
+  "performance-caveat": "3D would run slowly on this device (no hardware acceleration), so you're seeing the 2D version.",
+  "context-creation-failed": "The 3D scene couldn't start on this device, so you're seeing the 2D version.",
+  "context-lost": "The 3D scene stopped responding, so we switched to the 2D version.",
+  "scene-error": "Something went wrong loading the 3D scene, so we switched to the 2D version.",
+};
+
+/** Software rasterisers that technically provide WebGL but can't run the scene at a usable frame rate */
+const SOFTWARE_RENDERERS = /swiftshader|llvmpipe|softpipe|microsoft basic render/i;
+
+function readRendererName(gl: WebGLRenderingContext): string {
+  const debugInfo = gl.getExtension("WEBGL_debug_renderer_info");
+  const renderer: unknown = debugInfo ? gl.getParameter(debugInfo.UNMASKED_RENDERER_WEBGL) : gl.getParameter(gl.RENDERER);
+  return typeof renderer === "string" ? renderer : "";
+}
+
+/**
+ * Probes WebGL on a throwaway canvas. Returns `null` when the scene can run,
+ * otherwise why it shouldn't be attempted.
+ */
+export function detectWebGLProblem(): WebGLFailureReason | null {
+  if (typeof window === "undefined" || !("WebGLRenderingContext" in window)) return "unsupported";
+
+  const canvas = document.createElement("canvas");
+  let context = (canvas.getContext("webgl2", { failIfMajorPerformanceCaveat: true }) ??
+    canvas.getContext("webgl", { failIfMajorPerformanceCaveat: true })) as WebGLRenderingContext | null;
+
+  try {
+    if (context) {
+      return SOFTWARE_RENDERERS.test(readRendererName(context)) ? "performance-caveat" : null;
+    }
+
+    // A context that only exists without the caveat flag means software rendering
+    context = canvas.getContext("webgl2") ?? canvas.getContext("webgl");
+    return context ? "performance-caveat" : "unsupported";
+  } finally {
+    // Release whichever probe context was created straight away; browsers cap how many can be alive at once
+    context?.getExtension("WEBGL_lose_context")?.loseContext();
+  }
+}
@@ -1,6 +1,6 @@
 /**
  * Reusable experience/activity card component with image, title, role, and description
- * Used in: ExperienceContent and ActivitiesContent for About modal tabs
+ * Used in: ExperienceContent and ActivitiesContent for About modal tabs, and the /portfolio/about page
  */
 import * as React from "react";
 import Image, { type StaticImageData } from "next/image";
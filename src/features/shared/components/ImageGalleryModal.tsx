@@ -25,9 +25,11 @@ export interface ImageGalleryModalProps {
   onClose: () => void;
   initialIndex?: number;
   projectTitle?: string;
+  /** Called when the visitor moves to another image, e.g. to keep the URL in sync */
+  onIndexChange?: (index: number) => void;
 }
 
-export function ImageGalleryModal({images, isOpen, onClose, initialIndex = 0, projectTitle}: ImageGalleryModalProps) {
+export function ImageGalleryModal({images, isOpen, onClose, initialIndex = 0, projectTitle, onIndexChange}: ImageGalleryModalProps) {
   const isMobile = useIsMobile();
   const [currentIndex, setCurrentIndex] = React.useState(initialIndex);
 
@@ -36,8 +38,13 @@ export function ImageGalleryModal({images, isOpen, onClose, initialIndex = 0, pr
     onClose();
   }, [onClose]);
 
-  const goToPrevious = React.useCallback(() => setCurrentIndex((prev) => (prev === 0 ? images.length - 1 : prev - 1)), [images.length]);
-  const goToNext = React.useCallback(() => setCurrentIndex((prev) => (prev === images.length - 1 ? 0 : prev + 1)), [images.length]);
+  const showImage = React.useCallback((index: number) => {
+    setCurrentIndex(index);
+    onIndexChange?.(index);
+  }, [onIndexChange]);
+
+  const goToPrevious = React.useCallback(() => showImage(currentIndex === 0 ? images.length - 1 : currentIndex - 1), [showImage, currentIndex, images.length]);
+  const goToNext = React.useCallback(() => showImage(currentIndex === images.length - 1 ? 0 : currentIndex + 1), [showImage, currentIndex, images.length]);
 
   React.useEffect(() => {
     if (isOpen) setCurrentIndex(Math.max(0, Math.min(initialIndex, images.length - 1)));
@@ -139,7 +146,7 @@ export function ImageGalleryModal({images, isOpen, onClose, initialIndex = 0, pr
                   {images.map((_, index) => (
                     <button
                       key={index}
-                      onClick={() => setCurrentIndex(index)}
+                      onClick={() => showImage(index)}
                       className={cn("h-2.5 w-2.5 md:h-2 md:w-2 rounded-full transition-all cursor-pointer", index === currentIndex ? "bg-primary" : "bg-muted-foreground/30 hover:bg-muted-foreground/50")}
                       style={index === currentIndex ? { backgroundColor: "var(--primary)" } : undefined}
                       aria-label={`Go to image ${index + 1}`}
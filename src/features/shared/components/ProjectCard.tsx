@@ -1,7 +1,9 @@
 /**
  * Reusable project card component with image, title, description, tech stack, and links
- * Used in: SoftwareContent and other portfolio sections
+ * Used in: SoftwareContent, ArtsContent and the server-rendered /portfolio pages
  */
+"use client";
+
 import * as React from "react";
 import Image from "next/image";
 import { Badge } from "~/features/shared/components/ui/badge";
@@ -21,12 +23,36 @@ export interface ProjectCardProps {
     label: string;
   }>;
   className?: string;
+  /** Scrolls the card into view and outlines it, e.g. when it's the target of a deep link */
+  isHighlighted?: boolean;
+  /** Controls the gallery: the open image index, or `null` when closed. Omit to let the card manage it */
+  galleryIndex?: number | null;
+  onGalleryChange?: (index: number | null) => void;
 }
 
-export function ProjectCard({title, description, images, technologies, links = [], className}: ProjectCardProps) {
+export function ProjectCard({title, description, images, technologies, links = [], className, isHighlighted = false, galleryIndex, onGalleryChange}: ProjectCardProps) {
   const [api, setApi] = React.useState<CarouselApi>();
   const [current, setCurrent] = React.useState(0);
-  const [isGalleryOpen, setIsGalleryOpen] = React.useState(false);
+  const [isGalleryOpenState, setIsGalleryOpenState] = React.useState(false);
+  const cardRef = React.useRef<HTMLDivElement>(null);
+
+  const isControlled = galleryIndex !== undefined;
+  const isGalleryOpen = isControlled ? galleryIndex !== null : isGalleryOpenState;
+
+  const openGallery = () => {
+    playSound("click");
+    if (!isControlled) setIsGalleryOpenState(true);
+    onGalleryChange?.(current);
+  };
+
+  const closeGallery = () => {
+    if (!isControlled) setIsGalleryOpenState(false);
+    onGalleryChange?.(null);
+  };
+
+  React.useEffect(() => {
+    if (isHighlighted) cardRef.current?.scrollIntoView({ block: "nearest" });
+  }, [isHighlighted]);
 
   React.useEffect(() => {
     if (!api) return;
@@ -37,8 +63,10 @@ export function ProjectCard({title, description, images, technologies, links = [
   return (
     <>
       <div
+        ref={cardRef}
         className={cn(
           "flex flex-col md:flex-row gap-3 md:gap-4 p-3 md:p-4 rounded transition-colors hover:bg-muted",
+          isHighlighted && "ring-1 ring-primary",
           className
         )}
       >
@@ -51,14 +79,13 @@ export function ProjectCard({title, description, images, technologies, links = [
                   <CarouselItem key={index}>
                     <div
                       className="relative cursor-pointer group rounded overflow-hidden"
-                      onClick={() => { playSound("click"); setIsGalleryOpen(true); }}
+                      onClick={openGallery}
                       role="button"
                       tabIndex={0}
                       onKeyDown={(e) => {
                         if (e.key === "Enter" || e.key === " ") {
                           e.preventDefault();
-                          playSound("click");
-                          setIsGalleryOpen(true);
+                          openGallery();
                         }
                       }}
                       aria-label="View image gallery"
@@ -130,7 +157,14 @@ export function ProjectCard({title, description, images, technologies, links = [
         </div>
       </div>
       </div>
-      <ImageGalleryModal images={images} isOpen={isGalleryOpen} onClose={() => setIsGalleryOpen(false)} initialIndex={current} projectTitle={title} />
+      <ImageGalleryModal
+        images={images}
+        isOpen={isGalleryOpen}
+        onClose={closeGallery}
+        initialIndex={galleryIndex ?? current}
+        projectTitle={title}
+        onIndexChange={onGalleryChange}
+      />
     </>
   );
 }
@@ -0,0 +1,36 @@
+/**
+ * Error boundary for streamed modal sections with a retry fallback
+ * Used in: Await wrappers for the streamed portfolio modal sections
+ */
+"use client";
+
+import type { FallbackProps } from "react-error-boundary";
+import { TriangleAlert } from "lucide-react";
+import { Button } from "./ui/button";
+import ReusableErrorBoundary from "./ReusableErrorBoundary";
+
+function SectionErrorFallback({ resetErrorBoundary }: FallbackProps) {
+  return (
+    <div className="flex flex-col items-center justify-center gap-3 py-12 text-center">
+      <TriangleAlert className="size-8 text-primary" />
+      <p className="text-sm text-foreground/80">
+        Couldn&apos;t load this section right now.
+      </p>
+      <Button
+        variant="outline"
+        onClick={resetErrorBoundary}
+        className="border-accent/30 hover:bg-accent/10 cursor-pointer"
+      >
+        Try again
+      </Button>
+    </div>
+  );
+}
+
+export function SectionErrorBoundary({ children }: { children: React.ReactNode }) {
+  return (
+    <ReusableErrorBoundary FallbackComponent={SectionErrorFallback}>
+      {children}
+    </ReusableErrorBoundary>
+  );
+}
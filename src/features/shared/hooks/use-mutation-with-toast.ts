@@ -9,8 +9,8 @@ interface UseMutationWithToastOptions<TData, TError, TVariables>
     UseMutationOptions<TData, TError, TVariables>,
     "onSuccess" | "onError"
   > {
-  onSuccess?: (data: TData, variables: TVariables) => void;
-  onError?: (error: TError, variables: TVariables) => void;
+  onSuccess?: (data: TData, variables: TVariables, context: unknown) => void;
+  onError?: (error: TError, variables: TVariables, context: unknown) => void;
   successMessage?: string | ((data: TData, variables: TVariables) => string);
   errorMessage?: string | ((error: TError, variables: TVariables) => string);
 }
@@ -28,7 +28,7 @@ export function useMutationWithToast<TData, TError, TVariables>(
 
   return useMutation({
     ...mutationOptions,
-    onSuccess: (data, variables) => {
+    onSuccess: (data, variables, context) => {
       // Show success toast
       const message =
         typeof successMessage === "function"
@@ -37,9 +37,9 @@ export function useMutationWithToast<TData, TError, TVariables>(
       toast.success(message);
 
       // Call the original success callback
-      onSuccess?.(data, variables);
+      onSuccess?.(data, variables, context);
     },
-    onError: (error, variables) => {
+    onError: (error, variables, context) => {
       // Show error toast
       const message =
         typeof errorMessage === "function"
@@ -48,7 +48,7 @@ export function useMutationWithToast<TData, TError, TVariables>(
       toast.error(message);
 
       // Call the original error callback
-      onError?.(error, variables);
+      onError?.(error, variables, context);
     },
   });
 }
@@ -0,0 +1,22 @@
+import * as React from "react"
+
+const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)"
+
+export function usePrefersReducedMotion() {
+  // Default to false for SSR; the client corrects it on mount
+  const [prefersReducedMotion, setPrefersReducedMotion] = React.useState<boolean>(false)
+
+  React.useEffect(() => {
+    const mql = window.matchMedia(REDUCED_MOTION_QUERY)
+    setPrefersReducedMotion(mql.matches)
+
+    const onChange = () => {
+      setPrefersReducedMotion(mql.matches)
+    }
+
+    mql.addEventListener("change", onChange)
+    return () => mql.removeEventListener("change", onChange)
+  }, [])
+
+  return prefersReducedMotion
+}
@@ -0,0 +1,14 @@
+/**
+ * Renders schema.org structured data as a JSON-LD script tag
+ * Used in: /portfolio pages
+ */
+
+type JsonLdProps = {
+  data: Record<string, unknown> | Record<string, unknown>[];
+};
+
+export function JsonLd({ data }: JsonLdProps) {
+  // Escape "<" so content from the database can't close the script tag early
+  const json = JSON.stringify(data).replace(/</g, "\\u003c");
+  return <script type="application/ld+json" dangerouslySetInnerHTML={{ __html: json }} />;
+}
@@ -0,0 +1,44 @@
+/**
+ * Header navigation for the server-rendered portfolio pages
+ * Used in: /portfolio layout
+ */
+import Link from "next/link";
+import { Box } from "lucide-react";
+import { ThemeToggle } from "~/features/shared/components/ThemeToggle";
+import { SITE_BASE_PATH, toSitePath } from "../utils/siteSections";
+
+const NAV_LINKS = [
+  { href: toSitePath("software"), label: "Software" },
+  { href: toSitePath("arts"), label: "Arts" },
+  { href: toSitePath("about"), label: "About" },
+  { href: toSitePath("contact"), label: "Contact" },
+];
+
+export function SiteHeader() {
+  return (
+    <header className="border-b border-accent/20">
+      <nav aria-label="Portfolio" className="mx-auto flex max-w-4xl flex-wrap items-center justify-between gap-4 px-6 py-4">
+        <Link href={SITE_BASE_PATH} className="text-xl font-semibold text-foreground">
+          vx
+        </Link>
+        <ul className="flex flex-wrap items-center gap-4 text-sm">
+          {NAV_LINKS.map((link) => (
+            <li key={link.href}>
+              <Link href={link.href} className="text-foreground/80 hover:text-primary transition-colors">
+                {link.label}
+              </Link>
+            </li>
+          ))}
+          <li>
+            <Link href="/" className="flex items-center gap-1 text-primary hover:opacity-80 transition-opacity">
+              <Box className="size-4" aria-hidden="true" /> 3D site
+            </Link>
+          </li>
+          <li>
+            <ThemeToggle />
+          </li>
+        </ul>
+      </nav>
+    </header>
+  );
+}
@@ -0,0 +1,28 @@
+/**
+ * Page heading in the same mono, shadowed style as the modal headers
+ * Used in: /portfolio pages
+ */
+import * as React from "react";
+
+type SiteHeadingProps = {
+  children: React.ReactNode;
+  icon?: React.ReactNode;
+};
+
+export function SiteHeading({ children, icon }: SiteHeadingProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <h1
+        className="text-3xl font-semibold mb-1"
+        style={{
+          color: "var(--foreground)",
+          fontFamily: "var(--font-mono)",
+          textShadow: "2px 2px 0px color-mix(in srgb, var(--primary) 50%, transparent)",
+        }}
+      >
+        {children}
+      </h1>
+      {icon}
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+/**
+ * Link from a server-rendered page to the same content inside the 3D scene
+ * Used in: /portfolio pages
+ */
+import Link from "next/link";
+import { Box } from "lucide-react";
+import { toPortfolioHref, type PortfolioRoute } from "~/features/home/utils/portfolioRoutes";
+
+type View3DLinkProps = {
+  route: PortfolioRoute;
+  label?: string;
+};
+
+export function View3DLink({ route, label = "View in 3D" }: View3DLinkProps) {
+  return (
+    <Link
+      href={toPortfolioHref(route)}
+      className="inline-flex items-center gap-1 text-sm text-primary hover:opacity-80 transition-opacity"
+    >
+      <Box className="size-4" aria-hidden="true" /> {label}
+    </Link>
+  );
+}
@@ -0,0 +1,20 @@
+/**
+ * Server-side reads for the /portfolio pages, through the same tRPC procedures the modals use
+ * Used in: /portfolio pages and generateMetadata; the request-scoped query client dedupes repeat reads
+ */
+import { getQueryClient, trpc } from "~/trpc/server";
+import { type ExperienceKind } from "~/types/experience";
+import { PROJECT_PAGES, type ProjectPageKey } from "./siteSections";
+
+export function getSectionProjects(page: ProjectPageKey) {
+  return getQueryClient().fetchQuery(trpc.project.bySection.queryOptions({ section: PROJECT_PAGES[page].section }));
+}
+
+export async function getProjectBySlug(page: ProjectPageKey, slug: string) {
+  const projects = await getSectionProjects(page);
+  return projects.find((project) => project.slug === slug) ?? null;
+}
+
+export function getExperiences(kind: ExperienceKind) {
+  return getQueryClient().fetchQuery(trpc.experience.byKind.queryOptions({ kind }));
+}
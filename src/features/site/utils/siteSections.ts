@@ -0,0 +1,41 @@
+/**
+ * Sections of the server-rendered portfolio and their copy
+ * Used in: /portfolio pages, their metadata and the sitemap
+ */
+import { type ProjectSection } from "~/types/project";
+
+export const SITE_BASE_PATH = "/portfolio";
+
+type ProjectPage = {
+  section: ProjectSection;
+  title: string;
+  heading: string;
+  description: string;
+};
+
+/** Project sections that have a list page and a page per project */
+export const PROJECT_PAGES = {
+  software: {
+    section: "SOFTWARE",
+    title: "Software projects",
+    heading: "my projects",
+    description: "Games, web apps and tools built by Vincent Xian, with the tech behind each one.",
+  },
+  arts: {
+    section: "ARTS",
+    title: "Artworks",
+    heading: "my artworks",
+    description: "3D models, animation and illustration by Vincent Xian.",
+  },
+} satisfies Record<string, ProjectPage>;
+
+export type ProjectPageKey = keyof typeof PROJECT_PAGES;
+
+export function isProjectPageKey(value: string): value is ProjectPageKey {
+  return Object.hasOwn(PROJECT_PAGES, value);
+}
+
+/** Site path for a section list page or a single project */
+export function toSitePath(page: ProjectPageKey | "about" | "contact", slug?: string): string {
+  return slug ? `${SITE_BASE_PATH}/${page}/${encodeURIComponent(slug)}` : `${SITE_BASE_PATH}/${page}`;
+}
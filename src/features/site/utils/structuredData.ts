@@ -0,0 +1,145 @@
+/**
+ * schema.org JSON-LD builders and page metadata for the server-rendered portfolio
+ * Used in: /portfolio pages
+ */
+import { type Metadata } from "next";
+import { env } from "~/env";
+import { type Experience } from "~/types/experience";
+import { type Project } from "~/types/project";
+
+export const SITE_NAME = "vx.dev";
+
+const AUTHOR = {
+  name: "Vincent Xian",
+  jobTitle: "Software engineer, game developer and 3D artist",
+  sameAs: ["https://github.com/pwazta", "https://www.linkedin.com/in/vincent-xian/"],
+};
+
+/** Resolves a site path (or image src) against SITE_URL */
+export function absoluteUrl(path: string): string {
+  return new URL(path, env.SITE_URL).toString();
+}
+
+type PageMetadataInput = {
+  title: string;
+  description: string;
+  path: string;
+  image?: string;
+};
+
+/** Title, description, canonical URL and Open Graph tags for a page */
+export function buildPageMetadata({ title, description, path, image }: PageMetadataInput): Metadata {
+  return {
+    title,
+    description,
+    alternates: { canonical: path },
+    openGraph: {
+      title,
+      description,
+      url: path,
+      siteName: SITE_NAME,
+      type: "website",
+      images: image ? [{ url: image }] : undefined,
+    },
+  };
+}
+
+export function personJsonLd() {
+  return {
+    "@type": "Person",
+    "@id": absoluteUrl("/#person"),
+    name: AUTHOR.name,
+    jobTitle: AUTHOR.jobTitle,
+    url: absoluteUrl("/"),
+    sameAs: AUTHOR.sameAs,
+  };
+}
+
+export function websiteJsonLd() {
+  return {
+    "@context": "https://schema.org",
+    "@type": "WebSite",
+    name: SITE_NAME,
+    url: absoluteUrl("/"),
+    author: personJsonLd(),
+  };
+}
+
+/** A project as a CreativeWork; software projects also list their stack as keywords */
+export function projectJsonLd(project: Project, path: string) {
+  return {
+    "@type": "CreativeWork",
+    name: project.title,
+    description: project.description,
+    url: absoluteUrl(path),
+    image: project.images.map((image) => absoluteUrl(image.src)),
+    keywords: project.technologies.length > 0 ? project.technologies.join(", ") : undefined,
+    author: { "@id": absoluteUrl("/#person") },
+    sameAs: project.links.map((link) => link.url),
+  };
+}
+
+type CollectionInput = {
+  name: string;
+  description: string;
+  path: string;
+  projects: { project: Project; path: string }[];
+};
+
+export function collectionJsonLd({ name, description, path, projects }: CollectionInput) {
+  return {
+    "@context": "https://schema.org",
+    "@type": "CollectionPage",
+    name,
+    description,
+    url: absoluteUrl(path),
+    mainEntity: {
+      "@type": "ItemList",
+      itemListElement: projects.map(({ project, path: projectPath }, index) => ({
+        "@type": "ListItem",
+        position: index + 1,
+        item: projectJsonLd(project, projectPath),
+      })),
+    },
+  };
+}
+
+/** Profile page for the About section, with work history as organisations the author worked for */
+export function profileJsonLd(path: string, experiences: Experience[]) {
+  return {
+    "@context": "https://schema.org",
+    "@type": "ProfilePage",
+    url: absoluteUrl(path),
+    mainEntity: {
+      ...personJsonLd(),
+      worksFor: experiences.map((experience) => ({
+        "@type": "Organization",
+        name: experience.title,
+        description: experience.role,
+      })),
+    },
+  };
+}
+
+export function contactPageJsonLd(path: string) {
+  return {
+    "@context": "https://schema.org",
+    "@type": "ContactPage",
+    url: absoluteUrl(path),
+    about: personJsonLd(),
+  };
+}
+
+/** Breadcrumb trail, from the portfolio root to the current page */
+export function breadcrumbJsonLd(crumbs: { name: string; path: string }[]) {
+  return {
+    "@context": "https://schema.org",
+    "@type": "BreadcrumbList",
+    itemListElement: crumbs.map((crumb, index) => ({
+      "@type": "ListItem",
+      position: index + 1,
+      name: crumb.name,
+      item: absoluteUrl(crumb.path),
+    })),
+  };
+}
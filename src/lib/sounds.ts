@@ -1,6 +1,9 @@
 /**
  * Sound effects manager using Howler.js
- * Used in: Various components for UI feedback sounds
+ * Used in: Various components for UI feedback sounds, and the scene's weather ambience
+ *
+ * Weather layers (rain, night insects) are synthesized with Web Audio on Howler's context, so they
+ * share its master gain and mute with everything else without shipping extra audio files.
  */
 import { Howl, Howler } from "howler";
 
@@ -10,6 +13,7 @@ let sounds: {
   click: Howl;
   whoosh: Howl;
   wind: Howl;
+  key: Howl;
 } | null = null;
 
 function initSounds() {
@@ -21,13 +25,16 @@ function initSounds() {
     click: new Howl({ src: ["/sounds/click.mp3"], volume: 1 }),
     whoosh: new Howl({ src: ["/sounds/whoosh.mp3"], volume: 0.6 }),
     wind: new Howl({ src: ["/sounds/wind.mp3"], volume: 0.8, loop: true }),
+    key: new Howl({ src: ["/sounds/click.mp3"], volume: 0.35 }),
   };
 }
 
 let isMuted = false; // Start unmuted by default
 let hasEnteredScene = false; // Track if user has entered the scene
 
-export function playSound(name: "pop" | "click" | "whoosh") {
+export type SoundName = "pop" | "click" | "whoosh";
+
+export function playSound(name: SoundName) {
   if (typeof window === "undefined") return;
   initSounds();
   if (!isMuted && sounds) {
@@ -35,6 +42,61 @@ export function playSound(name: "pop" | "click" | "whoosh") {
   }
 }
 
+/** Wide keys sound deeper; every other key gets its own fixed pitch so typing doesn't sound like one sample on repeat */
+const KEY_RATES: Partial<Record<string, number>> = { Space: 0.7, Enter: 0.8, Backspace: 0.85, ShiftLeft: 0.85, ShiftRight: 0.85 };
+
+function keyRate(code: string): number {
+  const fixed = KEY_RATES[code];
+  if (fixed) return fixed;
+  let hash = 0;
+  for (let i = 0; i < code.length; i++) hash = (hash * 31 + code.charCodeAt(i)) >>> 0;
+  return 1 + ((hash % 21) - 10) / 100;
+}
+
+/** Click for one key on the desk keyboard, pitched per key (KeyboardEvent.code) */
+export function playKeySound(code: string) {
+  if (typeof window === "undefined") return;
+  initSounds();
+  if (!isMuted && sounds) {
+    const id = sounds.key.play();
+    sounds.key.rate(keyRate(code), id);
+  }
+}
+
+/** Two short bursts of an old desk phone's two-tone ring, as [start, end] seconds */
+const RING_BURSTS: [number, number][] = [[0, 0.4], [0.6, 1]];
+const RING_FREQUENCIES = [400, 450];
+const RING_VOLUME = 0.08;
+
+/** Rings the desk phone once, synthesized like the weather layers since there's no ring sample */
+export function playPhoneRing() {
+  if (typeof window === "undefined") return;
+  initSounds();
+  if (isMuted || !Howler.ctx || !Howler.masterGain) return;
+
+  const ctx = Howler.ctx;
+  const now = ctx.currentTime;
+  const end = now + (RING_BURSTS.at(-1)?.[1] ?? 0);
+  const output = ctx.createGain();
+  output.gain.value = 0;
+  output.connect(Howler.masterGain);
+
+  for (const frequency of RING_FREQUENCIES) {
+    const tone = ctx.createOscillator();
+    tone.frequency.value = frequency;
+    tone.connect(output);
+    tone.start(now);
+    tone.stop(end);
+  }
+  // Short ramps at each edge so the bursts don't click
+  for (const [start, stop] of RING_BURSTS) {
+    output.gain.setValueAtTime(0, now + start);
+    output.gain.linearRampToValueAtTime(RING_VOLUME, now + start + 0.02);
+    output.gain.setValueAtTime(RING_VOLUME, now + stop - 0.02);
+    output.gain.linearRampToValueAtTime(0, now + stop);
+  }
+}
+
 export function startAmbient() {
   if (typeof window === "undefined") return;
   initSounds();
@@ -42,6 +104,7 @@ export function startAmbient() {
   if (!isMuted && sounds && !sounds.wind.playing()) {
     sounds.wind.play();
   }
+  applyAmbience();
 }
 
 export function setMuted(muted: boolean) {
@@ -51,12 +114,139 @@ export function setMuted(muted: boolean) {
   Howler.mute(muted);
   if (muted && sounds) {
     sounds.wind.stop();
+    // Silent layers would keep the audio thread busy; unmuting builds them again
+    (Object.keys(synthLayers) as SynthLayerName[]).forEach((name) => releaseSynthLayer(name, 0));
   } else if (!muted && hasEnteredScene && sounds && !sounds.wind.playing()) {
     // Resume ambient wind if user has entered the scene and unmutes
     sounds.wind.play();
+    applyAmbience();
   }
 }
 
 export function getMuted() {
   return isMuted;
 }
+
+export type AmbienceName = "rain" | "snow" | "night" | "fog";
+type SynthLayerName = "rain" | "night";
+
+const AMBIENCE_FADE_MS = 2000;
+const DEFAULT_WIND_VOLUME = 0.8;
+/** Wind loop volume under each ambience; snow and fog are carried by the wind alone */
+const AMBIENCE_WIND_VOLUME: Record<AmbienceName, number> = { rain: 0.5, snow: 1, night: 0.3, fog: 0.45 };
+const AMBIENCE_LAYER: Partial<Record<AmbienceName, SynthLayerName>> = { rain: "rain", night: "night" };
+const LAYER_VOLUME: Record<SynthLayerName, number> = { rain: 0.25, night: 0.035 };
+
+/** A synthesized layer's output gain and the sources feeding it, which are stopped when it fades out */
+type SynthLayer = { output: GainNode; sources: AudioScheduledSourceNode[] };
+
+let ambience: AmbienceName | null = null;
+const synthLayers: Partial<Record<SynthLayerName, SynthLayer>> = {};
+
+/** Looping band-passed noise that reads as steady rain */
+function createRainLayer(ctx: AudioContext, output: GainNode): AudioScheduledSourceNode[] {
+  const buffer = ctx.createBuffer(1, ctx.sampleRate * 2, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.loop = true;
+  const filter = ctx.createBiquadFilter();
+  filter.type = "bandpass";
+  filter.frequency.value = 1400;
+  filter.Q.value = 0.5;
+  source.connect(filter).connect(output);
+  source.start();
+  return [source];
+}
+
+/** A high tone gated into pulses, and the pulses into chirps, for crickets on a clear night */
+function createNightLayer(ctx: AudioContext, output: GainNode): AudioScheduledSourceNode[] {
+  const tone = ctx.createOscillator();
+  tone.frequency.value = 4200;
+  const sources: AudioScheduledSourceNode[] = [tone];
+
+  // Square LFOs swing -1..1; halving them around a 0.5 base gain gates the signal between 0 and 1
+  const gate = (frequency: number) => {
+    const lfo = ctx.createOscillator();
+    lfo.type = "square";
+    lfo.frequency.value = frequency;
+    const depth = ctx.createGain();
+    depth.gain.value = 0.5;
+    const gated = ctx.createGain();
+    gated.gain.value = 0.5;
+    lfo.connect(depth).connect(gated.gain);
+    lfo.start();
+    sources.push(lfo);
+    return gated;
+  };
+
+  const pulses = gate(28);
+  const chirps = gate(0.9);
+  tone.connect(pulses).connect(chirps).connect(output);
+  tone.start();
+  return sources;
+}
+
+/** The running layer, built on first use and again after it's been released */
+function getSynthLayer(name: SynthLayerName): SynthLayer | null {
+  const existing = synthLayers[name];
+  if (existing) return existing;
+  if (!Howler.ctx || !Howler.masterGain) return null;
+
+  const output = Howler.ctx.createGain();
+  output.gain.value = 0;
+  output.connect(Howler.masterGain);
+  const sources = name === "rain" ? createRainLayer(Howler.ctx, output) : createNightLayer(Howler.ctx, output);
+  const layer = { output, sources };
+  synthLayers[name] = layer;
+  return layer;
+}
+
+/** Fades a layer out, then stops and disconnects its nodes so nothing runs on the audio thread at zero gain */
+function releaseSynthLayer(name: SynthLayerName, fadeSeconds: number) {
+  const layer = synthLayers[name];
+  if (!layer) return;
+  delete synthLayers[name];
+
+  const { output, sources } = layer;
+  const now = Howler.ctx.currentTime;
+  output.gain.cancelScheduledValues(now);
+  output.gain.setValueAtTime(output.gain.value, now);
+  output.gain.linearRampToValueAtTime(0, now + fadeSeconds);
+  sources[0]?.addEventListener("ended", () => {
+    sources.forEach((source) => source.disconnect());
+    output.disconnect();
+  });
+  sources.forEach((source) => source.stop(now + fadeSeconds));
+}
+
+function applyAmbience() {
+  if (!sounds || !hasEnteredScene || isMuted) return;
+
+  const windVolume = ambience ? AMBIENCE_WIND_VOLUME[ambience] : DEFAULT_WIND_VOLUME;
+  sounds.wind.fade(sounds.wind.volume(), windVolume, AMBIENCE_FADE_MS);
+
+  const activeLayer = ambience ? AMBIENCE_LAYER[ambience] : undefined;
+  for (const name of Object.keys(LAYER_VOLUME) as SynthLayerName[]) {
+    if (name !== activeLayer) {
+      releaseSynthLayer(name, AMBIENCE_FADE_MS / 1000);
+      continue;
+    }
+    const layer = getSynthLayer(name);
+    if (!layer) continue;
+    const now = Howler.ctx.currentTime;
+    layer.output.gain.cancelScheduledValues(now);
+    layer.output.gain.setValueAtTime(layer.output.gain.value, now);
+    layer.output.gain.linearRampToValueAtTime(LAYER_VOLUME[name], now + AMBIENCE_FADE_MS / 1000);
+  }
+}
+
+/** Crossfades the weather sound layered over the ambient wind; `null` goes back to wind alone */
+export function setWeatherAmbience(name: AmbienceName | null) {
+  if (typeof window === "undefined") return;
+  initSounds();
+  ambience = name;
+  applyAmbience();
+}
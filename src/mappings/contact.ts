@@ -0,0 +1,23 @@
+import { Prisma } from "@prisma/client";
+
+import { type ContactMessage } from "~/types/contact";
+
+export const ContactMessageQuery = Prisma.validator<Prisma.ContactMessageDefaultArgs>()({
+  // The audio itself is only loaded for playback
+  include: { voiceNote: { select: { id: true, mimeType: true, durationMs: true, size: true } } },
+});
+
+export const PrismaContactMessageToContactMessage = (
+  contactMessage: Prisma.ContactMessageGetPayload<typeof ContactMessageQuery>
+): ContactMessage => {
+  return {
+    id: contactMessage.id,
+    name: contactMessage.name,
+    email: contactMessage.email,
+    message: contactMessage.message,
+    status: contactMessage.status,
+    deliveredAt: contactMessage.deliveredAt ?? undefined,
+    voiceNote: contactMessage.voiceNote ?? undefined,
+    createdAt: contactMessage.createdAt,
+  };
+};
@@ -0,0 +1,20 @@
+import { Prisma } from "@prisma/client";
+
+import { type Experience } from "~/types/experience";
+
+export const ExperienceQuery = Prisma.validator<Prisma.ExperienceDefaultArgs>()({});
+
+export const PrismaExperienceToExperience = (
+  experience: Prisma.ExperienceGetPayload<typeof ExperienceQuery>
+): Experience => {
+  return {
+    id: experience.id,
+    kind: experience.kind,
+    title: experience.title,
+    role: experience.role,
+    dates: experience.dates ?? undefined,
+    description: experience.description,
+    image: experience.image,
+    imageAlt: experience.imageAlt,
+  };
+};
@@ -0,0 +1,33 @@
+import { Prisma } from "@prisma/client";
+
+import { type Project } from "~/types/project";
+
+export const ProjectQuery = Prisma.validator<Prisma.ProjectDefaultArgs>()({
+  include: {
+    images: { orderBy: { order: "asc" } },
+    technologies: { orderBy: { order: "asc" } },
+    links: { orderBy: { order: "asc" } },
+  },
+});
+
+export const PrismaProjectToProject = (
+  project: Prisma.ProjectGetPayload<typeof ProjectQuery>
+): Project => {
+  return {
+    id: project.id,
+    slug: project.slug,
+    section: project.section,
+    title: project.title,
+    description: project.description,
+    images: project.images.map((image) => ({
+      src: image.src,
+      alt: image.alt,
+      caption: image.caption ?? undefined,
+    })),
+    technologies: project.technologies.map((technology) => technology.name),
+    links: project.links.map((link) => ({
+      url: link.url,
+      label: link.label,
+    })),
+  };
+};
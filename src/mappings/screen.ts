@@ -0,0 +1,19 @@
+import { Prisma } from "@prisma/client";
+
+import { type ScreenItem } from "~/types/screen";
+
+export const ScreenItemQuery = Prisma.validator<Prisma.ScreenItemDefaultArgs>()({});
+
+export const PrismaScreenItemToScreenItem = (
+  item: Prisma.ScreenItemGetPayload<typeof ScreenItemQuery>
+): ScreenItem => {
+  return {
+    id: item.id,
+    kind: item.kind,
+    src: item.src,
+    artist: item.artist ?? undefined,
+    artistUrl: item.artistUrl ?? undefined,
+    license: item.license ?? undefined,
+    durationSeconds: item.durationSeconds ?? undefined,
+  };
+};
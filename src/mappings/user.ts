@@ -13,5 +13,6 @@ export const PrismaUserToUser = (
     email: user.email ?? "",
     image: user.image ?? "",
     emailVerified: user.emailVerified ?? undefined,
+    role: user.role,
   };
 };
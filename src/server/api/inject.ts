@@ -14,6 +14,15 @@
  * - Development: Debug-enabled services
  */
 import { db } from "../db";
+import { getMailTransport } from "../mail";
+import { getContactAdminService } from "../services/contactAdminService";
+import { getContactService } from "../services/contactService";
+import { getExperienceAdminService } from "../services/experienceAdminService";
+import { getExperienceService } from "../services/experienceService";
+import { getProjectAdminService } from "../services/projectAdminService";
+import { getProjectService } from "../services/projectService";
+import { getScreenAdminService } from "../services/screenAdminService";
+import { getScreenService } from "../services/screenService";
 
 /**
  * Injects services that require authentication
@@ -26,12 +35,17 @@ import { db } from "../db";
  * })
  */
 export function injectProtectedServices() {
-  // const postService = getPostService(db);
+  const projectAdminService = getProjectAdminService(db);
+  const experienceAdminService = getExperienceAdminService(db);
+  const contactAdminService = getContactAdminService(db);
+  const screenAdminService = getScreenAdminService(db);
 
-  // return {
-  //   postService,
-  // };
-  return {}
+  return {
+    projectAdminService,
+    experienceAdminService,
+    contactAdminService,
+    screenAdminService,
+  };
 }
 
 /**
@@ -41,5 +55,15 @@ export function injectProtectedServices() {
  * Use case: Public-facing APIs that don't require auth
  */
 export function injectPublicServices() {
-  return {};
+  const projectService = getProjectService(db);
+  const experienceService = getExperienceService(db);
+  const contactService = getContactService(db, getMailTransport);
+  const screenService = getScreenService(db);
+
+  return {
+    projectService,
+    experienceService,
+    contactService,
+    screenService,
+  };
 }
@@ -1,5 +1,8 @@
+import { contactRouter } from "~/server/api/routers/contact";
+import { experienceRouter } from "~/server/api/routers/experience";
+import { projectRouter } from "~/server/api/routers/project";
+import { screenRouter } from "~/server/api/routers/screen";
 import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
-// import { exampleRouter } from "~/server/api/routers/example";
 
 /**
  * This is the primary router for your server.
@@ -7,8 +10,10 @@ import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
  * All routers added in /api/routers should be manually added here.
  */
 export const appRouter = createTRPCRouter({
-  // post: postRouter,
-  // Add more routers here when needed
+  project: projectRouter,
+  experience: experienceRouter,
+  contact: contactRouter,
+  screen: screenRouter,
 });
 
 // export type definition of API
@@ -0,0 +1,83 @@
+import { Prisma } from "@prisma/client";
+import { TRPCError, type TRPC_ERROR_CODE_KEY } from "@trpc/server";
+import { z } from "zod";
+
+import { createTRPCRouter, ownerProcedure, publicProcedure } from "~/server/api/trpc";
+import {
+  ContactRejectedError,
+  ContactListFilterSchema,
+  ContactListInputSchema,
+  ContactMessageStatusSchema,
+  ContactSubmissionSchema,
+  type ContactRejectionReason,
+} from "~/types/contact";
+
+/** Error code and visitor-facing message for each rejection; the reason itself rides along in `data.contactRejection` */
+const REJECTIONS: Record<ContactRejectionReason, { code: TRPC_ERROR_CODE_KEY; message: string }> = {
+  RATE_LIMITED_IP: {
+    code: "TOO_MANY_REQUESTS",
+    message: "Too many messages from your network. Please try again in an hour.",
+  },
+  RATE_LIMITED_EMAIL: {
+    code: "TOO_MANY_REQUESTS",
+    message: "You've already sent a few messages recently. Please try again in an hour.",
+  },
+  HONEYPOT: {
+    code: "BAD_REQUEST",
+    message: "Your message couldn't be sent.",
+  },
+  TOO_FAST: {
+    code: "BAD_REQUEST",
+    message: "That was quick! Please take a moment and try again.",
+  },
+  LINK_HEAVY: {
+    code: "UNPROCESSABLE_CONTENT",
+    message: "Please include fewer links in your message.",
+  },
+  DUPLICATE: {
+    code: "CONFLICT",
+    message: "This message has already been sent.",
+  },
+  VOICE_NOTE_TOO_LARGE: {
+    code: "PAYLOAD_TOO_LARGE",
+    message: "That voice note is too long. Please keep it under a minute.",
+  },
+};
+
+function toTRPCError(error: unknown): never {
+  if (error instanceof ContactRejectedError) {
+    throw new TRPCError({ ...REJECTIONS[error.reason], cause: error });
+  }
+  if (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === "P2025"
+  ) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Message not found" });
+  }
+  throw error;
+}
+
+export const contactRouter = createTRPCRouter({
+  submit: publicProcedure
+    .input(ContactSubmissionSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { id } = await ctx.contactService
+        .submit(input, ctx.clientIp)
+        .catch(toTRPCError);
+      return { id };
+    }),
+
+  list: ownerProcedure
+    .input(ContactListInputSchema)
+    .query(({ ctx, input }) => ctx.contactAdminService.list(input)),
+
+  setStatus: ownerProcedure
+    .input(z.object({ id: z.string(), status: ContactMessageStatusSchema }))
+    .mutation(({ ctx, input }) =>
+      ctx.contactAdminService.setStatus(input.id, input.status).catch(toTRPCError)
+    ),
+
+  exportCsv: ownerProcedure
+    .input(ContactListFilterSchema)
+    .query(({ ctx, input }) => ctx.contactAdminService.exportCsv(input)),
+});
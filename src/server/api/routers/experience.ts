@@ -0,0 +1,51 @@
+import { Prisma } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import {
+  createTRPCRouter,
+  editorProcedure,
+  publicProcedure,
+} from "~/server/api/trpc";
+import { ExperienceInputSchema, ExperienceKindSchema } from "~/types/experience";
+
+/** Maps Prisma write errors to tRPC errors the admin forms can surface */
+function toTRPCError(error: unknown): never {
+  if (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === "P2025"
+  ) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Experience not found" });
+  }
+  throw error;
+}
+
+export const experienceRouter = createTRPCRouter({
+  byKind: publicProcedure
+    .input(z.object({ kind: ExperienceKindSchema }))
+    .query(({ ctx, input }) => ctx.experienceService.byKind(input.kind)),
+
+  create: editorProcedure
+    .input(ExperienceInputSchema)
+    .mutation(({ ctx, input }) =>
+      ctx.experienceAdminService.create(input).catch(toTRPCError)
+    ),
+
+  update: editorProcedure
+    .input(z.object({ id: z.string(), data: ExperienceInputSchema }))
+    .mutation(({ ctx, input }) =>
+      ctx.experienceAdminService.update(input.id, input.data).catch(toTRPCError)
+    ),
+
+  delete: editorProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(({ ctx, input }) =>
+      ctx.experienceAdminService.delete(input.id).catch(toTRPCError)
+    ),
+
+  reorder: editorProcedure
+    .input(z.object({ kind: ExperienceKindSchema, ids: z.array(z.string()) }))
+    .mutation(({ ctx, input }) =>
+      ctx.experienceAdminService.reorder(input.kind, input.ids).catch(toTRPCError)
+    ),
+});
@@ -0,0 +1,71 @@
+import { Prisma } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import {
+  createTRPCRouter,
+  editorProcedure,
+  publicProcedure,
+} from "~/server/api/trpc";
+import { ProjectInputSchema, ProjectSectionSchema } from "~/types/project";
+
+/** Maps Prisma write errors to tRPC errors the admin forms can surface */
+function toTRPCError(error: unknown): never {
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === "P2002") {
+      throw new TRPCError({
+        code: "CONFLICT",
+        message: "A project with this slug already exists",
+      });
+    }
+    if (error.code === "P2025") {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Project not found" });
+    }
+  }
+  throw error;
+}
+
+export const projectRouter = createTRPCRouter({
+  list: publicProcedure.query(({ ctx }) => ctx.projectService.list()),
+
+  byId: publicProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const project = await ctx.projectService.byId(input.id);
+      if (!project) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Project not found",
+        });
+      }
+      return project;
+    }),
+
+  bySection: publicProcedure
+    .input(z.object({ section: ProjectSectionSchema }))
+    .query(({ ctx, input }) => ctx.projectService.bySection(input.section)),
+
+  create: editorProcedure
+    .input(ProjectInputSchema)
+    .mutation(({ ctx, input }) =>
+      ctx.projectAdminService.create(input).catch(toTRPCError)
+    ),
+
+  update: editorProcedure
+    .input(z.object({ id: z.string(), data: ProjectInputSchema }))
+    .mutation(({ ctx, input }) =>
+      ctx.projectAdminService.update(input.id, input.data).catch(toTRPCError)
+    ),
+
+  delete: editorProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(({ ctx, input }) =>
+      ctx.projectAdminService.delete(input.id).catch(toTRPCError)
+    ),
+
+  reorder: editorProcedure
+    .input(z.object({ section: ProjectSectionSchema, ids: z.array(z.string()) }))
+    .mutation(({ ctx, input }) =>
+      ctx.projectAdminService.reorder(input.section, input.ids).catch(toTRPCError)
+    ),
+});
@@ -0,0 +1,49 @@
+import { Prisma } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import {
+  createTRPCRouter,
+  editorProcedure,
+  publicProcedure,
+} from "~/server/api/trpc";
+import { ScreenItemInputSchema } from "~/types/screen";
+
+/** Maps Prisma write errors to tRPC errors the admin forms can surface */
+function toTRPCError(error: unknown): never {
+  if (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === "P2025"
+  ) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Screen item not found" });
+  }
+  throw error;
+}
+
+export const screenRouter = createTRPCRouter({
+  playlist: publicProcedure.query(({ ctx }) => ctx.screenService.playlist()),
+
+  create: editorProcedure
+    .input(ScreenItemInputSchema)
+    .mutation(({ ctx, input }) =>
+      ctx.screenAdminService.create(input).catch(toTRPCError)
+    ),
+
+  update: editorProcedure
+    .input(z.object({ id: z.string(), data: ScreenItemInputSchema }))
+    .mutation(({ ctx, input }) =>
+      ctx.screenAdminService.update(input.id, input.data).catch(toTRPCError)
+    ),
+
+  delete: editorProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(({ ctx, input }) =>
+      ctx.screenAdminService.delete(input.id).catch(toTRPCError)
+    ),
+
+  reorder: editorProcedure
+    .input(z.object({ ids: z.array(z.string()) }))
+    .mutation(({ ctx, input }) =>
+      ctx.screenAdminService.reorder(input.ids).catch(toTRPCError)
+    ),
+});
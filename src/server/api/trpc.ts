@@ -11,10 +11,13 @@ import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import { ZodError } from "zod";
 
+import { env } from "~/env";
 import { auth } from "~/server/auth";
 import { db } from "~/server/db";
+import { ContactRejectedError } from "~/types/contact";
+import { hasRole, type Role } from "~/types/user";
 
-import { injectProtectedServices } from "./inject";
+import { injectProtectedServices, injectPublicServices } from "./inject";
 
 // Register TRPCError with SuperJSON to preserve error types through serialization
 superjson.registerClass(TRPCError, {
@@ -40,10 +43,23 @@ export const createTRPCContext = async (opts: { headers: Headers }) => {
   return {
     db,
     session,
+    clientIp: getClientIp(opts.headers),
     ...opts,
   };
 };
 
+/**
+ * Best-effort caller IP for rate limiting, read only from the header named by `TRUSTED_IP_HEADER`, which the
+ * deployment's proxy sets or overwrites. For `x-forwarded-for` the last entry is the one our proxy appended,
+ * since anything before it came from the client. Unset means no header is trusted and per-IP limits are skipped.
+ */
+function getClientIp(headers: Headers): string | null {
+  const header = env.TRUSTED_IP_HEADER;
+  if (!header) return null;
+  const entries = headers.get(header)?.split(",").map((entry) => entry.trim()).filter(Boolean);
+  return (header === "x-forwarded-for" ? entries?.at(-1) : entries?.[0]) ?? null;
+}
+
 /**
  * 2. INITIALIZATION
  *
@@ -60,6 +76,8 @@ const t = initTRPC.context<typeof createTRPCContext>().create({
         ...shape.data,
         zodError:
           error.cause instanceof ZodError ? error.cause.flatten() : null,
+        contactRejection:
+          error.cause instanceof ContactRejectedError ? error.cause.reason : null,
       },
     };
   },
@@ -116,7 +134,16 @@ const timingMiddleware = t.middleware(async ({ next, path }) => {
  * guarantee that a user querying is authorized, but you can still access user session data if they
  * are logged in.
  */
-export const publicProcedure = t.procedure.use(timingMiddleware);
+export const publicProcedure = t.procedure
+  .use(timingMiddleware)
+  .use(({ next }) => {
+    const publicServices = injectPublicServices();
+    return next({
+      ctx: {
+        ...publicServices,
+      },
+    });
+  });
 
 /**
  * Protected (authenticated) procedure
@@ -142,3 +169,30 @@ export const protectedProcedure = t.procedure
       },
     });
   });
+
+/**
+ * Builds a middleware that only lets through users whose role is at least `required`.
+ * Chained after `protectedProcedure`, so the session is already guaranteed.
+ */
+const requireRole = (required: Role) =>
+  t.middleware(({ ctx, next }) => {
+    if (!ctx.session?.user || !hasRole(ctx.session.user.role, required)) {
+      throw new TRPCError({ code: "FORBIDDEN" });
+    }
+
+    return next();
+  });
+
+/**
+ * Editor procedure
+ *
+ * For content management (projects, experience, etc.). Editors and owners can use it.
+ */
+export const editorProcedure = protectedProcedure.use(requireRole("EDITOR"));
+
+/**
+ * Owner procedure
+ *
+ * For anything private to the site owner, like reading contact messages.
+ */
+export const ownerProcedure = protectedProcedure.use(requireRole("OWNER"));
@@ -2,7 +2,9 @@ import { PrismaAdapter } from "@auth/prisma-adapter";
 import { type DefaultSession, type NextAuthConfig } from "next-auth";
 import GoogleProvider from "next-auth/providers/google";
 
+import { env } from "~/env";
 import { db } from "~/server/db";
+import { type Role } from "~/types/user";
 
 /**
  * Module augmentation for `next-auth` types. Allows us to add custom properties to the `session`
@@ -14,15 +16,13 @@ declare module "next-auth" {
   interface Session extends DefaultSession {
     user: {
       id: string;
-      // ...other properties
-      // role: UserRole;
+      role: Role;
     } & DefaultSession["user"];
   }
 
-  // interface User {
-  //   // ...other properties
-  //   // role: UserRole;
-  // }
+  interface User {
+    role?: Role;
+  }
 }
 
 /**
@@ -49,7 +49,21 @@ export const authConfig = {
       user: {
         ...session.user,
         id: user.id,
+        role: user.role ?? "VIEWER",
       },
     }),
   },
+  events: {
+    /**
+     * Promotes allowlisted emails to OWNER so the first owner doesn't need to be set by hand.
+     * Runs on every sign-in so adding an email later also works for existing accounts.
+     */
+    signIn: async ({ user }) => {
+      const email = user.email?.toLowerCase();
+      if (!user.id || !email || user.role === "OWNER") return;
+      if (!env.OWNER_EMAILS.includes(email)) return;
+
+      await db.user.update({ where: { id: user.id }, data: { role: "OWNER" } });
+    },
+  },
 } satisfies NextAuthConfig;
@@ -0,0 +1,44 @@
+/**
+ * EmailJS REST transport, reusing the template the browser SDK used to send to
+ * Used when MAIL_TRANSPORT=emailjs
+ *
+ * @see https://www.emailjs.com/docs/rest-api/send/
+ */
+import { type MailTransport } from "./types";
+
+const EMAILJS_SEND_URL = "https://api.emailjs.com/api/v1.0/email/send";
+
+type EmailJsTransportOptions = {
+  serviceId: string;
+  templateId: string;
+  publicKey: string;
+  privateKey?: string;
+};
+
+export function createEmailJsTransport({
+  serviceId,
+  templateId,
+  publicKey,
+  privateKey,
+}: EmailJsTransportOptions): MailTransport {
+  return {
+    name: "emailjs",
+    async send(mail) {
+      const response = await fetch(EMAILJS_SEND_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          service_id: serviceId,
+          template_id: templateId,
+          user_id: publicKey,
+          accessToken: privateKey,
+          template_params: mail.templateParams,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`EmailJS responded ${response.status}: ${await response.text()}`);
+      }
+    },
+  };
+}
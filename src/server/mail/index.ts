@@ -0,0 +1,50 @@
+/**
+ * Mail transport selection
+ * Picks the transport named by `MAIL_TRANSPORT` and throws when its settings are missing,
+ * so a misconfigured deploy is logged on the first contact submission instead of passing silently
+ */
+import { env } from "~/env";
+
+import { createEmailJsTransport } from "./emailjs";
+import { createConsoleTransport, createFileTransport } from "./local";
+import { createSmtpTransport } from "./smtp";
+import { type MailTransport } from "./types";
+
+export type { MailMessage, MailTransport } from "./types";
+
+function requireSetting(name: string, value: string | undefined): string {
+  if (!value) {
+    throw new Error(`${name} must be set when MAIL_TRANSPORT=${env.MAIL_TRANSPORT}`);
+  }
+  return value;
+}
+
+function createMailTransport(): MailTransport {
+  switch (env.MAIL_TRANSPORT) {
+    case "smtp":
+      return createSmtpTransport({
+        url: requireSetting("SMTP_URL", env.SMTP_URL),
+        from: requireSetting("MAIL_FROM", env.MAIL_FROM),
+        to: requireSetting("MAIL_TO", env.MAIL_TO),
+      });
+    case "emailjs":
+      return createEmailJsTransport({
+        serviceId: requireSetting("EMAILJS_SERVICE_ID", env.EMAILJS_SERVICE_ID),
+        templateId: requireSetting("EMAILJS_TEMPLATE_ID", env.EMAILJS_TEMPLATE_ID),
+        publicKey: requireSetting("EMAILJS_PUBLIC_KEY", env.EMAILJS_PUBLIC_KEY),
+        privateKey: env.EMAILJS_PRIVATE_KEY,
+      });
+    case "file":
+      return createFileTransport(env.MAIL_FILE_DIR);
+    case "console":
+      return createConsoleTransport();
+  }
+}
+
+let transport: MailTransport | undefined;
+
+/** Lazily creates the transport once per server process so SMTP connections are reused */
+export function getMailTransport(): MailTransport {
+  transport ??= createMailTransport();
+  return transport;
+}
@@ -0,0 +1,29 @@
+/**
+ * Local stand-ins that never leave the machine, for development and tests
+ * Used when MAIL_TRANSPORT=file or MAIL_TRANSPORT=console
+ */
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { type MailTransport } from "./types";
+
+/** Writes each message as a JSON file so it can be inspected after the fact */
+export function createFileTransport(directory: string): MailTransport {
+  return {
+    name: "file",
+    async send(mail) {
+      await mkdir(directory, { recursive: true });
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+      await writeFile(path.join(directory, fileName), JSON.stringify(mail, null, 2));
+    },
+  };
+}
+
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: "console",
+    async send(mail) {
+      console.log(`[MAIL] ${mail.subject}\n${mail.text}`);
+    },
+  };
+}
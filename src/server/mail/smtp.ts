@@ -0,0 +1,30 @@
+/**
+ * SMTP transport backed by nodemailer
+ * Used when MAIL_TRANSPORT=smtp
+ */
+import nodemailer from "nodemailer";
+
+import { type MailTransport } from "./types";
+
+type SmtpTransportOptions = {
+  url: string;
+  from: string;
+  to: string;
+};
+
+export function createSmtpTransport({ url, from, to }: SmtpTransportOptions): MailTransport {
+  const transporter = nodemailer.createTransport(url);
+
+  return {
+    name: "smtp",
+    async send(mail) {
+      await transporter.sendMail({
+        from,
+        to,
+        replyTo: mail.replyTo,
+        subject: mail.subject,
+        text: mail.text,
+      });
+    },
+  };
+}
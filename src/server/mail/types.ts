@@ -0,0 +1,16 @@
+/**
+ * Shape shared by every mail transport
+ * Transports are picked by `MAIL_TRANSPORT` in src/server/mail/index.ts
+ */
+export type MailMessage = {
+  subject: string;
+  text: string;
+  replyTo?: string;
+  /** Raw fields for template-based transports like EmailJS */
+  templateParams: Record<string, string>;
+};
+
+export type MailTransport = {
+  name: string;
+  send(mail: MailMessage): Promise<void>;
+};
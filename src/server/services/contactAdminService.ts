@@ -0,0 +1,106 @@
+/**
+ * Contact admin service
+ * Inbox listing, status changes and CSV export for stored contact messages
+ */
+import { type Prisma, type PrismaClient } from "@prisma/client";
+
+import { ContactMessageQuery, PrismaContactMessageToContactMessage } from "~/mappings/contact";
+import {
+  type ContactListFilter,
+  type ContactListInput,
+  type ContactMessageStatus,
+} from "~/types/contact";
+
+const CSV_COLUMNS = ["createdAt", "status", "name", "email", "message", "delivered", "voiceNoteSeconds"] as const;
+
+function toWhere({ view, search }: ContactListFilter): Prisma.ContactMessageWhereInput {
+  const status: Prisma.ContactMessageWhereInput =
+    view === "INBOX" ? { status: { not: "ARCHIVED" } } : { status: view };
+  if (!search) return status;
+
+  return {
+    ...status,
+    OR: [
+      { name: { contains: search, mode: "insensitive" } },
+      { email: { contains: search, mode: "insensitive" } },
+      { message: { contains: search, mode: "insensitive" } },
+    ],
+  };
+}
+
+/** Quotes a CSV cell, doubling inner quotes and defusing spreadsheet formulas */
+function toCsvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+export function getContactAdminService(db: PrismaClient) {
+  return {
+    /** Newest first, with the totals the inbox needs for pagination */
+    async list({ page, pageSize, ...filter }: ContactListInput) {
+      const where = toWhere(filter);
+      const [messages, total, unread] = await db.$transaction([
+        db.contactMessage.findMany({
+          ...ContactMessageQuery,
+          where,
+          orderBy: { createdAt: "desc" },
+          skip: (page - 1) * pageSize,
+          take: pageSize,
+        }),
+        db.contactMessage.count({ where }),
+        db.contactMessage.count({ where: { status: "UNREAD" } }),
+      ]);
+
+      return {
+        messages: messages.map(PrismaContactMessageToContactMessage),
+        total,
+        unread,
+        page,
+        pageCount: Math.max(1, Math.ceil(total / pageSize)),
+      };
+    },
+
+    async setStatus(id: string, status: ContactMessageStatus) {
+      const contactMessage = await db.contactMessage.update({
+        ...ContactMessageQuery,
+        where: { id },
+        data: { status },
+      });
+      return PrismaContactMessageToContactMessage(contactMessage);
+    },
+
+    /** A voice note's audio for playback, or null if it doesn't exist */
+    async voiceNoteAudio(id: string) {
+      return db.voiceNote.findUnique({
+        where: { id },
+        select: { mimeType: true, size: true, data: true },
+      });
+    },
+
+    /** Every message matching the current inbox filter, ignoring pagination */
+    async exportCsv(filter: ContactListFilter) {
+      const messages = await db.contactMessage.findMany({
+        ...ContactMessageQuery,
+        where: toWhere(filter),
+        orderBy: { createdAt: "desc" },
+      });
+
+      const rows = messages.map((contactMessage) =>
+        [
+          contactMessage.createdAt.toISOString(),
+          contactMessage.status,
+          contactMessage.name,
+          contactMessage.email,
+          contactMessage.message,
+          contactMessage.deliveredAt ? "yes" : "no",
+          contactMessage.voiceNote ? String(Math.round(contactMessage.voiceNote.durationMs / 1000)) : "",
+        ]
+          .map(toCsvCell)
+          .join(",")
+      );
+      return [CSV_COLUMNS.join(","), ...rows].join("\r\n");
+    },
+  };
+}
+
+export type ContactAdminService = ReturnType<typeof getContactAdminService>;
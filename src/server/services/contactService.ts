@@ -0,0 +1,141 @@
+/**
+ * Contact service
+ * Screens contact form submissions for spam, stores them and forwards them through the configured mail transport
+ */
+import { type Prisma, type PrismaClient } from "@prisma/client";
+
+import { ContactMessageQuery, PrismaContactMessageToContactMessage } from "~/mappings/contact";
+import { type MailTransport } from "~/server/mail";
+import {
+  ContactRejectedError,
+  VOICE_NOTE_MAX_BYTES,
+  type ContactSubmission,
+  type VoiceNoteInput,
+} from "~/types/contact";
+
+const HOUR_MS = 60 * 60 * 1000;
+/** Stored messages allowed per sender within an hour */
+const MAX_PER_IP_PER_HOUR = 5;
+const MAX_PER_EMAIL_PER_HOUR = 3;
+/** Filling in a name, email and a 10+ character message takes a person longer than this */
+const MIN_SUBMIT_MS = 3000;
+/** Identical messages within this window are treated as a repeat or a campaign */
+const DUPLICATE_WINDOW_MS = 24 * HOUR_MS;
+const MAX_CONTENT_SCORE = 2;
+
+/** Advisory lock taken by every submission so the per-sender counts and the insert can't interleave */
+const SUBMIT_LOCK_KEY = 0x636f6e74;
+
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+/gi;
+const MARKUP_LINK_PATTERN = /\[url=|<a\s/i;
+
+/**
+ * Rough spam score for a message body. One link is fine; every extra link,
+ * a body that is mostly links, or forum/HTML link markup each push the score up.
+ */
+export function scoreMessageContent(message: string): number {
+  const links = message.match(LINK_PATTERN) ?? [];
+  let score = Math.max(0, links.length - 1);
+
+  const linkLength = links.reduce((total, link) => total + link.length, 0);
+  if (linkLength > message.length / 2) score += 2;
+  if (MARKUP_LINK_PATTERN.test(message)) score += 2;
+
+  return score;
+}
+
+/** Decodes a voice note, rejecting anything over the size limit once it's back to raw bytes */
+function decodeVoiceNote({ mimeType, durationMs, data }: VoiceNoteInput) {
+  const audio = Buffer.from(data, "base64");
+  if (audio.length === 0 || audio.length > VOICE_NOTE_MAX_BYTES) {
+    throw new ContactRejectedError("VOICE_NOTE_TOO_LARGE");
+  }
+  return { mimeType, durationMs, size: audio.length, data: audio };
+}
+
+export function getContactService(db: PrismaClient, getMailTransport: () => MailTransport) {
+  /** Throws `ContactRejectedError` for the first content check the submission fails, cheapest checks first */
+  function screenContent(submission: ContactSubmission) {
+    if (submission.website) throw new ContactRejectedError("HONEYPOT");
+    if (submission.elapsedMs < MIN_SUBMIT_MS) throw new ContactRejectedError("TOO_FAST");
+    if (scoreMessageContent(submission.message) > MAX_CONTENT_SCORE) {
+      throw new ContactRejectedError("LINK_HEAVY");
+    }
+  }
+
+  /** Throws `ContactRejectedError` when the sender is over a limit or repeating a recent message */
+  async function screenHistory(tx: Prisma.TransactionClient, submission: ContactSubmission, ipAddress: string | null) {
+    const hourAgo = new Date(Date.now() - HOUR_MS);
+    if (ipAddress) {
+      const fromIp = await tx.contactMessage.count({
+        where: { ipAddress, createdAt: { gte: hourAgo } },
+      });
+      if (fromIp >= MAX_PER_IP_PER_HOUR) throw new ContactRejectedError("RATE_LIMITED_IP");
+    }
+
+    const fromEmail = await tx.contactMessage.count({
+      where: { email: { equals: submission.email, mode: "insensitive" }, createdAt: { gte: hourAgo } },
+    });
+    if (fromEmail >= MAX_PER_EMAIL_PER_HOUR) throw new ContactRejectedError("RATE_LIMITED_EMAIL");
+
+    // Voice-only submissions have no text to compare
+    if (!submission.message) return;
+    const duplicate = await tx.contactMessage.findFirst({
+      where: {
+        message: submission.message,
+        createdAt: { gte: new Date(Date.now() - DUPLICATE_WINDOW_MS) },
+      },
+      select: { id: true },
+    });
+    if (duplicate) throw new ContactRejectedError("DUPLICATE");
+  }
+
+  return {
+    /**
+     * The message is saved before delivery so nothing is lost when the transport is down.
+     * Delivery failures are logged and leave `deliveredAt` empty rather than failing the submission.
+     * The history checks and the insert run under one lock, so concurrent submissions can't all slip under a limit.
+     */
+    async submit(submission: ContactSubmission, ipAddress: string | null) {
+      screenContent(submission);
+
+      const { name, email, message } = submission;
+      const voiceNote = submission.voiceNote ? decodeVoiceNote(submission.voiceNote) : undefined;
+      const contactMessage = await db.$transaction(async (tx) => {
+        await tx.$queryRaw`SELECT 1 FROM pg_advisory_xact_lock(${SUBMIT_LOCK_KEY})`;
+        await screenHistory(tx, submission, ipAddress);
+        return tx.contactMessage.create({
+          ...ContactMessageQuery,
+          data: { name, email, message, ipAddress, voiceNote: voiceNote && { create: voiceNote } },
+        });
+      });
+
+      // The audio stays in the owner inbox; the email only says there is one
+      const voiceNoteLine = voiceNote
+        ? `[Voice note, ${Math.round(voiceNote.durationMs / 1000)}s - listen in the admin inbox]`
+        : "";
+      const body = [message, voiceNoteLine].filter(Boolean).join("\n\n");
+
+      try {
+        await getMailTransport().send({
+          subject: `Portfolio contact from ${name}`,
+          text: `From: ${name} <${email}>\n\n${body}`,
+          replyTo: email,
+          templateParams: { name, email, message: body },
+        });
+      } catch (error) {
+        console.error(`[MAIL] Failed to deliver contact message ${contactMessage.id}:`, error);
+        return PrismaContactMessageToContactMessage(contactMessage);
+      }
+
+      const delivered = await db.contactMessage.update({
+        ...ContactMessageQuery,
+        where: { id: contactMessage.id },
+        data: { deliveredAt: new Date() },
+      });
+      return PrismaContactMessageToContactMessage(delivered);
+    },
+  };
+}
+
+export type ContactService = ReturnType<typeof getContactService>;
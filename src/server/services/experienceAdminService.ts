@@ -0,0 +1,55 @@
+/**
+ * Experience admin service
+ * Create, update, reorder and delete operations for About modal experience cards
+ */
+import { type PrismaClient } from "@prisma/client";
+
+import { ExperienceQuery, PrismaExperienceToExperience } from "~/mappings/experience";
+import { type ExperienceInput, type ExperienceKind } from "~/types/experience";
+
+export function getExperienceAdminService(db: PrismaClient) {
+  /** One past the highest order in a list; counting rows would tie with the last one after a delete */
+  async function nextOrder(kind: ExperienceKind) {
+    const { _max } = await db.experience.aggregate({ where: { kind }, _max: { order: true } });
+    return (_max.order ?? -1) + 1;
+  }
+
+  return {
+    /** Creates an experience at the end of its list */
+    async create(input: ExperienceInput) {
+      const order = await nextOrder(input.kind);
+      const experience = await db.experience.create({
+        ...ExperienceQuery,
+        data: { ...input, order },
+      });
+      return PrismaExperienceToExperience(experience);
+    },
+
+    /** Moving to the other list puts the experience at the end of it */
+    async update(id: string, input: ExperienceInput) {
+      const current = await db.experience.findUniqueOrThrow({ where: { id }, select: { kind: true } });
+      const order = current.kind === input.kind ? undefined : await nextOrder(input.kind);
+      const experience = await db.experience.update({
+        ...ExperienceQuery,
+        where: { id },
+        data: { ...input, dates: input.dates ?? null, order },
+      });
+      return PrismaExperienceToExperience(experience);
+    },
+
+    async delete(id: string) {
+      await db.experience.delete({ where: { id } });
+    },
+
+    /** Persists the display order of a list from an ordered list of ids */
+    async reorder(kind: ExperienceKind, ids: string[]) {
+      await db.$transaction(
+        ids.map((id, order) =>
+          db.experience.update({ where: { id, kind }, data: { order } })
+        )
+      );
+    },
+  };
+}
+
+export type ExperienceAdminService = ReturnType<typeof getExperienceAdminService>;
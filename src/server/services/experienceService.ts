@@ -0,0 +1,23 @@
+/**
+ * Experience service
+ * Read access to the work experience and activity cards shown in the About modal
+ */
+import { type PrismaClient } from "@prisma/client";
+
+import { ExperienceQuery, PrismaExperienceToExperience } from "~/mappings/experience";
+import { type ExperienceKind } from "~/types/experience";
+
+export function getExperienceService(db: PrismaClient) {
+  return {
+    async byKind(kind: ExperienceKind) {
+      const experiences = await db.experience.findMany({
+        ...ExperienceQuery,
+        where: { kind },
+        orderBy: { order: "asc" },
+      });
+      return experiences.map(PrismaExperienceToExperience);
+    },
+  };
+}
+
+export type ExperienceService = ReturnType<typeof getExperienceService>;
@@ -0,0 +1,88 @@
+/**
+ * Project admin service
+ * Create, update, reorder and delete operations for the portfolio catalog
+ */
+import { type PrismaClient } from "@prisma/client";
+
+import { PrismaProjectToProject, ProjectQuery } from "~/mappings/project";
+import { type ProjectInput, type ProjectSection } from "~/types/project";
+
+/** Builds nested create payloads for the ordered child rows of a project */
+function toChildCreates(input: ProjectInput) {
+  return {
+    images: {
+      create: input.images.map((image, order) => ({ ...image, order })),
+    },
+    technologies: {
+      create: input.technologies.map((name, order) => ({ name, order })),
+    },
+    links: {
+      create: input.links.map((link, order) => ({ ...link, order })),
+    },
+  };
+}
+
+export function getProjectAdminService(db: PrismaClient) {
+  /** One past the highest order in a section; counting rows would tie with the last one after a delete */
+  async function nextOrder(section: ProjectSection) {
+    const { _max } = await db.project.aggregate({ where: { section }, _max: { order: true } });
+    return (_max.order ?? -1) + 1;
+  }
+
+  return {
+    /** Creates a project at the end of its section */
+    async create(input: ProjectInput) {
+      const order = await nextOrder(input.section);
+      const project = await db.project.create({
+        ...ProjectQuery,
+        data: {
+          slug: input.slug,
+          section: input.section,
+          title: input.title,
+          description: input.description,
+          order,
+          ...toChildCreates(input),
+        },
+      });
+      return PrismaProjectToProject(project);
+    },
+
+    /** Updates a project, replacing its images, technologies and links; moving sections puts it at the end of the new one */
+    async update(id: string, input: ProjectInput) {
+      const children = toChildCreates(input);
+      const current = await db.project.findUniqueOrThrow({ where: { id }, select: { section: true } });
+      const order =
+        current.section === input.section ? undefined : await nextOrder(input.section);
+      const project = await db.project.update({
+        ...ProjectQuery,
+        where: { id },
+        data: {
+          slug: input.slug,
+          section: input.section,
+          order,
+          title: input.title,
+          description: input.description,
+          images: { deleteMany: {}, ...children.images },
+          technologies: { deleteMany: {}, ...children.technologies },
+          links: { deleteMany: {}, ...children.links },
+        },
+      });
+      return PrismaProjectToProject(project);
+    },
+
+    async delete(id: string) {
+      await db.project.delete({ where: { id } });
+    },
+
+    /** Persists the display order of a section from an ordered list of ids */
+    async reorder(section: ProjectSection, ids: string[]) {
+      await db.$transaction(
+        ids.map((id, order) =>
+          db.project.update({ where: { id, section }, data: { order } })
+        )
+      );
+    },
+  };
+}
+
+export type ProjectAdminService = ReturnType<typeof getProjectAdminService>;
@@ -0,0 +1,40 @@
+/**
+ * Project catalog service
+ * Read access to the portfolio projects rendered in the Software and Arts modals
+ */
+import { type PrismaClient } from "@prisma/client";
+
+import { PrismaProjectToProject, ProjectQuery } from "~/mappings/project";
+import { type ProjectSection } from "~/types/project";
+
+export function getProjectService(db: PrismaClient) {
+  return {
+    /** All projects, grouped by section then by display order */
+    async list() {
+      const projects = await db.project.findMany({
+        ...ProjectQuery,
+        orderBy: [{ section: "asc" }, { order: "asc" }],
+      });
+      return projects.map(PrismaProjectToProject);
+    },
+
+    async byId(id: string) {
+      const project = await db.project.findUnique({
+        ...ProjectQuery,
+        where: { id },
+      });
+      return project ? PrismaProjectToProject(project) : null;
+    },
+
+    async bySection(section: ProjectSection) {
+      const projects = await db.project.findMany({
+        ...ProjectQuery,
+        where: { section },
+        orderBy: { order: "asc" },
+      });
+      return projects.map(PrismaProjectToProject);
+    },
+  };
+}
+
+export type ProjectService = ReturnType<typeof getProjectService>;
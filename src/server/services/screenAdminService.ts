@@ -0,0 +1,57 @@
+/**
+ * Screen admin service
+ * Create, update, reorder and delete operations for the computer screen playlist
+ */
+import { type PrismaClient } from "@prisma/client";
+
+import { PrismaScreenItemToScreenItem, ScreenItemQuery } from "~/mappings/screen";
+import { type ScreenItemInput } from "~/types/screen";
+
+/** Optional fields are cleared rather than left untouched when an edit omits them */
+function toScreenItemData(input: ScreenItemInput) {
+  return {
+    ...input,
+    artist: input.artist ?? null,
+    artistUrl: input.artistUrl ?? null,
+    license: input.license ?? null,
+    durationSeconds: input.durationSeconds ?? null,
+  };
+}
+
+export function getScreenAdminService(db: PrismaClient) {
+  return {
+    /** Adds an item at the end of the playlist */
+    async create(input: ScreenItemInput) {
+      // One past the highest order; counting rows would tie with the last item after a delete
+      const { _max } = await db.screenItem.aggregate({ _max: { order: true } });
+      const order = (_max.order ?? -1) + 1;
+      const item = await db.screenItem.create({
+        ...ScreenItemQuery,
+        data: { ...toScreenItemData(input), order },
+      });
+      return PrismaScreenItemToScreenItem(item);
+    },
+
+    async update(id: string, input: ScreenItemInput) {
+      const item = await db.screenItem.update({
+        ...ScreenItemQuery,
+        where: { id },
+        data: toScreenItemData(input),
+      });
+      return PrismaScreenItemToScreenItem(item);
+    },
+
+    async delete(id: string) {
+      await db.screenItem.delete({ where: { id } });
+    },
+
+    /** Persists the playlist order from an ordered list of ids */
+    async reorder(ids: string[]) {
+      await db.$transaction(
+        ids.map((id, order) => db.screenItem.update({ where: { id }, data: { order } }))
+      );
+    },
+  };
+}
+
+export type ScreenAdminService = ReturnType<typeof getScreenAdminService>;
@@ -0,0 +1,21 @@
+/**
+ * Screen service
+ * Read access to the playlist shown on the 3D computer screen
+ */
+import { type PrismaClient } from "@prisma/client";
+
+import { PrismaScreenItemToScreenItem, ScreenItemQuery } from "~/mappings/screen";
+
+export function getScreenService(db: PrismaClient) {
+  return {
+    async playlist() {
+      const items = await db.screenItem.findMany({
+        ...ScreenItemQuery,
+        orderBy: { order: "asc" },
+      });
+      return items.map(PrismaScreenItemToScreenItem);
+    },
+  };
+}
+
+export type ScreenService = ReturnType<typeof getScreenService>;
@@ -0,0 +1,107 @@
+import { z } from "zod";
+
+/** Shared by the contact form and `contact.submit` so both validate the same way */
+export const ContactMessageInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+  email: z
+    .string()
+    .trim()
+    .min(1, "Email is required")
+    .email("Please enter a valid email address"),
+  message: z
+    .string()
+    .trim()
+    .min(1, "Message is required")
+    .min(10, "Message must be at least 10 characters")
+    .max(5000, "Message must be under 5000 characters"),
+});
+
+/** With a voice note attached the written message becomes optional */
+export const VoiceContactMessageInputSchema = ContactMessageInputSchema.extend({
+  message: z.string().trim().max(5000, "Message must be under 5000 characters"),
+});
+
+export const VOICE_NOTE_MAX_SECONDS = 60;
+export const VOICE_NOTE_MAX_BYTES = 1024 * 1024;
+
+/** Recorded audio as sent by the form, base64 encoded */
+export const VoiceNoteInputSchema = z.object({
+  mimeType: z.string().regex(/^audio\/(webm|ogg|mp4|mpeg)(;.*)?$/, "Unsupported audio format").max(100),
+  durationMs: z.number().int().positive().max((VOICE_NOTE_MAX_SECONDS + 1) * 1000),
+  data: z.string().max(Math.ceil(VOICE_NOTE_MAX_BYTES / 3) * 4, "Voice note is too large"),
+});
+
+/**
+ * What the form actually sends: the message plus bot signals.
+ * `website` is a honeypot that real visitors never see, `elapsedMs` is time spent on the form.
+ */
+export const ContactSubmissionSchema = VoiceContactMessageInputSchema.extend({
+  website: z.string().optional(),
+  elapsedMs: z.number().int().nonnegative(),
+  voiceNote: VoiceNoteInputSchema.optional(),
+}).superRefine((submission, ctx) => {
+  if (submission.voiceNote) return;
+  const result = ContactMessageInputSchema.shape.message.safeParse(submission.message);
+  result.error?.issues.forEach((issue) => ctx.addIssue({ ...issue, path: ["message"] }));
+});
+
+/** Why `contact.submit` turned a submission away, sent to the client in the error `data` */
+export const ContactRejectionReasonSchema = z.enum([
+  "RATE_LIMITED_IP",
+  "RATE_LIMITED_EMAIL",
+  "HONEYPOT",
+  "TOO_FAST",
+  "LINK_HEAVY",
+  "DUPLICATE",
+  "VOICE_NOTE_TOO_LARGE",
+]);
+
+export const ContactMessageStatusSchema = z.enum(["UNREAD", "READ", "ARCHIVED"]);
+
+/** A stored voice note without its audio, which is streamed separately for playback */
+export const VoiceNoteSchema = z.object({
+  id: z.string(),
+  mimeType: z.string(),
+  durationMs: z.number().int(),
+  size: z.number().int(),
+});
+
+export const ContactMessageSchema = VoiceContactMessageInputSchema.extend({
+  id: z.string(),
+  status: ContactMessageStatusSchema,
+  voiceNote: VoiceNoteSchema.optional(),
+  deliveredAt: z.date().optional(),
+  createdAt: z.date(),
+});
+
+/** Inbox views: INBOX is everything not archived */
+export const ContactInboxViewSchema = z.enum(["INBOX", "UNREAD", "ARCHIVED"]);
+
+export const ContactListFilterSchema = z.object({
+  view: ContactInboxViewSchema.default("INBOX"),
+  search: z.string().trim().max(200).optional(),
+});
+
+export const ContactListInputSchema = ContactListFilterSchema.extend({
+  page: z.number().int().min(1).default(1),
+  pageSize: z.number().int().min(1).max(100).default(20),
+});
+
+export type ContactMessageInput = z.infer<typeof ContactMessageInputSchema>;
+export type ContactSubmission = z.infer<typeof ContactSubmissionSchema>;
+export type VoiceNoteInput = z.infer<typeof VoiceNoteInputSchema>;
+export type VoiceNote = z.infer<typeof VoiceNoteSchema>;
+export type ContactRejectionReason = z.infer<typeof ContactRejectionReasonSchema>;
+export type ContactMessageStatus = z.infer<typeof ContactMessageStatusSchema>;
+export type ContactMessage = z.infer<typeof ContactMessageSchema>;
+export type ContactInboxView = z.infer<typeof ContactInboxViewSchema>;
+export type ContactListFilter = z.infer<typeof ContactListFilterSchema>;
+export type ContactListInput = z.infer<typeof ContactListInputSchema>;
+
+/** Thrown when a submission fails screening; tRPC surfaces `reason` to the client in the error `data` */
+export class ContactRejectedError extends Error {
+  constructor(public readonly reason: ContactRejectionReason) {
+    super(`Contact submission rejected: ${reason}`);
+    this.name = "ContactRejectedError";
+  }
+}
@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+import { LocalImagePathSchema } from "~/types/project";
+
+export const ExperienceKindSchema = z.enum(["WORK", "ACTIVITY"]);
+
+export const ExperienceSchema = z.object({
+  id: z.string(),
+  kind: ExperienceKindSchema,
+  title: z.string(),
+  role: z.string(),
+  dates: z.string().optional(),
+  description: z.string(),
+  image: z.string(),
+  imageAlt: z.string(),
+});
+
+export const ExperienceInputSchema = ExperienceSchema.omit({ id: true }).extend({
+  title: z.string().trim().min(1, "Title is required"),
+  role: z.string().trim().min(1, "Role is required"),
+  description: z.string().trim().min(1, "Description is required"),
+  image: LocalImagePathSchema,
+  imageAlt: z.string().trim().min(1, "Alt text is required"),
+});
+
+export type ExperienceKind = z.infer<typeof ExperienceKindSchema>;
+export type Experience = z.infer<typeof ExperienceSchema>;
+export type ExperienceInput = z.infer<typeof ExperienceInputSchema>;
@@ -0,0 +1,56 @@
+import { z } from "zod";
+
+export const ProjectSectionSchema = z.enum(["SOFTWARE", "ARTS"]);
+
+export const ProjectImageSchema = z.object({
+  src: z.string(),
+  alt: z.string(),
+  caption: z.string().optional(),
+});
+
+export const ProjectLinkSchema = z.object({
+  url: z.string().url(),
+  label: z.string(),
+});
+
+export const ProjectSchema = z.object({
+  id: z.string(),
+  slug: z.string(),
+  section: ProjectSectionSchema,
+  title: z.string(),
+  description: z.string(),
+  images: z.array(ProjectImageSchema),
+  technologies: z.array(z.string()),
+  links: z.array(ProjectLinkSchema),
+});
+
+export type ProjectSection = z.infer<typeof ProjectSectionSchema>;
+export type Project = z.infer<typeof ProjectSchema>;
+
+/**
+ * Image paths served from /public. next/image only renders site paths here (no remote hosts are configured),
+ * so anything else would throw when the card renders.
+ */
+export const LocalImagePathSchema = z
+  .string()
+  .trim()
+  .min(1, "Image path is required")
+  .regex(/^\/(?!\/)\S*$/, "Use a path on this site starting with /, e.g. /images/projects/example.webp");
+
+export const ProjectInputSchema = ProjectSchema.omit({ id: true }).extend({
+  slug: z
+    .string()
+    .min(1, "Slug is required")
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Use lowercase letters, numbers and dashes"),
+  title: z.string().trim().min(1, "Title is required"),
+  description: z.string().trim().min(1, "Description is required"),
+  images: z.array(
+    ProjectImageSchema.extend({
+      src: LocalImagePathSchema,
+      alt: z.string().trim().min(1, "Alt text is required"),
+    })
+  ),
+  technologies: z.array(z.string().trim().min(1)),
+});
+
+export type ProjectInput = z.infer<typeof ProjectInputSchema>;
@@ -0,0 +1,30 @@
+import { z } from "zod";
+
+export const ScreenMediaKindSchema = z.enum(["VIDEO", "IMAGE"]);
+
+export const ScreenItemSchema = z.object({
+  id: z.string(),
+  kind: ScreenMediaKindSchema,
+  src: z.string(),
+  artist: z.string().optional(),
+  artistUrl: z.string().url().optional(),
+  license: z.string().optional(),
+  durationSeconds: z.number().int().optional(),
+});
+
+export const ScreenItemInputSchema = ScreenItemSchema.omit({ id: true }).extend({
+  src: z.string().trim().min(1, "Media path is required"),
+  artist: z.string().trim().min(1).optional(),
+  artistUrl: z.string().trim().url("Enter a full URL, including https://").optional(),
+  license: z.string().trim().min(1).optional(),
+  durationSeconds: z
+    .number()
+    .int("Use whole seconds")
+    .min(2, "Show each item for at least 2 seconds")
+    .max(3600, "Use an hour or less")
+    .optional(),
+});
+
+export type ScreenMediaKind = z.infer<typeof ScreenMediaKindSchema>;
+export type ScreenItem = z.infer<typeof ScreenItemSchema>;
+export type ScreenItemInput = z.infer<typeof ScreenItemInputSchema>;
@@ -1,11 +1,25 @@
 import { z } from "zod";
 
+export const RoleSchema = z.enum(["VIEWER", "EDITOR", "OWNER"]);
+
 export const UserSchema = z.object({
   id: z.string(),
   name: z.string(),
   email: z.string().email(),
   image: z.string().url(),
   emailVerified: z.date().optional(),
+  role: RoleSchema,
 });
 
-export type User = z.infer<typeof UserSchema>;
\ No newline at end of file
+export type Role = z.infer<typeof RoleSchema>;
+export type User = z.infer<typeof UserSchema>;
+
+/** Roles are ordered so that each one includes the permissions of the ones before it */
+const ROLE_RANK: Record<Role, number> = {
+  VIEWER: 0,
+  EDITOR: 1,
+  OWNER: 2,
+};
+
+export const hasRole = (role: Role, required: Role): boolean =>
+  ROLE_RANK[role] >= ROLE_RANK[required];